@@ -0,0 +1,132 @@
+/**
+ * Tells public IP addresses apart from loopback, private, link-local and
+ * other special-purpose ones, so requests to URLs chosen by API callers
+ * cannot reach the backend's own network.
+ */
+
+/** IPv4 ranges that are not reachable on the public internet. */
+const NON_PUBLIC_IPV4_RANGES: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  // Multicast, reserved and broadcast.
+  ["224.0.0.0", 3],
+];
+
+function parseIpv4(text: string): number | undefined {
+  const parts = text.split(".");
+  if (parts.length !== 4) return undefined;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return undefined;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+/** The eight 16-bit groups of an IPv6 address. */
+function parseIpv6(text: string): number[] | undefined {
+  let address = text.replace(/%.*$/, "");
+  // An embedded IPv4 address, as in `::ffff:192.0.2.1`.
+  if (address.includes(".")) {
+    const split = address.lastIndexOf(":");
+    const ipv4 = parseIpv4(address.slice(split + 1));
+    if (ipv4 === undefined) return undefined;
+    address = `${address.slice(0, split + 1)}${
+      Math.floor(ipv4 / 0x10000).toString(16)
+    }:${(ipv4 % 0x10000).toString(16)}`;
+  }
+  const halves = address.split("::");
+  if (halves.length > 2) return undefined;
+  const groupsOf = (part: string) =>
+    part === "" ? [] : part.split(":").map((group) =>
+      /^[0-9a-f]{1,4}$/i.test(group) ? parseInt(group, 16) : NaN
+    );
+  const head = groupsOf(halves[0]);
+  const tail = halves.length === 2 ? groupsOf(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return undefined;
+  const groups = [...head, ...Array(missing).fill(0), ...tail];
+  return groups.some(Number.isNaN) ? undefined : groups;
+}
+
+function isPublicIpv4(value: number): boolean {
+  return !NON_PUBLIC_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(value / size) ===
+      Math.floor((parseIpv4(base) ?? 0) / size);
+  });
+}
+
+function isPublicIpv6(groups: number[]): boolean {
+  const [first] = groups;
+  // `::ffff:a.b.c.d` and the NAT64 prefix `64:ff9b::/96` carry IPv4.
+  const mapped = groups.slice(0, 5).every((group) => group === 0) &&
+    groups[5] === 0xffff;
+  const nat64 = first === 0x64 && groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((group) => group === 0);
+  if (mapped || nat64) return isPublicIpv4(groups[6] * 0x10000 + groups[7]);
+  return !(
+    // `::`, `::1` and the deprecated IPv4-compatible addresses.
+    groups.slice(0, 6).every((group) => group === 0) ||
+    // Unique local `fc00::/7`.
+    (first & 0xfe00) === 0xfc00 ||
+    // Link-local `fe80::/10` and site-local `fec0::/10`.
+    (first & 0xff80) === 0xfe80 ||
+    // Multicast `ff00::/8`.
+    (first & 0xff00) === 0xff00
+  );
+}
+
+/** Strips the brackets `URL.hostname` keeps around IPv6 addresses. */
+function unbracket(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/** Whether `hostname` is an IPv4 or IPv6 address rather than a name. */
+export function isIpAddress(hostname: string): boolean {
+  const host = unbracket(hostname);
+  return parseIpv4(host) !== undefined || parseIpv6(host) !== undefined;
+}
+
+/**
+ * Whether `address`, an IPv4 or IPv6 address, is reachable on the public
+ * internet. Anything that is not an address counts as not public.
+ */
+export function isPublicAddress(address: string): boolean {
+  const host = unbracket(address);
+  const ipv4 = parseIpv4(host);
+  if (ipv4 !== undefined) return isPublicIpv4(ipv4);
+  const ipv6 = parseIpv6(host);
+  return ipv6 !== undefined && isPublicIpv6(ipv6);
+}
+
+/** Names that always point at the machine itself. */
+export function isLocalHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  return host === "localhost" || host.endsWith(".localhost");
+}
+
+/**
+ * Resolves `hostname` and tells whether every address it points at is
+ * public. A name that does not resolve counts as not public.
+ */
+export async function resolvesToPublicAddresses(
+  hostname: string,
+): Promise<boolean> {
+  if (isIpAddress(hostname)) return isPublicAddress(hostname);
+  if (isLocalHostname(hostname)) return false;
+  const lookups = await Promise.all(
+    (["A", "AAAA"] as const).map((type) =>
+      Deno.resolveDns(hostname, type).catch(() => [] as string[])
+    ),
+  );
+  const addresses = lookups.flat();
+  return addresses.length > 0 && addresses.every(isPublicAddress);
+}
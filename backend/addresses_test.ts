@@ -0,0 +1,64 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  isIpAddress,
+  isLocalHostname,
+  isPublicAddress,
+  resolvesToPublicAddresses,
+} from "./addresses.ts";
+
+Deno.test("tells public addresses from private ones", () => {
+  for (
+    const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "100.64.0.1",
+      "127.0.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "224.0.0.1",
+      "255.255.255.255",
+      "::",
+      "[::1]",
+      "fc00::1",
+      "fd12:3456::1",
+      "fe80::1%eth0",
+      "ff02::1",
+      "::ffff:127.0.0.1",
+      "::ffff:a9fe:a9fe",
+      "64:ff9b::10.0.0.1",
+      "not-an-address",
+    ]
+  ) {
+    assertEquals(isPublicAddress(address), false, address);
+  }
+  for (
+    const address of [
+      "8.8.8.8",
+      "172.32.0.1",
+      "2606:4700::1111",
+      "[2001:4860:4860::8888]",
+      "::ffff:8.8.8.8",
+    ]
+  ) {
+    assert(isPublicAddress(address), address);
+  }
+});
+
+Deno.test("recognizes addresses and local names", () => {
+  assert(isIpAddress("192.0.2.1"));
+  assert(isIpAddress("[2001:db8::1]"));
+  assertEquals(isIpAddress("example.com"), false);
+  assertEquals(isIpAddress("1:2:3:4:5:6:7:8:9"), false);
+  assert(isLocalHostname("localhost"));
+  assert(isLocalHostname("api.localhost."));
+  assertEquals(isLocalHostname("localhost.example.com"), false);
+});
+
+Deno.test("checks literal addresses without resolving them", async () => {
+  assertEquals(await resolvesToPublicAddresses("127.0.0.1"), false);
+  assertEquals(await resolvesToPublicAddresses("[::1]"), false);
+  assertEquals(await resolvesToPublicAddresses("localhost"), false);
+  assert(await resolvesToPublicAddresses("8.8.8.8"));
+});
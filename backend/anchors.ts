@@ -0,0 +1,109 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { SignatureFieldInput } from "./goodflag.ts";
+
+/** Matches `{{sign:signer1}}` or `{{sign:jane@example.com}}` placeholders. */
+const ANCHOR_PATTERN = /\{\{\s*sign:([^}\s]+)\s*\}\}/g;
+const SIGNER_ALIAS_PATTERN = /^signer(\d+)$/i;
+
+export interface SignatureAnchor {
+  tag: string;
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Scans the PDF text layer for placeholder tags and returns their position in
+ * PDF user space (origin bottom-left). A tag must sit in a single text run,
+ * which is what word processors produce for a placeholder typed in one go.
+ */
+export async function findSignatureAnchors(
+  bytes: Uint8Array,
+): Promise<SignatureAnchor[]> {
+  const document = await getDocument({
+    // pdf.js transfers the buffer to its worker; keep the caller's copy intact.
+    data: bytes.slice(),
+    isEvalSupported: false,
+    disableFontFace: true,
+    // Only surface errors; missing standard font data is irrelevant here.
+    verbosity: 0,
+  }).promise;
+
+  const anchors: SignatureAnchor[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      for (const item of content.items as Array<Partial<PdfTextItem>>) {
+        if (typeof item.str !== "string" || !item.transform) continue;
+        for (const match of item.str.matchAll(ANCHOR_PATTERN)) {
+          anchors.push(anchorFromItem(item as PdfTextItem, match, pageNumber));
+        }
+      }
+    }
+  } finally {
+    await document.destroy();
+  }
+  return anchors;
+}
+
+function anchorFromItem(
+  item: PdfTextItem,
+  match: RegExpMatchArray,
+  page: number,
+): SignatureAnchor {
+  const [, , , fontHeight, originX, originY] = item.transform;
+  // Approximate the tag's horizontal offset when it shares a run with other
+  // text by assuming evenly spaced glyphs.
+  const charWidth = item.str.length > 0 ? item.width / item.str.length : 0;
+  const offset = (match.index ?? 0) * charWidth;
+  return {
+    tag: match[1],
+    page,
+    x: originX + offset,
+    y: originY,
+    width: match[0].length * charWidth,
+    height: item.height || Math.abs(fontHeight),
+  };
+}
+
+/**
+ * Turns anchors into signature fields of the configured size, anchored at the
+ * tag's baseline. `signerN` tags map to the Nth signer (1-based) and email
+ * tags to that signer; unknown tags produce a field with no recipient.
+ */
+export function fieldsFromAnchors(
+  anchors: SignatureAnchor[],
+  signerEmails: string[],
+  size: { width: number; height: number },
+): SignatureFieldInput[] {
+  const emails = new Map(
+    signerEmails.map((email) => [email.toLowerCase(), email]),
+  );
+  return anchors.map((anchor) => {
+    const alias = anchor.tag.match(SIGNER_ALIAS_PATTERN);
+    const recipientEmail = alias
+      ? signerEmails[Number(alias[1]) - 1]
+      : emails.get(anchor.tag.toLowerCase());
+    if (!recipientEmail) {
+      console.warn(`Signature anchor ${anchor.tag} matches no signer`);
+    }
+    return {
+      page: anchor.page,
+      x: Math.round(anchor.x),
+      y: Math.round(anchor.y),
+      width: Math.max(size.width, Math.round(anchor.width)),
+      height: size.height,
+      ...(recipientEmail ? { recipientEmail } : {}),
+    };
+  });
+}
@@ -0,0 +1,107 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  fieldsFromAnchors,
+  findSignatureAnchors,
+  type SignatureAnchor,
+} from "./anchors.ts";
+
+const SIZE = { width: 150, height: 60 };
+
+/** A one-page PDF showing `text` in a single run at (72, 720). */
+function pdfWithText(text: string): Uint8Array {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] " +
+    "/Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+function anchor(tag: string, overrides: Partial<SignatureAnchor> = {}) {
+  return {
+    tag,
+    page: 1,
+    x: 72.4,
+    y: 719.6,
+    width: 80,
+    height: 12,
+    ...overrides,
+  };
+}
+
+/** The field an anchor from `anchor` turns into, with the default size. */
+function field(overrides: Record<string, unknown> = {}) {
+  return { page: 1, x: 72, y: 720, width: 150, height: 60, ...overrides };
+}
+
+Deno.test("finds placeholder tags in the PDF text layer", async () => {
+  const bytes = pdfWithText(
+    "Signed: {{sign:signer1}} and {{ sign:jo@x.io }}",
+  );
+  const anchors = await findSignatureAnchors(bytes);
+  assertEquals(anchors.map(({ tag, page }) => ({ tag, page })), [
+    { tag: "signer1", page: 1 },
+    { tag: "jo@x.io", page: 1 },
+  ]);
+  const [first, second] = anchors;
+  assertEquals(first.y, 720);
+  // The first tag follows "Signed: ", the second sits further right.
+  assert(first.x > 72 && second.x > first.x + first.width);
+  assert(first.width > 0 && first.height > 0);
+
+  assertEquals(await findSignatureAnchors(pdfWithText("No tags")), []);
+});
+
+Deno.test("turns anchors into fields for the matching signers", () => {
+  const signers = ["ada@example.com", "Grace@example.com"];
+  assertEquals(
+    fieldsFromAnchors(
+      [
+        anchor("signer2"),
+        anchor("grace@EXAMPLE.com", { page: 2, width: 200 }),
+        anchor("SIGNER1"),
+      ],
+      signers,
+      SIZE,
+    ),
+    [
+      field({ recipientEmail: "Grace@example.com" }),
+      field({ page: 2, width: 200, recipientEmail: "Grace@example.com" }),
+      field({ recipientEmail: "ada@example.com" }),
+    ],
+  );
+});
+
+Deno.test("places fields without a recipient for unknown tags", () => {
+  const warn = console.warn;
+  console.warn = () => {};
+  try {
+    assertEquals(
+      fieldsFromAnchors(
+        [anchor("signer3"), anchor("someone@example.com")],
+        ["ada@example.com"],
+        SIZE,
+      ),
+      [field(), field()],
+    );
+  } finally {
+    console.warn = warn;
+  }
+});
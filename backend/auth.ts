@@ -0,0 +1,394 @@
+import { decodeBase64Url, encodeBase64Url } from "@std/encoding/base64url";
+import config from "./config.ts";
+
+/** Who is calling the API; `id` is recorded as the owner of their jobs. */
+export interface Principal {
+  /** `service:<name>` for API keys, `user:<sub>` for JWTs. */
+  id: string;
+  kind: "api_key" | "jwt";
+  /** Listed in `ADMIN_PRINCIPALS`: may see and list every job. */
+  admin: boolean;
+}
+
+export interface AuthConfig {
+  apiKeys: Array<{ name: string; key: string }>;
+  /** HS256 secret shared with the identity provider. */
+  jwtSecret?: string;
+  /** JWKS endpoint publishing the provider's RS256/ES256 keys. */
+  jwksUrl?: string;
+  jwtIssuer?: string;
+  jwtAudience?: string;
+  adminPrincipals: string[];
+  /**
+   * Signs event stream tickets; instances behind one load balancer must share
+   * it. A random key per process is used when unset.
+   */
+  streamTicketSecret?: string;
+}
+
+/** A short-lived credential for one job's event stream. */
+export interface StreamTicket {
+  ticket: string;
+  expiresAt: string;
+}
+
+/**
+ * Thrown when a request carries no usable credential; mapped to a 401, or to
+ * `status` when the credential could not be checked (503 while the JWKS is
+ * unavailable).
+ */
+export class AuthError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface JwtClaims {
+  sub?: unknown;
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+}
+
+type JwkWithKid = JsonWebKey & { kid?: string };
+
+interface StreamTicketClaims {
+  sub?: unknown;
+  kind?: unknown;
+  job?: unknown;
+  exp?: unknown;
+}
+
+const CLOCK_SKEW_SECONDS = 60;
+const STREAM_TICKET_TTL_MS = 1000 * 60;
+const JWKS_CACHE_MS = 1000 * 60 * 10;
+const JWKS_MIN_REFETCH_MS = 1000 * 60;
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const JWT_ALGORITHMS: Record<
+  string,
+  {
+    import: RsaHashedImportParams | EcKeyImportParams;
+    verify: AlgorithmIdentifier | EcdsaParams;
+  }
+> = {
+  RS256: {
+    import: { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    verify: "RSASSA-PKCS1-v1_5",
+  },
+  ES256: {
+    import: { name: "ECDSA", namedCurve: "P-256" },
+    verify: { name: "ECDSA", hash: "SHA-256" },
+  },
+};
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", encoder.encode(value)),
+  );
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/** Decodes a JWT header or payload, which must be a JSON object. */
+function decodeJson<T extends object>(segment: string): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(decoder.decode(decodeBase64Url(segment)));
+  } catch (_err) {
+    throw new AuthError("Malformed bearer token");
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new AuthError("Malformed bearer token");
+  }
+  return value as T;
+}
+
+/**
+ * Resolves the caller of a request from an API key (`X-API-Key`, or a bearer
+ * token that is not a JWT) or a bearer JWT signed with `AUTH_JWT_SECRET`
+ * (HS256) or a key from `AUTH_JWKS_URL` (RS256/ES256).
+ */
+export class Authenticator {
+  #config: AuthConfig;
+  #apiKeyDigests?: Promise<Array<{ name: string; digest: Uint8Array }>>;
+  #hmacKey?: Promise<CryptoKey>;
+  #ticketKey?: Promise<CryptoKey>;
+  #jwks?: { keys: JwkWithKid[]; fetchedAt: number };
+
+  constructor(config: AuthConfig) {
+    this.#config = config;
+  }
+
+  get configured(): boolean {
+    return this.#config.apiKeys.length > 0 ||
+      Boolean(this.#config.jwtSecret) ||
+      Boolean(this.#config.jwksUrl);
+  }
+
+  /** Returns the authenticated principal or throws `AuthError`. */
+  async authenticate(req: Request): Promise<Principal> {
+    const apiKey = req.headers.get("x-api-key");
+    if (apiKey) {
+      return await this.#verifyApiKey(apiKey);
+    }
+
+    const token = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)
+      ?.[1].trim();
+    if (!token) {
+      throw new AuthError("Authentication required");
+    }
+    return token.split(".").length === 3
+      ? await this.#verifyJwt(token)
+      : await this.#verifyApiKey(token);
+  }
+
+  /**
+   * Issues a ticket that lets `principal` open the event stream of `jobId`
+   * for the next minute. EventSource cannot send headers, so the stream takes
+   * this ticket in its query string instead of the caller's credential.
+   */
+  async issueStreamTicket(
+    principal: Principal,
+    jobId: string,
+  ): Promise<StreamTicket> {
+    const exp = Date.now() + STREAM_TICKET_TTL_MS;
+    const payload = encodeBase64Url(
+      encoder.encode(
+        JSON.stringify({
+          sub: principal.id,
+          kind: principal.kind,
+          job: jobId,
+          exp,
+        }),
+      ),
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await this.#streamTicketKey(),
+      encoder.encode(payload),
+    );
+    return {
+      ticket: `${payload}.${encodeBase64Url(signature)}`,
+      expiresAt: new Date(exp).toISOString(),
+    };
+  }
+
+  /**
+   * Returns the principal a stream ticket was issued to, or throws
+   * `AuthError` when it is forged, expired or meant for another job.
+   */
+  async verifyStreamTicket(
+    ticket: string,
+    jobId: string,
+  ): Promise<Principal> {
+    const [payload, signatureSegment, ...rest] = ticket.split(".");
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      signature = decodeBase64Url(signatureSegment ?? "");
+    } catch (_err) {
+      throw new AuthError("Malformed stream ticket");
+    }
+    const valid = rest.length === 0 && await crypto.subtle.verify(
+      "HMAC",
+      await this.#streamTicketKey(),
+      signature,
+      encoder.encode(payload),
+    );
+    if (!valid) {
+      throw new AuthError("Invalid stream ticket");
+    }
+    const claims = decodeJson<StreamTicketClaims>(payload);
+    if (typeof claims.exp !== "number" || claims.exp < Date.now()) {
+      throw new AuthError("Stream ticket has expired");
+    }
+    if (
+      claims.job !== jobId || typeof claims.sub !== "string" ||
+      (claims.kind !== "api_key" && claims.kind !== "jwt")
+    ) {
+      throw new AuthError("Stream ticket is meant for another job");
+    }
+    return this.#principal(claims.sub, claims.kind);
+  }
+
+  #streamTicketKey(): Promise<CryptoKey> {
+    this.#ticketKey ??= this.#config.streamTicketSecret
+      ? crypto.subtle.importKey(
+        "raw",
+        encoder.encode(this.#config.streamTicketSecret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"],
+      )
+      : crypto.subtle.generateKey(
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"],
+      );
+    return this.#ticketKey;
+  }
+
+  async #verifyApiKey(candidate: string): Promise<Principal> {
+    this.#apiKeyDigests ??= Promise.all(
+      this.#config.apiKeys.map(async ({ name, key }) => ({
+        name,
+        digest: await sha256(key),
+      })),
+    );
+    // Compare digests so neither the key length nor its prefix leaks.
+    const digest = await sha256(candidate);
+    let match: string | undefined;
+    for (const entry of await this.#apiKeyDigests) {
+      if (constantTimeEqual(entry.digest, digest)) match = entry.name;
+    }
+    if (!match) {
+      throw new AuthError("Invalid API key");
+    }
+    return this.#principal(`service:${match}`, "api_key");
+  }
+
+  async #verifyJwt(token: string): Promise<Principal> {
+    const [headerSegment, payloadSegment, signatureSegment] = token.split(".");
+    const header = decodeJson<JwtHeader>(headerSegment);
+    const claims = decodeJson<JwtClaims>(payloadSegment);
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      signature = decodeBase64Url(signatureSegment);
+    } catch (_err) {
+      throw new AuthError("Malformed bearer token");
+    }
+    const signedContent = encoder.encode(`${headerSegment}.${payloadSegment}`);
+
+    let valid: boolean;
+    if (header.alg === "HS256" && this.#config.jwtSecret) {
+      this.#hmacKey ??= crypto.subtle.importKey(
+        "raw",
+        encoder.encode(this.#config.jwtSecret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["verify"],
+      );
+      valid = await crypto.subtle.verify(
+        "HMAC",
+        await this.#hmacKey,
+        signature,
+        signedContent,
+      );
+    } else if (
+      header.alg && JWT_ALGORITHMS[header.alg] && this.#config.jwksUrl
+    ) {
+      const algorithm = JWT_ALGORITHMS[header.alg];
+      const jwk = await this.#findJwk(header.kid);
+      try {
+        const key = await crypto.subtle.importKey(
+          "jwk",
+          jwk,
+          algorithm.import,
+          false,
+          ["verify"],
+        );
+        valid = await crypto.subtle.verify(
+          algorithm.verify,
+          key,
+          signature,
+          signedContent,
+        );
+      } catch (_err) {
+        // A JWKS entry that does not fit the token's algorithm.
+        throw new AuthError("Bearer token was signed with an unusable key");
+      }
+    } else {
+      throw new AuthError(`Unsupported token algorithm: ${header.alg}`);
+    }
+    if (!valid) {
+      throw new AuthError("Invalid bearer token signature");
+    }
+
+    this.#checkClaims(claims);
+    return this.#principal(`user:${claims.sub}`, "jwt");
+  }
+
+  #principal(id: string, kind: Principal["kind"]): Principal {
+    return { id, kind, admin: this.#config.adminPrincipals.includes(id) };
+  }
+
+  #checkClaims(claims: JwtClaims) {
+    const now = Date.now() / 1000;
+    if (typeof claims.sub !== "string" || claims.sub.length === 0) {
+      throw new AuthError("Bearer token has no subject");
+    }
+    if (
+      typeof claims.exp !== "number" ||
+      claims.exp + CLOCK_SKEW_SECONDS < now
+    ) {
+      throw new AuthError("Bearer token has expired");
+    }
+    if (
+      typeof claims.nbf === "number" &&
+      claims.nbf - CLOCK_SKEW_SECONDS > now
+    ) {
+      throw new AuthError("Bearer token is not valid yet");
+    }
+    if (this.#config.jwtIssuer && claims.iss !== this.#config.jwtIssuer) {
+      throw new AuthError("Bearer token was issued by an unexpected issuer");
+    }
+    if (this.#config.jwtAudience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+      if (!audiences.includes(this.#config.jwtAudience)) {
+        throw new AuthError("Bearer token is meant for another audience");
+      }
+    }
+  }
+
+  async #findJwk(kid: string | undefined): Promise<JwkWithKid> {
+    const find = () =>
+      this.#jwks?.keys.find((key) => kid === undefined || key.kid === kid);
+    const age = this.#jwks ? Date.now() - this.#jwks.fetchedAt : Infinity;
+    // Refetch on an unknown kid as well (rate limited), so key rotation is
+    // picked up before the cache expires.
+    if (age > JWKS_CACHE_MS || (!find() && age > JWKS_MIN_REFETCH_MS)) {
+      let payload;
+      try {
+        const response = await fetch(this.#config.jwksUrl!, {
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!response.ok) {
+          throw new Error(`Failed to fetch JWKS (${response.status})`);
+        }
+        payload = await response.json();
+      } catch (error) {
+        console.error("Failed to fetch JWKS", error);
+        throw new AuthError("Signing keys are unavailable, try again later", 503);
+      }
+      this.#jwks = {
+        keys: Array.isArray(payload?.keys) ? payload.keys : [],
+        fetchedAt: Date.now(),
+      };
+    }
+    const jwk = find();
+    if (!jwk) {
+      throw new AuthError("Bearer token was signed with an unknown key");
+    }
+    return jwk;
+  }
+}
+
+export const authenticator = new Authenticator(config.auth);
@@ -0,0 +1,625 @@
+import config from "./config.ts";
+import { GoodflagApiError, type WorkflowRecipientInput } from "./goodflag.ts";
+import { detectSignatureFields, initialSteps, launchJob } from "./jobs.ts";
+import {
+  parseRecipient,
+  requireNumber,
+  SignRequestError,
+} from "./sign_request.ts";
+import type { BlobStore } from "./storage.ts";
+import { createBlobStore, type SigningJob, signingStore } from "./store.ts";
+import { tenantDirectory } from "./tenants.ts";
+import type { UploadedFile } from "./uploads.ts";
+
+export type BatchRowStatus = "queued" | "processing" | "created" | "failed";
+
+/** One signer of a bulk send, who gets a workflow of their own. */
+export interface SigningBatchRow {
+  index: number;
+  recipient: WorkflowRecipientInput;
+  status: BatchRowStatus;
+  /**
+   * Latest job created for the row. Failed attempts keep their own job; one
+   * held back by a rate limit is resumed by the next attempt.
+   */
+  jobId?: string;
+  error?: string;
+  attempts: number;
+  updatedAt: number;
+}
+
+export interface SigningBatch {
+  id: string;
+  /** Principal that sent the batch; its jobs are owned by them too. */
+  ownerId: string;
+  tenantId: string;
+  profileKey: string;
+  /** Each workflow is named after it, followed by the signer's email. */
+  workflowName: string;
+  fileName: string;
+  fileType: string;
+  /** Given to every job of the batch. */
+  callbackUrl?: string;
+  createdAt: number;
+  rows: SigningBatchRow[];
+}
+
+export type NewSigningBatch =
+  & Omit<SigningBatch, "id" | "createdAt" | "rows">
+  & { document: Uint8Array; recipients: WorkflowRecipientInput[] };
+
+const MAX_BULK_SIGNERS = 1000;
+/** CSV headers, lowercased without separators, and the key they fill. */
+const CSV_COLUMNS: Record<string, keyof WorkflowRecipientInput> = {
+  email: "email",
+  firstname: "firstName",
+  lastname: "lastName",
+  phone: "phoneNumber",
+  phonenumber: "phoneNumber",
+  locale: "preferredLocale",
+  preferredlocale: "preferredLocale",
+  comments: "comments",
+  consentpageid: "consentPageId",
+  organizationid: "organizationId",
+  country: "country",
+};
+
+/** Splits RFC 4180 CSV into rows of cells; blank lines are skipped. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.length === 0) {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      if (row.some((value) => value.trim().length > 0)) rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new SignRequestError("signers CSV has an unterminated quote");
+  }
+  row.push(cell);
+  if (row.some((value) => value.trim().length > 0)) rows.push(row);
+  return rows;
+}
+
+function csvSigners(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((name) =>
+    CSV_COLUMNS[name.toLowerCase().replace(/[^a-z]/g, "")]
+  );
+  if (!columns.includes("email")) {
+    throw new SignRequestError("signers CSV needs an email column");
+  }
+  return rows.map((cells) => {
+    const signer: Record<string, string> = {};
+    columns.forEach((key, index) => {
+      // Columns the backend does not know, such as employee IDs, are ignored.
+      if (key && cells[index] !== undefined) signer[key] = cells[index];
+    });
+    return signer;
+  });
+}
+
+/**
+ * Parses the signer list of a bulk send: CSV with a header row (`email`,
+ * `first_name`, `last_name`, `phone`, `locale`, ...) or a JSON array of
+ * recipients. Each signer gets a workflow of their own.
+ */
+export function parseSignerList(
+  text: string,
+  format: "csv" | "json",
+): WorkflowRecipientInput[] {
+  let raw: unknown[];
+  if (format === "json") {
+    try {
+      raw = JSON.parse(text);
+    } catch (_err) {
+      throw new SignRequestError("signers must be valid JSON");
+    }
+    if (!Array.isArray(raw)) {
+      throw new SignRequestError("signers must be a JSON array");
+    }
+  } else {
+    raw = csvSigners(text);
+  }
+  if (raw.length === 0) {
+    throw new SignRequestError("signers must list at least one signer");
+  }
+  if (raw.length > MAX_BULK_SIGNERS) {
+    throw new SignRequestError(
+      `signers cannot contain more than ${MAX_BULK_SIGNERS} entries`,
+    );
+  }
+
+  const seen = new Map<string, number>();
+  return raw.map((entry, index) => {
+    const recipient = parseRecipient(entry, `signers[${index}]`);
+    const email = recipient.email.toLowerCase();
+    if (seen.has(email)) {
+      throw new SignRequestError(
+        `signers[${index}] repeats the email of signers[${seen.get(email)}]`,
+      );
+    }
+    seen.set(email, index);
+    return recipient;
+  });
+}
+
+/**
+ * Parses the body of `POST /api/sign/bulk/:batchId/retry`: an optional
+ * `{ rows }` array of row indexes. Without it every failed row is retried.
+ */
+export function parseBatchRetryRequest(
+  body: Record<string, unknown>,
+  rowCount: number,
+): { rows?: number[] } {
+  if (body.rows === undefined) return {};
+  if (!Array.isArray(body.rows) || body.rows.length === 0) {
+    throw new SignRequestError("rows must be a non-empty array");
+  }
+  return {
+    rows: body.rows.map((row, index) =>
+      requireNumber(
+        row,
+        `rows[${index}]`,
+        (value) => Number.isInteger(value) && value >= 0 && value < rowCount,
+        `a row index between 0 and ${rowCount - 1}`,
+      )
+    ),
+  };
+}
+
+export interface BatchRepository {
+  get(id: string): Promise<SigningBatch | undefined>;
+  create(batch: SigningBatch): Promise<void>;
+  /** Replaces one row; rows of a batch are updated concurrently. */
+  putRow(batchId: string, row: SigningBatchRow): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): AsyncIterable<SigningBatch>;
+}
+
+export class MemoryBatchRepository implements BatchRepository {
+  #batches = new Map<string, SigningBatch>();
+
+  get(id: string): Promise<SigningBatch | undefined> {
+    const batch = this.#batches.get(id);
+    return Promise.resolve(batch ? structuredClone(batch) : undefined);
+  }
+
+  create(batch: SigningBatch): Promise<void> {
+    this.#batches.set(batch.id, structuredClone(batch));
+    return Promise.resolve();
+  }
+
+  putRow(batchId: string, row: SigningBatchRow): Promise<void> {
+    const batch = this.#batches.get(batchId);
+    if (batch) batch.rows[row.index] = structuredClone(row);
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<void> {
+    this.#batches.delete(id);
+    return Promise.resolve();
+  }
+
+  async *list(): AsyncIterable<SigningBatch> {
+    for (const batch of [...this.#batches.values()]) {
+      yield structuredClone(batch);
+    }
+  }
+}
+
+const BATCHES_PREFIX = ["signing_batches"];
+const BATCH_ROWS_PREFIX = ["signing_batch_rows"];
+const KV_ROWS_PER_COMMIT = 500;
+
+/**
+ * Deno KV backed repository. A batch lives under `["signing_batches", id]`
+ * and each row under `["signing_batch_rows", id, index]`, which keeps entries
+ * below the KV value size limit and lets rows change independently.
+ */
+export class KvBatchRepository implements BatchRepository {
+  #kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.#kv = kv;
+  }
+
+  static async open(path?: string): Promise<KvBatchRepository> {
+    return new KvBatchRepository(await Deno.openKv(path));
+  }
+
+  async get(id: string): Promise<SigningBatch | undefined> {
+    const entry = await this.#kv.get<Omit<SigningBatch, "rows">>([
+      ...BATCHES_PREFIX,
+      id,
+    ]);
+    if (!entry.value) return undefined;
+    const rows: SigningBatchRow[] = [];
+    const entries = this.#kv.list<SigningBatchRow>({
+      prefix: [...BATCH_ROWS_PREFIX, id],
+    });
+    for await (const row of entries) {
+      rows.push(row.value);
+    }
+    return { ...entry.value, rows };
+  }
+
+  async create(batch: SigningBatch): Promise<void> {
+    const { rows, ...header } = batch;
+    for (let start = 0; start < rows.length; start += KV_ROWS_PER_COMMIT) {
+      const op = this.#kv.atomic();
+      for (const row of rows.slice(start, start + KV_ROWS_PER_COMMIT)) {
+        op.set([...BATCH_ROWS_PREFIX, batch.id, row.index], row);
+      }
+      await op.commit();
+    }
+    // Written last, so a batch is only visible once all its rows are.
+    await this.#kv.set([...BATCHES_PREFIX, batch.id], header);
+  }
+
+  async putRow(batchId: string, row: SigningBatchRow): Promise<void> {
+    await this.#kv.set([...BATCH_ROWS_PREFIX, batchId, row.index], row);
+  }
+
+  async delete(id: string): Promise<void> {
+    // Removed first, so a batch is never visible without all its rows.
+    await this.#kv.delete([...BATCHES_PREFIX, id]);
+    const entries = this.#kv.list({ prefix: [...BATCH_ROWS_PREFIX, id] });
+    let op = this.#kv.atomic();
+    let pending = 0;
+    for await (const entry of entries) {
+      op.delete(entry.key);
+      if (++pending === KV_ROWS_PER_COMMIT) {
+        await op.commit();
+        op = this.#kv.atomic();
+        pending = 0;
+      }
+    }
+    if (pending > 0) await op.commit();
+  }
+
+  async *list(): AsyncIterable<SigningBatch> {
+    const entries = this.#kv.list<Omit<SigningBatch, "rows">>({
+      prefix: BATCHES_PREFIX,
+    });
+    for await (const entry of entries) {
+      const batch = await this.get(entry.value.id);
+      if (batch) yield batch;
+    }
+  }
+}
+
+export interface BulkSenderOptions {
+  /** Rows turned into workflows at once, across every batch. */
+  concurrency: number;
+  /** Pause after a 429 from Goodflag that carries no `Retry-After`. */
+  rateLimitPauseMs: number;
+  /**
+   * Batches whose rows all settled and stayed untouched for longer than this
+   * are deleted with their document; 0 keeps them.
+   */
+  retentionMs: number;
+}
+
+interface QueuedRow {
+  batchId: string;
+  index: number;
+}
+
+const MAX_SWEEP_INTERVAL_MS = 1000 * 60 * 10;
+
+function documentKey(batchId: string): string {
+  return `batch-${batchId}`;
+}
+
+/**
+ * Sends one document to many signers: every row of a batch becomes a regular
+ * signing job with its own workflow. Rows are processed in the background,
+ * a few at a time, and all of them wait when Goodflag rate limits requests.
+ */
+export class BulkSender {
+  #batches: BatchRepository;
+  #blobs: BlobStore;
+  #options: BulkSenderOptions;
+  #queue: QueuedRow[] = [];
+  #active = 0;
+  #pausedUntil = 0;
+  #resumeTimer?: ReturnType<typeof setTimeout>;
+  #idleWaiters: Array<() => void> = [];
+
+  constructor(
+    batches: BatchRepository,
+    blobs: BlobStore,
+    options: BulkSenderOptions,
+  ) {
+    this.#batches = batches;
+    this.#blobs = blobs;
+    this.#options = options;
+    if (options.retentionMs > 0) {
+      const timer = setInterval(
+        () =>
+          this.evictExpired().catch((error) =>
+            console.error("Failed to evict expired signing batches", error)
+          ),
+        Math.min(options.retentionMs, MAX_SWEEP_INTERVAL_MS),
+      );
+      Deno.unrefTimer(timer);
+    }
+  }
+
+  async get(id: string): Promise<SigningBatch | undefined> {
+    return await this.#batches.get(id);
+  }
+
+  /** Stores the batch and its document, then queues every row. */
+  async create(init: NewSigningBatch): Promise<SigningBatch> {
+    const { document, recipients, ...details } = init;
+    const now = Date.now();
+    const batch: SigningBatch = {
+      ...details,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      rows: recipients.map((recipient, index) => ({
+        index,
+        recipient,
+        status: "queued",
+        attempts: 0,
+        updatedAt: now,
+      })),
+    };
+    await this.#blobs.put(documentKey(batch.id), document);
+    await this.#batches.create(batch);
+    this.#enqueue(
+      batch.rows.map(({ index }) => ({ batchId: batch.id, index })),
+    );
+    return batch;
+  }
+
+  /**
+   * Queues failed rows again, all of them or only `indexes`. Returns the
+   * number of rows queued.
+   */
+  async retry(batch: SigningBatch, indexes?: number[]): Promise<number> {
+    const rows = batch.rows.filter((row) =>
+      row.status === "failed" && (!indexes || indexes.includes(row.index))
+    );
+    for (const row of rows) {
+      await this.#batches.putRow(batch.id, {
+        ...row,
+        status: "queued",
+        error: undefined,
+        updatedAt: Date.now(),
+      });
+    }
+    this.#enqueue(rows.map(({ index }) => ({ batchId: batch.id, index })));
+    return rows.length;
+  }
+
+  /**
+   * Picks up batches persisted by an earlier process. Rows that were being
+   * processed may already have a workflow, so they are failed rather than
+   * sent twice; retrying them is left to the caller.
+   */
+  async resume() {
+    for await (const batch of this.#batches.list()) {
+      const queued: QueuedRow[] = [];
+      for (const row of batch.rows) {
+        if (row.status === "processing") {
+          await this.#batches.putRow(batch.id, {
+            ...row,
+            status: "failed",
+            error: "Interrupted by a restart; retry the row to send it again",
+            updatedAt: Date.now(),
+          });
+        } else if (row.status === "queued") {
+          queued.push({ batchId: batch.id, index: row.index });
+        }
+      }
+      this.#enqueue(queued);
+    }
+  }
+
+  /**
+   * Deletes batches, and their document, once every row is `created` or
+   * `failed` and none changed within the retention period. Their failed rows
+   * can no longer be retried; their jobs are kept as long as any other job.
+   */
+  async evictExpired(now = Date.now()) {
+    if (this.#options.retentionMs <= 0) return;
+    for await (const batch of this.#batches.list()) {
+      const settled = batch.rows.every((row) =>
+        row.status === "created" || row.status === "failed"
+      );
+      const touchedAt = Math.max(
+        batch.createdAt,
+        ...batch.rows.map((row) => row.updatedAt),
+      );
+      if (settled && now - touchedAt > this.#options.retentionMs) {
+        await this.#blobs.delete(documentKey(batch.id));
+        await this.#batches.delete(batch.id);
+      }
+    }
+  }
+
+  /** Resolves once every queued row has been processed. */
+  drain(): Promise<void> {
+    if (this.#active === 0 && this.#queue.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.#idleWaiters.push(resolve));
+  }
+
+  #enqueue(rows: QueuedRow[]) {
+    this.#queue.push(...rows);
+    this.#pump();
+  }
+
+  #pump() {
+    const wait = this.#pausedUntil - Date.now();
+    if (wait > 0) {
+      this.#resumeTimer ??= setTimeout(() => {
+        this.#resumeTimer = undefined;
+        this.#pump();
+      }, wait);
+      return;
+    }
+    while (this.#active < this.#options.concurrency && this.#queue.length) {
+      const next = this.#queue.shift()!;
+      this.#active++;
+      this.#process(next)
+        .catch((error) =>
+          console.error(
+            `Failed to process row ${next.index} of batch ${next.batchId}`,
+            error,
+          )
+        )
+        .finally(() => {
+          this.#active--;
+          this.#pump();
+          if (this.#active === 0 && this.#queue.length === 0) {
+            for (const resolve of this.#idleWaiters.splice(0)) resolve();
+          }
+        });
+    }
+  }
+
+  async #process({ batchId, index }: QueuedRow) {
+    const batch = await this.#batches.get(batchId);
+    const row = batch?.rows[index];
+    if (!batch || row?.status !== "queued") return;
+
+    const document = await this.#blobs.get(documentKey(batch.id));
+    if (!document) {
+      await this.#batches.putRow(batch.id, {
+        ...row,
+        status: "failed",
+        error: "The batch document is no longer available",
+        updatedAt: Date.now(),
+      });
+      return;
+    }
+    const attempt: SigningBatchRow = {
+      ...row,
+      status: "processing",
+      attempts: row.attempts + 1,
+      updatedAt: Date.now(),
+    };
+    await this.#batches.putRow(batch.id, attempt);
+
+    const steps = [{ recipients: [row.recipient] }];
+    let job: SigningJob | undefined;
+    try {
+      if (row.jobId) {
+        const previous = await signingStore.getJob(row.jobId);
+        if (previous?.status === "pending") job = previous;
+      }
+      job ??= await signingStore.createJob({
+        ownerId: batch.ownerId,
+        tenantId: batch.tenantId,
+        profileKey: batch.profileKey,
+        batchId: batch.id,
+        ...(batch.callbackUrl ? { callbackUrl: batch.callbackUrl } : {}),
+        fileName: batch.fileName,
+        fileType: batch.fileType,
+        documents: [{ fileName: batch.fileName, fileType: batch.fileType }],
+        steps: initialSteps(steps),
+      });
+      const client = await tenantDirectory.clientForJob(job);
+      const file: UploadedFile = {
+        name: batch.fileName,
+        type: batch.fileType,
+        bytes: document as Uint8Array<ArrayBuffer>,
+      };
+      await launchJob(job, client, {
+        name: `${batch.workflowName} (${row.recipient.email})`,
+        steps,
+        files: [file],
+        placements: [await detectSignatureFields(file, steps)],
+        startedBy: batch.ownerId,
+        resumeOnRateLimit: true,
+      });
+      await this.#batches.putRow(batch.id, {
+        ...attempt,
+        status: "created",
+        jobId: job.id,
+        error: undefined,
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      if (error instanceof GoodflagApiError && error.status === 429) {
+        // The client already retried; hold every row back before trying
+        // again. The job stays pending and picks up where Goodflag stopped.
+        this.#pausedUntil = Date.now() +
+          (error.retryAfterMs ?? this.#options.rateLimitPauseMs);
+        await this.#batches.putRow(batch.id, {
+          ...attempt,
+          status: "queued",
+          jobId: job?.id,
+          updatedAt: Date.now(),
+        });
+        this.#queue.unshift({ batchId, index });
+        return;
+      }
+      console.error(`Failed to send row ${index} of batch ${batch.id}`, error);
+      await this.#batches.putRow(batch.id, {
+        ...attempt,
+        status: "failed",
+        jobId: job?.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+        updatedAt: Date.now(),
+      });
+      return;
+    }
+
+    // The document is only needed while rows may still be (re)sent.
+    const updated = await this.#batches.get(batch.id);
+    if (updated?.rows.every((entry) => entry.status === "created")) {
+      await this.#blobs.delete(documentKey(batch.id));
+    }
+  }
+}
+
+async function createBatchRepository(): Promise<BatchRepository> {
+  // Batches are kept next to the jobs, in the same Deno KV database.
+  switch (config.storage.jobs) {
+    case "kv":
+      return await KvBatchRepository.open(config.storage.kvPath);
+    default:
+      return new MemoryBatchRepository();
+  }
+}
+
+export const bulkSender = new BulkSender(
+  await createBatchRepository(),
+  createBlobStore(),
+  {
+    concurrency: config.bulk.concurrency,
+    rateLimitPauseMs: 5000,
+    retentionMs: config.bulk.retentionMs,
+  },
+);
@@ -0,0 +1,413 @@
+import { encodeHex } from "@std/encoding/hex";
+import { resolvesToPublicAddresses } from "./addresses.ts";
+import config from "./config.ts";
+import { type SigningJob, signingStore } from "./store.ts";
+
+/** Body POSTed to a job's `callbackUrl`. */
+export interface CallbackEvent {
+  /** Same for every attempt, so receivers can drop duplicates. */
+  id: string;
+  type: "job.updated";
+  occurredAt: number;
+  jobId: string;
+  status: SigningJob["status"];
+  previousStatus: SigningJob["status"];
+  workflowStatus: string | null;
+  previousWorkflowStatus: string | null;
+  errorReason: string | null;
+  statusUrl: string;
+}
+
+export type CallbackDeliveryStatus = "pending" | "dead";
+
+/**
+ * A callback still to be sent, or given up on after `maxAttempts`. Delivered
+ * callbacks are removed, so the dead ones form the dead-letter list.
+ */
+export interface CallbackDelivery {
+  id: string;
+  jobId: string;
+  /** Owner of the job, who may inspect and replay the delivery. */
+  ownerId: string;
+  url: string;
+  event: CallbackEvent;
+  status: CallbackDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface CallbackRepository {
+  get(id: string): Promise<CallbackDelivery | undefined>;
+  put(delivery: CallbackDelivery): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): AsyncIterable<CallbackDelivery>;
+}
+
+export class MemoryCallbackRepository implements CallbackRepository {
+  #deliveries = new Map<string, CallbackDelivery>();
+
+  get(id: string): Promise<CallbackDelivery | undefined> {
+    const delivery = this.#deliveries.get(id);
+    return Promise.resolve(delivery ? structuredClone(delivery) : undefined);
+  }
+
+  put(delivery: CallbackDelivery): Promise<void> {
+    this.#deliveries.set(delivery.id, structuredClone(delivery));
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<void> {
+    this.#deliveries.delete(id);
+    return Promise.resolve();
+  }
+
+  async *list(): AsyncIterable<CallbackDelivery> {
+    for (const delivery of [...this.#deliveries.values()]) {
+      yield structuredClone(delivery);
+    }
+  }
+}
+
+const DELIVERIES_PREFIX = ["callback_deliveries"];
+
+/** Deno KV backed repository, one entry per delivery. */
+export class KvCallbackRepository implements CallbackRepository {
+  #kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.#kv = kv;
+  }
+
+  static async open(path?: string): Promise<KvCallbackRepository> {
+    return new KvCallbackRepository(await Deno.openKv(path));
+  }
+
+  async get(id: string): Promise<CallbackDelivery | undefined> {
+    const entry = await this.#kv.get<CallbackDelivery>([
+      ...DELIVERIES_PREFIX,
+      id,
+    ]);
+    return entry.value ?? undefined;
+  }
+
+  async put(delivery: CallbackDelivery): Promise<void> {
+    await this.#kv.set([...DELIVERIES_PREFIX, delivery.id], delivery);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.#kv.delete([...DELIVERIES_PREFIX, id]);
+  }
+
+  async *list(): AsyncIterable<CallbackDelivery> {
+    const entries = this.#kv.list<CallbackDelivery>({
+      prefix: DELIVERIES_PREFIX,
+    });
+    for await (const entry of entries) {
+      yield entry.value;
+    }
+  }
+}
+
+export interface CallbackDispatcherOptions {
+  /** Signs every body; see `signCallbackBody`. */
+  secret?: string;
+  /**
+   * Hosts callbacks may be sent to even when they resolve to a loopback or
+   * private address. When empty, any host with public addresses is fine.
+   */
+  allowedHosts: string[];
+  timeoutMs: number;
+  /** Attempts before a delivery is moved to the dead-letter list. */
+  maxAttempts: number;
+  minBackoffMs: number;
+  maxBackoffMs: number;
+  /** How often the dispatcher looks for deliveries due for a retry. */
+  intervalMs: number;
+  /** Maximum number of deliveries in flight at once. */
+  concurrency: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Hex HMAC-SHA256 of `body`, the value of the `X-Callback-Signature` header
+ * after its `sha256=` prefix.
+ */
+export async function signCallbackBody(
+  secret: string,
+  body: string,
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(body),
+  );
+  return encodeHex(new Uint8Array(signature));
+}
+
+/**
+ * Tells a job's `callbackUrl` whenever its `status` or `workflowStatus`
+ * changes. Each change is persisted as a delivery and sent right away;
+ * failed deliveries are retried with exponential backoff and, once out of
+ * attempts, kept as dead letters until they are replayed.
+ */
+export class CallbackDispatcher {
+  #deliveries: CallbackRepository;
+  #options: CallbackDispatcherOptions;
+  #timer?: ReturnType<typeof setInterval>;
+  #running = false;
+  /** Deliveries being attempted, so none is sent twice at once. */
+  #inFlight = new Set<string>();
+  /** Background work `drain` waits for. */
+  #tasks = new Set<Promise<void>>();
+
+  constructor(
+    deliveries: CallbackRepository,
+    options: CallbackDispatcherOptions,
+  ) {
+    this.#deliveries = deliveries;
+    this.#options = options;
+  }
+
+  start() {
+    if (this.#timer !== undefined) return;
+    this.#timer = setInterval(() => {
+      this.tick().catch((error) =>
+        console.error("Callback dispatcher tick failed", error)
+      );
+    }, this.#options.intervalMs);
+  }
+
+  stop() {
+    if (this.#timer === undefined) return;
+    clearInterval(this.#timer);
+    this.#timer = undefined;
+  }
+
+  /**
+   * Records a delivery for the change, if the job asked for callbacks, and
+   * sends it in the background.
+   */
+  notify(job: SigningJob, previous: SigningJob) {
+    this.#track(
+      this.#record(job, previous).catch((error) =>
+        console.error(`Failed to record a callback for job ${job.id}`, error)
+      ),
+    );
+  }
+
+  async #record(job: SigningJob, previous: SigningJob) {
+    if (!job.callbackUrl) return;
+    if (
+      job.status === previous.status &&
+      job.workflowStatus === previous.workflowStatus
+    ) {
+      return;
+    }
+    const now = Date.now();
+    const id = crypto.randomUUID();
+    const delivery: CallbackDelivery = {
+      id,
+      jobId: job.id,
+      ownerId: job.ownerId,
+      url: job.callbackUrl,
+      event: {
+        id,
+        type: "job.updated",
+        occurredAt: job.updatedAt,
+        jobId: job.id,
+        status: job.status,
+        previousStatus: previous.status,
+        workflowStatus: job.workflowStatus ?? null,
+        previousWorkflowStatus: previous.workflowStatus ?? null,
+        errorReason: job.errorReason ?? null,
+        statusUrl: `/api/sign/${job.id}`,
+      },
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.#deliveries.put(delivery);
+    this.#launch(delivery);
+  }
+
+  async get(id: string): Promise<CallbackDelivery | undefined> {
+    return await this.#deliveries.get(id);
+  }
+
+  /** Dead letters, oldest first. */
+  async listDead(): Promise<CallbackDelivery[]> {
+    const dead: CallbackDelivery[] = [];
+    for await (const delivery of this.#deliveries.list()) {
+      if (delivery.status === "dead") dead.push(delivery);
+    }
+    return dead.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /** Sends a dead letter again, with a fresh set of attempts. */
+  async replay(delivery: CallbackDelivery): Promise<CallbackDelivery> {
+    const now = Date.now();
+    const replayed: CallbackDelivery = {
+      ...delivery,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      updatedAt: now,
+    };
+    await this.#deliveries.put(replayed);
+    this.#launch(replayed);
+    return replayed;
+  }
+
+  /** Sends pending deliveries that are due; overlapping passes are skipped. */
+  async tick(now = Date.now()) {
+    if (this.#running) return;
+    this.#running = true;
+    try {
+      const due: CallbackDelivery[] = [];
+      for await (const delivery of this.#deliveries.list()) {
+        if (
+          delivery.status === "pending" && delivery.nextAttemptAt <= now &&
+          !this.#inFlight.has(delivery.id)
+        ) {
+          due.push(delivery);
+        }
+      }
+      let next = 0;
+      const laneCount = Math.max(
+        1,
+        Math.min(this.#options.concurrency, due.length),
+      );
+      const lanes = Array.from({ length: laneCount }, async () => {
+        while (next < due.length) {
+          await this.#launch(due[next++]);
+        }
+      });
+      await Promise.all(lanes);
+    } finally {
+      this.#running = false;
+    }
+  }
+
+  /** Resolves once every delivery recorded or attempted so far is settled. */
+  async drain() {
+    while (this.#tasks.size > 0) {
+      await Promise.all(this.#tasks);
+    }
+  }
+
+  #track(task: Promise<void>) {
+    this.#tasks.add(task);
+    task.finally(() => this.#tasks.delete(task));
+  }
+
+  #launch(delivery: CallbackDelivery): Promise<void> {
+    if (this.#inFlight.has(delivery.id)) return Promise.resolve();
+    this.#inFlight.add(delivery.id);
+    const attempt = this.#attempt(delivery)
+      .catch((error) =>
+        console.error(`Failed to deliver callback ${delivery.id}`, error)
+      )
+      .finally(() => this.#inFlight.delete(delivery.id));
+    this.#track(attempt);
+    return attempt;
+  }
+
+  async #attempt(delivery: CallbackDelivery) {
+    const { secret, timeoutMs, maxAttempts } = this.#options;
+    const body = JSON.stringify(delivery.event);
+    let error: string;
+    try {
+      if (!await this.#isAllowedTarget(delivery.url)) {
+        throw new Error("Callback URL does not resolve to a public address");
+      }
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        "X-Callback-Event": delivery.event.id,
+      };
+      if (secret) {
+        headers["X-Callback-Signature"] = `sha256=${await signCallbackBody(
+          secret,
+          body,
+        )}`;
+      }
+      const response = await fetch(delivery.url, {
+        method: "POST",
+        headers,
+        body,
+        // A redirect would resend the signed body somewhere else.
+        redirect: "manual",
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      await response.body?.cancel();
+      if (response.ok) {
+        await this.#deliveries.delete(delivery.id);
+        return;
+      }
+      error = `Callback URL answered ${response.status}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : "Unknown error";
+    }
+
+    const attempts = delivery.attempts + 1;
+    const now = Date.now();
+    await this.#deliveries.put({
+      ...delivery,
+      status: attempts >= maxAttempts ? "dead" : "pending",
+      attempts,
+      nextAttemptAt: now + this.#backoff(attempts),
+      lastError: error,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * A public name may still point at the backend's own network, so the host
+   * is resolved before every attempt. Names are resolved again by `fetch`
+   * itself, which leaves a short window for DNS rebinding.
+   */
+  async #isAllowedTarget(url: string): Promise<boolean> {
+    const { hostname } = new URL(url);
+    return this.#options.allowedHosts.includes(hostname) ||
+      await resolvesToPublicAddresses(hostname);
+  }
+
+  #backoff(attempts: number): number {
+    const { minBackoffMs, maxBackoffMs } = this.#options;
+    const delay = Math.min(minBackoffMs * 2 ** (attempts - 1), maxBackoffMs);
+    // Spread retries out so callbacks that failed together do not retry
+    // in lockstep.
+    return delay * (0.8 + Math.random() * 0.4);
+  }
+}
+
+async function createCallbackRepository(): Promise<CallbackRepository> {
+  // Deliveries are kept next to the jobs, in the same Deno KV database.
+  switch (config.storage.jobs) {
+    case "kv":
+      return await KvCallbackRepository.open(config.storage.kvPath);
+    default:
+      return new MemoryCallbackRepository();
+  }
+}
+
+export const callbackDispatcher = new CallbackDispatcher(
+  await createCallbackRepository(),
+  { ...config.callbacks, intervalMs: 1000, concurrency: 4 },
+);
+
+signingStore.subscribeAll((job, previous) =>
+  callbackDispatcher.notify(job, previous)
+);
@@ -2,34 +2,282 @@ import { load } from "@std/dotenv";
 
 await load({ export: true });
 
-const requiredEnv = ["GOODFLAG_BASE_URL", "GOODFLAG_API_KEY"] as const;
+const SECOND_MS = 1000;
+const HOUR_MS = 1000 * 60 * 60;
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Problems found while reading the environment. They are collected rather
+ * than thrown one by one so a misconfigured deployment learns about all of
+ * them at once.
+ */
+const problems: string[] = [];
+
+interface NumberRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  /** Smallest value allowed, exclusive. */
+  above?: number;
+}
 
 function getEnv(key: string, fallback?: string): string {
   const value = Deno.env.get(key) ?? fallback;
-  if (value === undefined) {
-    throw new Error(`Missing required environment variable: ${key}`);
+  if (value === undefined || value.trim() === "") {
+    problems.push(`${key} is required`);
+    return "";
+  }
+  return value;
+}
+
+function getUrl(key: string, fallback?: string): string {
+  const value = getEnv(key, fallback);
+  if (value && !isHttpUrl(value)) {
+    problems.push(`${key} must be an http(s) URL (got "${value}")`);
+  }
+  return value;
+}
+
+function getOptionalUrl(key: string): string | undefined {
+  const value = Deno.env.get(key);
+  if (value === undefined) return undefined;
+  if (!isHttpUrl(value)) {
+    problems.push(`${key} must be an http(s) URL (got "${value}")`);
   }
   return value;
 }
 
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch (_err) {
+    return false;
+  }
+}
+
+function getNumber(key: string, fallback: number, rule: NumberRule = {}) {
+  const raw = Deno.env.get(key);
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  const expectations: string[] = [];
+  if (rule.integer) expectations.push("an integer");
+  if (rule.min !== undefined) expectations.push(`at least ${rule.min}`);
+  if (rule.above !== undefined) expectations.push(`above ${rule.above}`);
+  if (rule.max !== undefined) expectations.push(`at most ${rule.max}`);
+  if (
+    !Number.isFinite(value) ||
+    (rule.integer && !Number.isInteger(value)) ||
+    (rule.min !== undefined && value < rule.min) ||
+    (rule.above !== undefined && value <= rule.above) ||
+    (rule.max !== undefined && value > rule.max)
+  ) {
+    const expected = expectations.length > 0
+      ? `a number (${expectations.join(", ")})`
+      : "a number";
+    problems.push(`${key} must be ${expected} (got "${raw}")`);
+    return fallback;
+  }
+  return value;
+}
+
+function getChoice<T extends string>(
+  key: string,
+  choices: readonly T[],
+  fallback: T,
+): T {
+  const value = Deno.env.get(key) ?? fallback;
+  if (!choices.includes(value as T)) {
+    problems.push(
+      `${key} must be one of ${choices.join(", ")} (got "${value}")`,
+    );
+    return fallback;
+  }
+  return value as T;
+}
+
+/** Parses `API_KEYS` entries of the form `name:key`, comma separated. */
+function getApiKeys(key: string): Array<{ name: string; key: string }> {
+  const value = Deno.env.get(key);
+  if (!value) return [];
+  const apiKeys: Array<{ name: string; key: string }> = [];
+  const entries = value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+  for (const entry of entries) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0 || separator === entry.length - 1) {
+      problems.push(`${key} entries must look like name:key`);
+      continue;
+    }
+    apiKeys.push({
+      name: entry.slice(0, separator),
+      key: entry.slice(separator + 1),
+    });
+  }
+  return apiKeys;
+}
+
+function getList(key: string): string[] {
+  return (Deno.env.get(key) ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
 const config = {
-  goodflagBaseUrl: getEnv("GOODFLAG_BASE_URL"),
-  goodflagApiKey: getEnv("GOODFLAG_API_KEY"),
-  goodflagUserId: getEnv("GOODFLAG_USER_ID"),
-  goodflagSignatureProfileId: getEnv("GOODFLAG_SIGNATURE_PROFILE_ID"),
+  goodflagBaseUrl: getUrl("GOODFLAG_BASE_URL"),
+  // Credentials of the "default" tenant; optional when TENANTS_FILE or the
+  // KV tenant registry provides every tenant.
+  goodflagApiKey: Deno.env.get("GOODFLAG_API_KEY"),
+  goodflagUserId: Deno.env.get("GOODFLAG_USER_ID"),
+  goodflagSignatureProfileId: Deno.env.get("GOODFLAG_SIGNATURE_PROFILE_ID"),
   goodflagConsentPageId: Deno.env.get("GOODFLAG_CONSENT_PAGE_ID"),
   defaultLocale: Deno.env.get("GOODFLAG_DEFAULT_LOCALE") ?? "en",
+  goodflagTimeoutMs: getNumber("GOODFLAG_TIMEOUT_MS", 15000, { above: 0 }),
+  goodflagMaxRetries: getNumber("GOODFLAG_MAX_RETRIES", 3, {
+    integer: true,
+    min: 0,
+  }),
+  // The first invitation counts, so this caps reminders at one less.
+  goodflagMaxInvites: getNumber("GOODFLAG_MAX_INVITES", 5, {
+    integer: true,
+    min: 1,
+  }),
+  reminderMinIntervalMs:
+    getNumber("REMINDER_MIN_INTERVAL_HOURS", 1, { above: 0 }) * HOUR_MS,
   signatureField: {
-    page: Number(Deno.env.get("SIGNATURE_FIELD_PAGE") ?? "-1"),
-    x: Number(Deno.env.get("SIGNATURE_FIELD_X") ?? "390"),
-    y: Number(Deno.env.get("SIGNATURE_FIELD_Y") ?? "710"),
-    width: Number(Deno.env.get("SIGNATURE_FIELD_WIDTH") ?? "150"),
-    height: Number(Deno.env.get("SIGNATURE_FIELD_HEIGHT") ?? "80"),
-  },
-  port: Number(getEnv("PORT", "8000")),
-  frontendOrigin: Deno.env.get("FRONTEND_ORIGIN") ?? "*",
+    page: getNumber("SIGNATURE_FIELD_PAGE", -1, { integer: true, min: -1 }),
+    x: getNumber("SIGNATURE_FIELD_X", 390, { min: 0 }),
+    y: getNumber("SIGNATURE_FIELD_Y", 710, { min: 0 }),
+    width: getNumber("SIGNATURE_FIELD_WIDTH", 150, { above: 0 }),
+    height: getNumber("SIGNATURE_FIELD_HEIGHT", 80, { above: 0 }),
+  },
+  webhookSecret: Deno.env.get("GOODFLAG_WEBHOOK_SECRET"),
+  webhookToleranceMs:
+    getNumber("GOODFLAG_WEBHOOK_TOLERANCE_SECONDS", 300, { above: 0 }) *
+    SECOND_MS,
+  storage: {
+    jobs: getChoice("JOB_STORE", ["memory", "kv"] as const, "memory"),
+    kvPath: Deno.env.get("JOB_STORE_KV_PATH"),
+    blobs: getChoice("BLOB_STORE", ["memory", "fs"] as const, "memory"),
+    blobDirectory: Deno.env.get("BLOB_STORE_DIR") ?? "./data/blobs",
+    retentionMs: getNumber("JOB_RETENTION_HOURS", 1, { min: 0 }) * HOUR_MS,
+  },
+  reconciler: {
+    intervalMs: getNumber("RECONCILER_INTERVAL_SECONDS", 5, { above: 0 }) *
+      SECOND_MS,
+    concurrency: getNumber("RECONCILER_CONCURRENCY", 4, {
+      integer: true,
+      min: 1,
+    }),
+    minBackoffMs:
+      getNumber("RECONCILER_MIN_BACKOFF_SECONDS", 5, { above: 0 }) * SECOND_MS,
+    maxBackoffMs:
+      getNumber("RECONCILER_MAX_BACKOFF_SECONDS", 300, { above: 0 }) *
+      SECOND_MS,
+    pendingTtlMs: getNumber("JOB_PENDING_TTL_HOURS", 168, { above: 0 }) *
+      HOUR_MS,
+  },
+  uploads: {
+    /** Largest PDF accepted, per file. */
+    maxFileBytes: getNumber("MAX_FILE_MB", 20, { above: 0 }) * MEGABYTE,
+    /** Largest multipart body accepted, all files and fields together. */
+    maxRequestBytes: getNumber("MAX_REQUEST_MB", 50, { above: 0 }) * MEGABYTE,
+  },
+  callbacks: {
+    /** Signs outbound job callbacks; `callback_url` is refused without it. */
+    secret: Deno.env.get("CALLBACK_SECRET"),
+    /** Hosts a `callback_url` may point at; any host when empty. */
+    allowedHosts: getList("CALLBACK_ALLOWED_HOSTS"),
+    timeoutMs: getNumber("CALLBACK_TIMEOUT_SECONDS", 10, { above: 0 }) *
+      SECOND_MS,
+    maxAttempts: getNumber("CALLBACK_MAX_ATTEMPTS", 8, {
+      integer: true,
+      min: 1,
+    }),
+    minBackoffMs:
+      getNumber("CALLBACK_MIN_BACKOFF_SECONDS", 5, { above: 0 }) * SECOND_MS,
+    maxBackoffMs:
+      getNumber("CALLBACK_MAX_BACKOFF_SECONDS", 3600, { above: 0 }) *
+      SECOND_MS,
+  },
+  idempotency: {
+    /** How long a `POST /api/sign` response is replayed for its key. */
+    ttlMs: getNumber("IDEMPOTENCY_KEY_TTL_HOURS", 24, { above: 0 }) * HOUR_MS,
+  },
+  bulk: {
+    /** Bulk send rows being turned into workflows at once. */
+    concurrency: getNumber("BULK_CONCURRENCY", 2, { integer: true, min: 1 }),
+    /** How long settled batches, and their failed rows, stay retryable. */
+    retentionMs: getNumber("BULK_RETENTION_HOURS", 168, { min: 0 }) * HOUR_MS,
+  },
+  tenants: {
+    store: getChoice("TENANT_STORE", ["file", "kv"] as const, "file"),
+    file: Deno.env.get("TENANTS_FILE"),
+    defaultTenant: Deno.env.get("DEFAULT_TENANT") ?? "default",
+  },
+  auth: {
+    apiKeys: getApiKeys("API_KEYS"),
+    jwtSecret: Deno.env.get("AUTH_JWT_SECRET"),
+    jwksUrl: getOptionalUrl("AUTH_JWKS_URL"),
+    jwtIssuer: Deno.env.get("AUTH_JWT_ISSUER"),
+    jwtAudience: Deno.env.get("AUTH_JWT_AUDIENCE"),
+    /** Principal IDs (e.g. `service:ops`) that may see every job. */
+    adminPrincipals: getList("ADMIN_PRINCIPALS"),
+    streamTicketSecret: Deno.env.get("STREAM_TICKET_SECRET"),
+  },
+  port: getNumber("PORT", 8000, { integer: true, min: 0, max: 65535 }),
+  frontendOrigin: getUrl("FRONTEND_ORIGIN", "http://localhost:5173"),
 };
 
+// Rules spanning several variables.
+if (config.reconciler.minBackoffMs > config.reconciler.maxBackoffMs) {
+  problems.push(
+    "RECONCILER_MIN_BACKOFF_SECONDS must not exceed RECONCILER_MAX_BACKOFF_SECONDS",
+  );
+}
+if (config.callbacks.minBackoffMs > config.callbacks.maxBackoffMs) {
+  problems.push(
+    "CALLBACK_MIN_BACKOFF_SECONDS must not exceed CALLBACK_MAX_BACKOFF_SECONDS",
+  );
+}
+if (config.uploads.maxFileBytes > config.uploads.maxRequestBytes) {
+  problems.push("MAX_FILE_MB must not exceed MAX_REQUEST_MB");
+}
+if (config.signatureField.page === 0) {
+  problems.push("SIGNATURE_FIELD_PAGE must be a page number or -1");
+}
+const envTenantVariables = [
+  "GOODFLAG_API_KEY",
+  "GOODFLAG_USER_ID",
+  "GOODFLAG_SIGNATURE_PROFILE_ID",
+];
+const missingTenantVariables = envTenantVariables.filter((key) =>
+  !Deno.env.get(key)
+);
+if (config.tenants.store === "file" && !config.tenants.file) {
+  // Without a tenants file the GOODFLAG_* variables are the only tenant.
+  for (const key of missingTenantVariables) {
+    problems.push(`${key} is required when TENANTS_FILE is not set`);
+  }
+} else if (
+  missingTenantVariables.length > 0 &&
+  missingTenantVariables.length < envTenantVariables.length
+) {
+  problems.push(
+    `${missingTenantVariables.join(", ")} must be set along with the other GOODFLAG_* tenant variables`,
+  );
+}
+
+if (problems.length > 0) {
+  throw new Error(
+    `Invalid configuration:\n${
+      problems.map((problem) => `  - ${problem}`).join("\n")
+    }`,
+  );
+}
+
 export type AppConfig = typeof config;
 
 export default config;
@@ -0,0 +1,1698 @@
+import { assert, assertEquals, assertExists } from "@std/assert";
+import { encodeBase64Url } from "@std/encoding/base64url";
+import { encodeHex } from "@std/encoding/hex";
+import { GoodflagSimulator } from "./goodflag_simulator.ts";
+
+// End-to-end tests: the backend's request handler runs against the Goodflag
+// simulator over real HTTP, and the simulator delivers signed webhooks back to
+// the handler. config.ts reads the environment on import, so everything below
+// is set up before main.ts is loaded.
+
+const API_KEY = "test-api-key";
+const WEBHOOK_SECRET = "test-webhook-secret";
+const SERVICE_KEY = "test-service-key";
+const OTHER_SERVICE_KEY = "test-other-service-key";
+const OPS_KEY = "test-ops-key";
+const JWT_SECRET = "test-jwt-secret";
+const CALLBACK_SECRET = "test-callback-secret";
+
+let backendHandler: (req: Request) => Promise<Response> = () =>
+  Promise.resolve(new Response("Backend not loaded", { status: 503 }));
+const backendServer = Deno.serve(
+  { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+  (req) => backendHandler(req),
+);
+
+const simulator = new GoodflagSimulator({
+  apiKey: API_KEY,
+  webhookUrl:
+    `http://127.0.0.1:${backendServer.addr.port}/api/webhooks/goodflag`,
+  webhookSecret: WEBHOOK_SECRET,
+});
+const simulatorServer = Deno.serve(
+  { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+  simulator.handler,
+);
+
+const tenantsFile = await Deno.makeTempFile({ suffix: ".json" });
+await Deno.writeTextFile(
+  tenantsFile,
+  JSON.stringify([{
+    id: "legal",
+    apiKey: API_KEY,
+    userId: "usr_legal",
+    defaultProfile: "simple",
+    profiles: {
+      simple: { signatureProfileId: "sip_simple" },
+      advanced: { signatureProfileId: "sip_advanced" },
+    },
+    allowedPrincipals: ["service:reporting"],
+  }]),
+);
+
+const testEnv: Record<string, string> = {
+  GOODFLAG_BASE_URL: `http://127.0.0.1:${simulatorServer.addr.port}/`,
+  GOODFLAG_API_KEY: API_KEY,
+  GOODFLAG_USER_ID: "usr_test",
+  GOODFLAG_SIGNATURE_PROFILE_ID: "sip_test",
+  GOODFLAG_WEBHOOK_SECRET: WEBHOOK_SECRET,
+  GOODFLAG_MAX_RETRIES: "0",
+  JOB_STORE: "memory",
+  BLOB_STORE: "memory",
+  JOB_RETENTION_HOURS: "0",
+  MAX_FILE_MB: "1",
+  API_KEYS:
+    `reporting:${SERVICE_KEY},billing:${OTHER_SERVICE_KEY},ops:${OPS_KEY}`,
+  ADMIN_PRINCIPALS: "service:ops",
+  AUTH_JWT_SECRET: JWT_SECRET,
+  TENANTS_FILE: tenantsFile,
+  CALLBACK_SECRET,
+  // The test receiver listens on the loopback interface.
+  CALLBACK_ALLOWED_HOSTS: "127.0.0.1",
+  CALLBACK_MAX_ATTEMPTS: "2",
+  CALLBACK_MIN_BACKOFF_SECONDS: "0.01",
+  BULK_RETENTION_HOURS: "1",
+};
+for (const [key, value] of Object.entries(testEnv)) {
+  Deno.env.set(key, value);
+}
+
+const { handler } = await import("./main.ts");
+const { workflowReconciler } = await import("./reconciler.ts");
+const { bulkSender } = await import("./bulk.ts");
+const { callbackDispatcher } = await import("./callbacks.ts");
+backendHandler = handler;
+
+globalThis.addEventListener("unload", () => {
+  backendServer.shutdown();
+  simulatorServer.shutdown();
+  Deno.removeSync(tenantsFile);
+});
+
+/**
+ * Builds a one-page PDF whose text layer contains `text`. With `encrypted`,
+ * the trailer points at a standard security handler whose user password is
+ * not empty, so the document cannot be opened without it.
+ */
+function buildPdf(
+  text: string,
+  { encrypted = false, extraObjects = [] as string[] } = {},
+): Uint8Array<ArrayBuffer> {
+  const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] " +
+    "/Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    ...extraObjects,
+  ];
+  if (encrypted) {
+    objects.push(
+      `<< /Filter /Standard /V 1 /R 2 /P -4 /O <${"ab".repeat(32)}> ` +
+        `/U <${"cd".repeat(32)}> >>`,
+    );
+  }
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  const encryption = encrypted
+    ? ` /Encrypt ${objects.length} 0 R /ID [<${"01".repeat(16)}> <${
+      "01".repeat(16)
+    }>]`
+    : "";
+  pdf += `trailer\n<< /Size ${
+    objects.length + 1
+  } /Root 1 0 R${encryption} >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+  return new TextEncoder().encode(pdf);
+}
+
+function pdfFile(name: string, text = "Please sign below"): File {
+  return new File([buildPdf(text)], name, { type: "application/pdf" });
+}
+
+/** DER encoding, just enough to build a certificate and a CMS signature. */
+function der(tag: number, ...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const lengthBytes: number[] = [];
+  for (let rest = length; rest > 0; rest = Math.floor(rest / 256)) {
+    lengthBytes.unshift(rest % 256);
+  }
+  const header = length < 0x80
+    ? [tag, length]
+    : [tag, 0x80 | lengthBytes.length, ...lengthBytes];
+  const encoded = new Uint8Array(header.length + length);
+  encoded.set(header);
+  let offset = header.length;
+  for (const part of parts) {
+    encoded.set(part, offset);
+    offset += part.length;
+  }
+  return encoded;
+}
+
+const derSequence = (...parts: Uint8Array[]) => der(0x30, ...parts);
+const derSet = (...parts: Uint8Array[]) => der(0x31, ...parts);
+const derInteger = (value: number) => der(0x02, new Uint8Array([value]));
+
+function derOid(value: string): Uint8Array {
+  const [first, second, ...rest] = value.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const chunk = [arc % 128];
+    for (let high = Math.floor(arc / 128); high > 0; high >>= 7) {
+      chunk.unshift((high % 128) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return der(0x06, new Uint8Array(bytes));
+}
+
+function derTime(date: Date): Uint8Array {
+  const digits = date.toISOString().replace(/[-:T]/g, "").slice(2, 14);
+  return der(0x17, new TextEncoder().encode(`${digits}Z`));
+}
+
+/**
+ * Builds a PDF signed the way Goodflag signs them: a detached CMS signature
+ * over the `/ByteRange`, made with a freshly generated self-signed
+ * certificate for `signer`. The options break it in the ways verification
+ * must catch.
+ */
+async function buildSignedPdf(
+  text: string,
+  signer: string,
+  options: {
+    omitCertificate?: boolean;
+    corruptSignature?: boolean;
+    /** DER time to put in the signing-time attribute. */
+    signingTime?: Uint8Array;
+  } = {},
+): Promise<Uint8Array<ArrayBuffer>> {
+  const byteRangePlaceholder = Array(4).fill("0".repeat(10)).join(" ");
+  const pdf = buildPdf(text, {
+    extraObjects: [
+      "<< /Type /Sig /Filter /Adobe.PPKLite /SubFilter /ETSI.CAdES.detached " +
+      `/ByteRange [${byteRangePlaceholder}] /Contents <${"0".repeat(8192)}> ` +
+      "/M (D:20260101120000Z) >>",
+    ],
+  });
+  const source = new TextDecoder().decode(pdf);
+  const contentsStart = source.indexOf("/Contents <") + "/Contents ".length;
+  const contentsEnd = source.indexOf(">", contentsStart) + 1;
+  const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd]
+    .map((value) => String(value).padStart(10, "0"))
+    .join(" ");
+  pdf.set(
+    new TextEncoder().encode(byteRange),
+    source.indexOf(byteRangePlaceholder),
+  );
+  const signedBytes = new Uint8Array(
+    contentsStart + pdf.length - contentsEnd,
+  );
+  signedBytes.set(pdf.subarray(0, contentsStart));
+  signedBytes.set(pdf.subarray(contentsEnd), contentsStart);
+
+  const { publicKey, privateKey } = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    false,
+    ["sign", "verify"],
+  );
+  const sign = async (data: Uint8Array<ArrayBuffer>) =>
+    new Uint8Array(
+      await crypto.subtle.sign("RSASSA-PKCS1-v1_5", privateKey, data),
+    );
+  const sha256 = derSequence(derOid("2.16.840.1.101.3.4.2.1"));
+  const sha256WithRsa = derSequence(
+    derOid("1.2.840.113549.1.1.11"),
+    der(0x05),
+  );
+  const name = derSequence(
+    derSet(derSequence(
+      derOid("2.5.4.3"),
+      der(0x0c, new TextEncoder().encode(signer)),
+    )),
+  );
+  const now = Date.now();
+  const tbs = derSequence(
+    der(0xa0, derInteger(2)),
+    derInteger(1),
+    sha256WithRsa,
+    name,
+    derSequence(
+      derTime(new Date(now - 60_000)),
+      derTime(new Date(now + 3_600_000)),
+    ),
+    name,
+    new Uint8Array(await crypto.subtle.exportKey("spki", publicKey)),
+  );
+  const certificate = derSequence(
+    tbs,
+    sha256WithRsa,
+    der(0x03, new Uint8Array([0]), await sign(tbs)),
+  );
+
+  const attributes = [
+    derSequence(
+      derOid("1.2.840.113549.1.9.3"),
+      derSet(derOid("1.2.840.113549.1.7.1")),
+    ),
+    derSequence(
+      derOid("1.2.840.113549.1.9.5"),
+      derSet(options.signingTime ?? derTime(new Date())),
+    ),
+    derSequence(
+      derOid("1.2.840.113549.1.9.4"),
+      derSet(der(
+        0x04,
+        new Uint8Array(await crypto.subtle.digest("SHA-256", signedBytes)),
+      )),
+    ),
+  ];
+  const attributesSignature = await sign(derSet(...attributes));
+  if (options.corruptSignature) attributesSignature[0] ^= 0xff;
+  const signerInfo = derSequence(
+    derInteger(1),
+    derSequence(name, derInteger(1)),
+    sha256,
+    der(0xa0, ...attributes),
+    derSequence(derOid("1.2.840.113549.1.1.1"), der(0x05)),
+    der(0x04, attributesSignature),
+  );
+  const signedData = derSequence(
+    derInteger(1),
+    derSet(sha256),
+    derSequence(derOid("1.2.840.113549.1.7.1")),
+    ...(options.omitCertificate ? [] : [der(0xa0, certificate)]),
+    derSet(signerInfo),
+  );
+  const cms = derSequence(
+    derOid("1.2.840.113549.1.7.2"),
+    der(0xa0, signedData),
+  );
+  const hex = Array.from(cms, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  pdf.set(new TextEncoder().encode(hex), contentsStart + 1);
+  return pdf;
+}
+
+/** Signs an HS256 JWT for `sub` the way the SPA's identity provider would. */
+async function signJwt(sub: string, expiresIn = 300): Promise<string> {
+  const encode = (value: unknown) =>
+    encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const content = `${encode({ alg: "HS256", typ: "JWT" })}.${
+    encode({ sub, exp: Math.floor(Date.now() / 1000) + expiresIn })
+  }`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(JWT_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(content),
+  );
+  return `${content}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+async function call(
+  path: string,
+  init: RequestInit = {},
+  credentials: HeadersInit = { "X-API-Key": SERVICE_KEY },
+) {
+  const headers = new Headers(init.headers);
+  for (const [key, value] of new Headers(credentials)) {
+    headers.set(key, value);
+  }
+  const response = await handler(
+    new Request(`http://backend${path}`, { ...init, headers }),
+  );
+  const contentType = response.headers.get("content-type") ?? "";
+  const body = contentType.includes("application/json")
+    ? await response.json()
+    : new Uint8Array(await response.arrayBuffer());
+  return { status: response.status, headers: response.headers, body };
+}
+
+async function submit(
+  fields: Record<string, string | File | File[]>,
+  credentials?: HeadersInit,
+) {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      form.append(key, entry);
+    }
+  }
+  return await call("/api/sign", { method: "POST", body: form }, credentials);
+}
+
+async function getJob(jobId: string) {
+  const { status, body } = await call(`/api/sign/${jobId}`);
+  assertEquals(status, 200);
+  return body;
+}
+
+Deno.test("completes a job once the workflow finishes", async () => {
+  const file = pdfFile("contract.pdf");
+  const created = await submit({ file, signer_email: "jane@example.com" });
+  assertEquals(created.status, 200);
+  assertEquals(created.body.status, "pending");
+  assertEquals(created.body.workflowStatus, "started");
+
+  const workflow = simulator.getWorkflow(created.body.workflowId);
+  assertExists(workflow);
+  assertEquals(workflow.steps[0].recipients, [{ email: "jane@example.com" }]);
+
+  await simulator.completeWorkflow(workflow.id, "finished");
+  assertEquals(simulator.deliveries.at(-1)?.status, 200);
+
+  const job = await getJob(created.body.jobId);
+  assertEquals(job.status, "completed");
+  assertEquals(job.workflowStatus, "finished");
+  // A single document is only served by the job's own download URL.
+  assertEquals(job.documents[0].downloadUrl, null);
+
+  const download = await call(job.downloadUrl);
+  assertEquals(download.status, 200);
+  assertEquals(download.body, new Uint8Array(await file.arrayBuffer()));
+  assert(
+    download.headers.get("content-disposition")?.includes("contract-signed"),
+  );
+  // The simulator hands back the uploaded PDF, which carries no signature.
+  assertEquals(job.verification.valid, false);
+  assertEquals(job.verification.documents[0].signed, false);
+});
+
+Deno.test("serves downloads under sanitized file names", async () => {
+  const created = await submit({
+    file: pdfFile("Offre signée (v2).pdf"),
+    signer_email: "jane@example.com",
+  });
+  await simulator.completeWorkflow(created.body.workflowId, "finished");
+
+  const job = await getJob(created.body.jobId);
+  const download = await call(job.downloadUrl);
+  assertEquals(download.status, 200);
+  assertEquals(
+    download.headers.get("content-disposition"),
+    'attachment; filename="Offre sign_e (v2)-signed.pdf"; ' +
+      "filename*=UTF-8''Offre%20sign%C3%A9e%20%28v2%29-signed.pdf",
+  );
+});
+
+Deno.test("keeps an audit trail and Goodflag's evidence", async () => {
+  const created = await submit({
+    file: pdfFile("mandate.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+  const { jobId, workflowId } = created.body;
+
+  await simulator.completeWorkflow(workflowId, "finished");
+
+  const log = await call(`/api/sign/${jobId}/events-log`);
+  assertEquals(log.status, 200);
+  const types = log.body.events.map((event: { type: string }) => event.type);
+  assertEquals(types, [
+    "created",
+    "workflow_created",
+    "document_uploaded",
+    "fields_placed",
+    "started",
+    "status_changed",
+    "completed",
+    "signatures_verified",
+    "evidence_stored",
+  ]);
+  assertEquals(log.body.events[0].actor, "service:reporting");
+  assertEquals(log.body.events[5].actor, "goodflag");
+  assertEquals(log.body.events[5].details, {
+    from: "started",
+    to: "finished",
+  });
+
+  const evidence = await call(`/api/sign/${jobId}/evidence`);
+  assertEquals(evidence.status, 200);
+  assert(
+    new TextDecoder().decode(evidence.body).includes(
+      `Evidence certificate for ${workflowId}`,
+    ),
+  );
+
+  const forbidden = await call(`/api/sign/${jobId}/events-log`, {}, {
+    "X-API-Key": OTHER_SERVICE_KEY,
+  });
+  assertEquals(forbidden.status, 404);
+});
+
+Deno.test("completes a job once when a webhook and a tick race", async () => {
+  const created = await submit({
+    file: pdfFile("race.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+  const { jobId, workflowId } = created.body;
+
+  await simulator.completeWorkflow(workflowId, "finished", { webhook: false });
+  await Promise.all([
+    simulator.sendWebhook(workflowId, "workflowFinished"),
+    workflowReconciler.tick(),
+  ]);
+
+  const log = await call(`/api/sign/${jobId}/events-log`);
+  const types: string[] = log.body.events.map(
+    (event: { type: string }) => event.type,
+  );
+  for (const type of ["completed", "signatures_verified", "evidence_stored"]) {
+    assertEquals(types.filter((entry) => entry === type).length, 1, type);
+  }
+});
+
+Deno.test("does not complete jobs that settled otherwise", async () => {
+  const { signingStore } = await import("./store.ts");
+  const created = await submit({
+    file: pdfFile("late.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+  const { jobId } = created.body;
+  const canceled = await call(`/api/sign/${jobId}/cancel`, { method: "POST" });
+  assertEquals(canceled.status, 200);
+
+  // A download that was still running when the job was canceled.
+  const completed = await signingStore.completeJob(jobId, {
+    bytes: new TextEncoder().encode("%PDF-1.4 late"),
+  });
+  assertEquals(completed, false);
+  const job = await getJob(jobId);
+  assertEquals(job.status, "canceled");
+  assertEquals(job.downloadUrl, null);
+});
+
+Deno.test("reports which recipient refused to sign", async () => {
+  const created = await submit({
+    file: pdfFile("nda.pdf"),
+    signer_email: "sam@example.com",
+  });
+  assertEquals(created.status, 200);
+
+  await simulator.completeWorkflow(created.body.workflowId, "refused");
+
+  const job = await getJob(created.body.jobId);
+  assertEquals(job.status, "error");
+  assertEquals(job.errorReason, "signature_refused");
+  assertEquals(job.steps[0].refusedBy, "sam@example.com");
+});
+
+Deno.test("distinguishes approval refusals from signature ones", async () => {
+  const steps = [
+    { stepType: "approval", recipients: [{ email: "lead@example.com" }] },
+    { recipients: [{ email: "jane@example.com" }] },
+  ];
+  const created = await submit({
+    file: pdfFile("budget.pdf"),
+    steps: JSON.stringify(steps),
+  });
+  assertEquals(created.status, 200);
+
+  await simulator.completeWorkflow(created.body.workflowId, "refused");
+
+  const job = await getJob(created.body.jobId);
+  assertEquals(job.errorReason, "approval_refused");
+  assertEquals(job.error, "Approval refused by lead@example.com");
+});
+
+Deno.test("reconciler picks up workflows stopped silently", async () => {
+  const created = await submit({
+    file: pdfFile("lease.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+
+  await simulator.completeWorkflow(created.body.workflowId, "stopped", {
+    webhook: false,
+  });
+  assertEquals((await getJob(created.body.jobId)).status, "pending");
+
+  await workflowReconciler.tick();
+
+  const job = await getJob(created.body.jobId);
+  assertEquals(job.status, "error");
+  assertEquals(job.errorReason, "workflow_stopped");
+});
+
+Deno.test("cancels a pending job and stops its workflow", async () => {
+  const created = await submit({
+    file: pdfFile("offer.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+
+  const canceled = await call(`/api/sign/${created.body.jobId}/cancel`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason: "Sent to the wrong signer" }),
+  });
+  assertEquals(canceled.status, 200);
+  assertEquals(canceled.body.status, "canceled");
+  assertEquals(canceled.body.cancelReason, "Sent to the wrong signer");
+  assertEquals(canceled.body.canceledBy, "service:reporting");
+  assertEquals(canceled.body.error, null);
+  assertEquals(
+    simulator.getWorkflow(created.body.workflowId)?.workflowStatus,
+    "stopped",
+  );
+
+  // The stop notification and later refreshes leave the job canceled.
+  await simulator.sendWebhook(created.body.workflowId, "workflowStopped");
+  await workflowReconciler.tick();
+  assertEquals((await getJob(created.body.jobId)).status, "canceled");
+
+  const again = await call(`/api/sign/${created.body.jobId}/cancel`, {
+    method: "POST",
+  });
+  assertEquals(again.status, 409);
+});
+
+Deno.test("stops the workflows of jobs that expire", async () => {
+  const { WorkflowReconciler } = await import("./reconciler.ts");
+  const created = await submit({
+    file: pdfFile("stale.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+  const { jobId, workflowId } = created.body;
+
+  const reconciler = new WorkflowReconciler({
+    intervalMs: 60_000,
+    concurrency: 1,
+    minBackoffMs: 1_000,
+    maxBackoffMs: 1_000,
+    pendingTtlMs: 60_000,
+  });
+  await reconciler.tick(Date.now() + 120_000);
+
+  assertEquals(simulator.getWorkflow(workflowId)?.workflowStatus, "stopped");
+  const job = await getJob(jobId);
+  assertEquals(job.status, "expired");
+  assertEquals(job.workflowStatus, "stopped");
+  assertEquals(job.error, "Workflow did not complete before the job expired");
+
+  // Goodflag's stop notification leaves the job expired.
+  await simulator.sendWebhook(workflowId, "workflowStopped");
+  assertEquals((await getJob(jobId)).status, "expired");
+});
+
+Deno.test("reminds pending signers on demand and on a schedule", async () => {
+  const created = await submit({
+    file: pdfFile("renewal.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+  const { jobId, workflowId } = created.body;
+
+  const reminded = await call(`/api/sign/${jobId}/remind`, { method: "POST" });
+  assertEquals(reminded.status, 200);
+  assertEquals(reminded.body.reminders[0].trigger, "manual");
+  assertEquals(reminded.body.reminders[0].recipients, ["jane@example.com"]);
+
+  const scheduled = await call(`/api/sign/${jobId}/reminders`, {
+    method: "PUT",
+    body: JSON.stringify({ intervalHours: 24, maxCount: 1 }),
+  });
+  assertEquals(scheduled.status, 200);
+  assertEquals(scheduled.body.reminderSchedule.sentCount, 0);
+
+  const tooSoon = await call(`/api/sign/${jobId}/reminders`, {
+    method: "PUT",
+    body: JSON.stringify({ intervalHours: 0.1, maxCount: 1 }),
+  });
+  assertEquals(tooSoon.status, 400);
+
+  await workflowReconciler.tick(Date.now() + 1000 * 60 * 60 * 25);
+
+  const job = await getJob(jobId);
+  assertEquals(job.reminders.length, 2);
+  assertEquals(job.reminders[1].trigger, "automatic");
+  assertEquals(job.reminderSchedule.sentCount, 1);
+  assertEquals(job.reminderSchedule.nextReminderAt, null);
+  assertEquals(simulator.getWorkflow(workflowId)?.invites.length, 3);
+});
+
+Deno.test("replaces a recipient who has not signed yet", async () => {
+  const created = await submit({
+    file: pdfFile("invoice.pdf"),
+    signer_email: "jane@exmaple.com",
+    fields: JSON.stringify([
+      {
+        page: 1,
+        x: 10,
+        y: 10,
+        width: 100,
+        height: 40,
+        recipient: "jane@exmaple.com",
+      },
+    ]),
+  });
+  assertEquals(created.status, 200);
+  const { jobId, workflowId } = created.body;
+
+  const replaced = await call(`/api/sign/${jobId}/replace-recipient`, {
+    method: "POST",
+    body: JSON.stringify({
+      recipientEmail: "jane@exmaple.com",
+      email: "jane@example.com",
+      phoneNumber: "+33612345678",
+    }),
+  });
+  assertEquals(replaced.status, 200);
+  assertEquals(replaced.body.steps[0].recipients, ["jane@example.com"]);
+  assertEquals(
+    replaced.body.documents[0].signatureFields[0].recipientEmail,
+    "jane@example.com",
+  );
+  assertEquals(replaced.body.recipientChanges[0].previous, {
+    email: "jane@exmaple.com",
+  });
+
+  const workflow = simulator.getWorkflow(workflowId);
+  assertEquals(workflow?.steps[0].recipients, [
+    { email: "jane@example.com", phoneNumber: "+33612345678" },
+  ]);
+  const documentId = replaced.body.documents[0].documentId;
+  assertEquals(
+    simulator.getSignatureFields(documentId),
+    [{
+      imagePage: 1,
+      imageX: 10,
+      imageY: 10,
+      imageWidth: 100,
+      imageHeight: 40,
+      recipientEmail: "jane@example.com",
+    }],
+  );
+
+  const unknown = await call(`/api/sign/${jobId}/replace-recipient`, {
+    method: "POST",
+    body: JSON.stringify({
+      recipientEmail: "jane@exmaple.com",
+      email: "other@example.com",
+    }),
+  });
+  assertEquals(unknown.status, 409);
+});
+
+Deno.test("places requested fields and serves each document", async () => {
+  const fields = [
+    { document: 1, page: 1, x: 50, y: 60, width: 120, height: 40 },
+  ];
+  const created = await submit({
+    file: [pdfFile("first.pdf", "First"), pdfFile("second.pdf", "Second")],
+    signer_email: "jane@example.com",
+    fields: JSON.stringify(fields),
+  });
+  assertEquals(created.status, 200);
+  const [first, second] = created.body.documents;
+  assertEquals(first.signatureFields, []);
+  assertEquals(second.fieldSource, "request");
+  assertEquals(simulator.getSignatureFields(second.documentId), [
+    { imagePage: 1, imageX: 50, imageY: 60, imageWidth: 120, imageHeight: 40 },
+  ]);
+
+  await simulator.completeWorkflow(created.body.workflowId, "finished");
+
+  const job = await getJob(created.body.jobId);
+  assertEquals(job.status, "completed");
+  const download = await call(job.documents[1].downloadUrl);
+  assertEquals(download.status, 200);
+  assertEquals(
+    new TextDecoder().decode(download.body).includes("(Second) Tj"),
+    true,
+  );
+
+  // The workflow download is a ZIP; its entries are listed and served too.
+  const archive = await call(job.downloadUrl);
+  assertEquals(archive.headers.get("content-type"), "application/zip");
+  assertEquals(
+    job.files.map((file: { name: string; kind: string }) => [
+      file.name,
+      file.kind,
+    ]),
+    [
+      ["first-signed.pdf", "signed_document"],
+      ["second-signed.pdf", "signed_document"],
+      [`${created.body.workflowId}-evidence.txt`, "evidence"],
+    ],
+  );
+  const entry = await call(job.files[1].downloadUrl);
+  assertEquals(entry.status, 200);
+  assertEquals(entry.headers.get("content-type"), "application/pdf");
+  assertEquals(
+    new TextDecoder().decode(entry.body).includes("(Second) Tj"),
+    true,
+  );
+  assertEquals((await call(`/api/sign/${job.jobId}/files/3`)).status, 404);
+});
+
+Deno.test("places fields on signature anchors", async () => {
+  const created = await submit({
+    file: pdfFile("offer.pdf", "Signed: {{sign:signer1}}"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(created.status, 200);
+
+  const [document] = created.body.documents;
+  assertEquals(document.fieldSource, "anchors");
+  const [field] = simulator.getSignatureFields(document.documentId) as Array<
+    Record<string, unknown>
+  >;
+  assertEquals(field.imagePage, 1);
+  assertEquals(field.imageY, 720);
+  assertEquals(field.recipientEmail, "jane@example.com");
+});
+
+Deno.test("rejects webhooks with an invalid signature", async () => {
+  const { status } = await call("/api/webhooks/goodflag", {
+    method: "POST",
+    headers: { "X-Goodflag-Signature": "sha256=00ff" },
+    body: JSON.stringify({
+      id: "evt_forged",
+      eventType: "workflowFinished",
+      workflowId: "wfl_unknown",
+    }),
+  });
+  assertEquals(status, 401);
+});
+
+Deno.test("rejects sign requests without a file", async () => {
+  const { status, body } = await submit({ signer_email: "jane@example.com" });
+  assertEquals(status, 400);
+  assertEquals(body.error, "File field is required");
+});
+
+Deno.test("rejects uploads Goodflag could not sign", async () => {
+  const renamed = await submit({
+    file: new File(["name,email\n"], "contract.pdf", {
+      type: "application/pdf",
+    }),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(renamed.status, 415);
+  assertEquals(renamed.body.code, "not_pdf");
+
+  const locked = await submit({
+    file: new File([buildPdf("Secret", { encrypted: true })], "locked.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(locked.status, 422);
+  assertEquals(locked.body.code, "pdf_encrypted");
+
+  const truncated = await submit({
+    file: new File([buildPdf("Cut").slice(0, 40)], "cut.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(truncated.status, 422);
+  assertEquals(truncated.body.code, "pdf_unreadable");
+
+  const pastLastPage = await submit({
+    file: pdfFile("contract.pdf"),
+    signer_email: "jane@example.com",
+    fields: JSON.stringify([{ page: 2, x: 1, y: 1, width: 100, height: 40 }]),
+  });
+  assertEquals(pastLastPage.status, 422);
+  assertEquals(pastLastPage.body.code, "signature_page_missing");
+
+  const oversized = await submit({
+    file: new File([buildPdf("Big"), new Uint8Array(1024 * 1024)], "big.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals(oversized.status, 413);
+  assertEquals(oversized.body.code, "file_too_large");
+
+  const listed = await call("/api/sign");
+  assert(
+    !listed.body.jobs.some((job: { fileName: string }) =>
+      ["locked.pdf", "cut.pdf", "big.pdf"].includes(job.fileName)
+    ),
+  );
+});
+
+Deno.test("verifies the signatures of a PDF", async () => {
+  const verify = async (bytes: Uint8Array<ArrayBuffer>) => {
+    const form = new FormData();
+    form.append("file", new File([bytes], "signed.pdf"));
+    const { status, body } = await call("/api/verify", {
+      method: "POST",
+      body: form,
+    });
+    assertEquals(status, 200);
+    return body;
+  };
+
+  const signed = await buildSignedPdf("Please sign below", "Jane Signer");
+  const verified = await verify(signed);
+  assertEquals(verified.signed, true);
+  assertEquals(verified.valid, true);
+  assertEquals(verified.modifiedAfterSigning, false);
+  const [signature] = verified.signatures;
+  assertEquals(signature.format, "ETSI.CAdES.detached");
+  assertEquals(signature.signer, "CN=Jane Signer");
+  assertEquals(signature.digestValid, true);
+  assertEquals(signature.signatureValid, true);
+  assertEquals(signature.certificates.length, 1);
+  assertEquals(signature.certificates[0].issuer, "CN=Jane Signer");
+  assertExists(signature.signingTime);
+
+  const tampered = signed.slice();
+  tampered[new TextDecoder().decode(signed).indexOf("Please")] =
+    "p".charCodeAt(0);
+  const broken = await verify(tampered);
+  assertEquals(broken.valid, false);
+  assertEquals(broken.signatures[0].digestValid, false);
+
+  const appended = new Uint8Array([
+    ...signed,
+    ...new TextEncoder().encode("% changed after signing\n"),
+  ]);
+  const updated = await verify(appended);
+  assertEquals(updated.valid, false);
+  assertEquals(updated.modifiedAfterSigning, true);
+  assertEquals(updated.signatures[0].signatureValid, true);
+
+  // Without the signer's certificate the signature cannot be checked.
+  const anonymous = await verify(
+    await buildSignedPdf("Please sign below", "Jane Signer", {
+      omitCertificate: true,
+    }),
+  );
+  assertEquals(anonymous.valid, false);
+  assertEquals(anonymous.signatures[0].digestValid, true);
+  assertEquals(anonymous.signatures[0].signatureValid, null);
+
+  const forged = await verify(
+    await buildSignedPdf("Please sign below", "Jane Signer", {
+      corruptSignature: true,
+    }),
+  );
+  assertEquals(forged.valid, false);
+  assertEquals(forged.signatures[0].digestValid, true);
+  assertEquals(forged.signatures[0].signatureValid, false);
+
+  // An impossible signing time falls back to the dictionary's /M.
+  const misdated = await verify(
+    await buildSignedPdf("Please sign below", "Jane Signer", {
+      signingTime: der(0x17, new TextEncoder().encode("261301120000Z")),
+    }),
+  );
+  assertEquals(misdated.valid, true);
+  assertEquals(
+    misdated.signatures[0].signingTime,
+    "2026-01-01T12:00:00.000Z",
+  );
+
+  const unsigned = await verify(buildPdf("No signature here"));
+  assertEquals(unsigned.signed, false);
+  assertEquals(unsigned.valid, false);
+});
+
+Deno.test("requires credentials on the signing API", async () => {
+  const missing = await call("/api/sign", { method: "POST" }, {});
+  assertEquals(missing.status, 401);
+  const wrongKey = await submit(
+    { file: pdfFile("x.pdf"), signer_email: "jane@example.com" },
+    { "X-API-Key": "not-a-key" },
+  );
+  assertEquals(wrongKey.status, 401);
+  const expired = await call("/api/sign/unknown", {}, {
+    Authorization: `Bearer ${await signJwt("alice", -3600)}`,
+  });
+  assertEquals(expired.status, 401);
+  // "bnVsbA" is the JSON literal null, which is not a JWT header.
+  const nullHeader = await call("/api/sign/unknown", {}, {
+    Authorization: "Bearer bnVsbA.bnVsbA.c2ln",
+  });
+  assertEquals(nullHeader.status, 401);
+});
+
+Deno.test("answers 503 while the JWKS cannot be fetched", async () => {
+  const { Authenticator, AuthError } = await import("./auth.ts");
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  listener.close();
+  const authenticator = new Authenticator({
+    apiKeys: [],
+    jwksUrl: `http://127.0.0.1:${port}/jwks`,
+    adminPrincipals: [],
+  });
+  const encode = (value: unknown) =>
+    encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const token = `${encode({ alg: "RS256" })}.${encode({ sub: "alice" })}.c2ln`;
+  let status: number | undefined;
+  try {
+    await authenticator.authenticate(
+      new Request("http://backend/api/sign", {
+        headers: { Authorization: `Bearer ${token}` },
+      }),
+    );
+  } catch (error) {
+    if (error instanceof AuthError) status = error.status;
+  }
+  assertEquals(status, 503);
+});
+
+Deno.test("only the owner can read or download a job", async () => {
+  const alice = { Authorization: `Bearer ${await signJwt("alice")}` };
+  const bob = { Authorization: `Bearer ${await signJwt("bob")}` };
+  const created = await submit(
+    { file: pdfFile("private.pdf"), signer_email: "jane@example.com" },
+    alice,
+  );
+  assertEquals(created.status, 200);
+  const jobId = created.body.jobId;
+  await simulator.completeWorkflow(created.body.workflowId, "finished");
+
+  assertEquals((await call(`/api/sign/${jobId}`, {}, alice)).status, 200);
+  assertEquals((await call(`/api/sign/${jobId}/file`, {}, alice)).status, 200);
+  assertEquals((await call(`/api/sign/${jobId}`, {}, bob)).status, 404);
+  assertEquals((await call(`/api/sign/${jobId}/file`, {}, bob)).status, 404);
+  assertEquals((await call(`/api/sign/${jobId}/events`, {}, bob)).status, 404);
+  assertEquals(
+    (await call(`/api/sign/${jobId}`, {}, { "X-API-Key": OTHER_SERVICE_KEY }))
+      .status,
+    404,
+  );
+});
+
+Deno.test("opens event streams with short-lived tickets", async () => {
+  const alice = { Authorization: `Bearer ${await signJwt("alice")}` };
+  const bob = { Authorization: `Bearer ${await signJwt("bob")}` };
+  const created = await submit(
+    { file: pdfFile("streamed.pdf"), signer_email: "jane@example.com" },
+    alice,
+  );
+  const jobId = created.body.jobId;
+  const other = await submit(
+    { file: pdfFile("other.pdf"), signer_email: "jane@example.com" },
+    alice,
+  );
+  // A settled job's stream sends it once and closes.
+  await simulator.completeWorkflow(created.body.workflowId, "finished");
+
+  const issued = await call(
+    `/api/sign/${jobId}/events-ticket`,
+    { method: "POST" },
+    alice,
+  );
+  assertEquals(issued.status, 200);
+  assert(Date.parse(issued.body.expiresAt) <= Date.now() + 60_000);
+  const ticket = encodeURIComponent(issued.body.ticket);
+  const stream = await call(
+    `/api/sign/${jobId}/events?ticket=${ticket}`,
+    {},
+    {},
+  );
+  assertEquals(stream.status, 200);
+  assertEquals(stream.headers.get("content-type"), "text/event-stream");
+  assert(new TextDecoder().decode(stream.body).includes('"completed"'));
+
+  // Tickets only open the stream of their own job.
+  const otherJobId = other.body.jobId;
+  for (
+    const path of [
+      `/api/sign/${otherJobId}/events?ticket=${ticket}`,
+      `/api/sign/${jobId}?ticket=${ticket}`,
+      `/api/sign/${jobId}/events?ticket=${ticket}x`,
+    ]
+  ) {
+    assertEquals((await call(path, {}, {})).status, 401);
+  }
+  // Neither API keys nor JWTs are accepted in the query string.
+  const token = encodeURIComponent(await signJwt("alice"));
+  for (const secret of [SERVICE_KEY, token]) {
+    const response = await call(
+      `/api/sign/${jobId}/events?access_token=${secret}`,
+      {},
+      {},
+    );
+    assertEquals(response.status, 401);
+  }
+
+  const bobTicket = await call(
+    `/api/sign/${jobId}/events-ticket`,
+    { method: "POST" },
+    bob,
+  );
+  assertEquals(bobTicket.status, 404);
+});
+
+Deno.test("creates workflows as the requested tenant and profile", async () => {
+  const created = await submit({
+    file: pdfFile("agreement.pdf"),
+    signer_email: "jane@example.com",
+    tenant: "legal",
+    profile: "advanced",
+  });
+  assertEquals(created.status, 200);
+  assertEquals(
+    simulator.getWorkflow(created.body.workflowId)?.userId,
+    "usr_legal",
+  );
+  assertEquals(
+    simulator.getSignatureProfileId(created.body.documents[0].documentId),
+    "sip_advanced",
+  );
+
+  await simulator.completeWorkflow(created.body.workflowId, "finished");
+
+  const job = await getJob(created.body.jobId);
+  assertEquals(job.status, "completed");
+  assertEquals([job.tenant, job.profile], ["legal", "advanced"]);
+
+  const defaultJob = await submit({
+    file: pdfFile("memo.pdf"),
+    signer_email: "jane@example.com",
+  });
+  assertEquals([defaultJob.body.tenant, defaultJob.body.profile], [
+    "default",
+    "default",
+  ]);
+  assertEquals(
+    simulator.getWorkflow(defaultJob.body.workflowId)?.userId,
+    "usr_test",
+  );
+});
+
+Deno.test("rejects tenants and profiles the caller cannot use", async () => {
+  const file = pdfFile("x.pdf");
+  const unknownProfile = await submit({
+    file,
+    signer_email: "jane@example.com",
+    tenant: "legal",
+    profile: "qualified",
+  });
+  assertEquals(unknownProfile.status, 400);
+  const inherited = await submit({
+    file,
+    signer_email: "jane@example.com",
+    tenant: "legal",
+    profile: "constructor",
+  });
+  assertEquals(inherited.status, 400);
+
+  const notAllowed = await submit(
+    { file, signer_email: "jane@example.com", tenant: "legal" },
+    { "X-API-Key": OTHER_SERVICE_KEY },
+  );
+  assertEquals(notAllowed.status, 403);
+  assertEquals(
+    notAllowed.body.error,
+    "Tenant legal is not permitted for service:billing",
+  );
+});
+
+Deno.test("keeps tenant API keys named by apiKeyEnv out of KV", async () => {
+  const { KvTenantRegistry, parseTenant, tenantApiKey } = await import(
+    "./tenant_registry.ts"
+  );
+  Deno.env.set("TEST_SALES_API_KEY", "sales-key");
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const registry = new KvTenantRegistry(kv);
+    await registry.put(parseTenant({
+      id: "sales",
+      apiKeyEnv: "TEST_SALES_API_KEY",
+      userId: "usr_sales",
+      profiles: { simple: { signatureProfileId: "sip_sales" } },
+    }));
+    const stored = await kv.get(["tenants", "sales"]);
+    assert(!JSON.stringify(stored.value).includes("sales-key"));
+    const tenant = await registry.get("sales");
+    assertEquals(tenantApiKey(tenant!), "sales-key");
+  } finally {
+    kv.close();
+    Deno.env.delete("TEST_SALES_API_KEY");
+  }
+});
+
+Deno.test("lists the caller's jobs with filters and cursors", async () => {
+  const carol = { Authorization: `Bearer ${await signJwt("carol")}` };
+  const created = [];
+  for (const name of ["list-a.pdf", "list-b.pdf", "list-c.pdf"]) {
+    const response = await submit(
+      { file: pdfFile(name), signer_email: "carol@example.com" },
+      carol,
+    );
+    created.push(response.body);
+  }
+  const createdIds = created.map((job) => job.jobId);
+  await simulator.completeWorkflow(created[0].workflowId, "finished");
+
+  const firstPage = await call("/api/sign?limit=2", {}, carol);
+  assertEquals(firstPage.status, 200);
+  assertEquals(
+    firstPage.body.jobs.map((job: { jobId: string }) => job.jobId),
+    [createdIds[2], createdIds[1]],
+  );
+  assertExists(firstPage.body.nextCursor);
+  const secondPage = await call(
+    `/api/sign?limit=2&cursor=${firstPage.body.nextCursor}`,
+    {},
+    carol,
+  );
+  assertEquals(
+    secondPage.body.jobs.map((job: { jobId: string }) => job.jobId),
+    [createdIds[0]],
+  );
+  assertEquals(secondPage.body.nextCursor, null);
+
+  const completed = await call(
+    "/api/sign?status=completed&signerEmail=CAROL@example.com&fileName=list-",
+    {},
+    carol,
+  );
+  assertEquals(completed.body.jobs.length, 1);
+  assertEquals(completed.body.jobs[0].jobId, createdIds[0]);
+
+  const ascending = await call("/api/sign?sort=updatedAt&order=asc", {}, carol);
+  assertEquals(ascending.body.jobs.at(-1).jobId, createdIds[0]);
+
+  const future = new Date(Date.now() + 60_000).toISOString();
+  const none = await call(`/api/sign?createdFrom=${future}`, {}, carol);
+  assertEquals(none.body.jobs, []);
+
+  const invalid = await call("/api/sign?status=done", {}, carol);
+  assertEquals(invalid.status, 400);
+  const mismatched = await call(
+    `/api/sign?sort=updatedAt&cursor=${firstPage.body.nextCursor}`,
+    {},
+    carol,
+  );
+  assertEquals(mismatched.status, 400);
+
+  const ops = await call(
+    "/api/sign?owner=user:carol&limit=100",
+    {},
+    { "X-API-Key": OPS_KEY },
+  );
+  assertEquals(ops.body.jobs.length, 3);
+});
+
+Deno.test("confirms readiness with Goodflag", async () => {
+  const health = await call("/healthz", {}, {});
+  assertEquals(health.status, 200);
+
+  const ready = await call("/readyz", {}, {});
+  assertEquals(ready.status, 200);
+  assertEquals(ready.body.ready, true);
+  const targets = ready.body.checks.map((check: { target: string }) =>
+    check.target
+  );
+  for (const id of ["usr_test", "sip_test", "usr_legal", "sip_advanced"]) {
+    assert(targets.includes(id), `${id} was not checked`);
+  }
+});
+
+Deno.test("names every Goodflag object that is not usable", async () => {
+  const { ReadinessProbe } = await import("./readiness.ts");
+  const { StaticTenantRegistry } = await import("./tenant_registry.ts");
+  const { TenantDirectory } = await import("./tenants.ts");
+  const account = new GoodflagSimulator({
+    apiKey: "account-key",
+    users: ["usr_ok"],
+    signatureProfiles: ["sip_ok"],
+    consentPages: [],
+  });
+  const server = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    account.handler,
+  );
+  const baseUrl = `http://127.0.0.1:${server.addr.port}/`;
+  try {
+    const directory = new TenantDirectory(
+      new StaticTenantRegistry([
+        {
+          id: "broken",
+          baseUrl,
+          apiKey: "account-key",
+          userId: "usr_gone",
+          consentPageId: "cop_gone",
+          defaultProfile: "good",
+          profiles: {
+            good: { signatureProfileId: "sip_ok" },
+            bad: { signatureProfileId: "sip_gone" },
+          },
+        },
+        {
+          id: "revoked",
+          baseUrl,
+          apiKey: "revoked-key",
+          userId: "usr_ok",
+          defaultProfile: "good",
+          profiles: { good: { signatureProfileId: "sip_ok" } },
+        },
+      ]),
+      "broken",
+    );
+    const report = await new ReadinessProbe(directory, 0).check();
+    assertEquals(report.ready, false);
+    const failures = report.checks
+      .filter((check) => !check.ok)
+      .map((check) => `${check.tenant} ${check.check}: ${check.error}`);
+    assertEquals(failures.sort(), [
+      "broken consent_page: Consent page cop_gone does not exist",
+      "broken signature_profile: Signature profile sip_gone does not exist",
+      "broken user: Owner user usr_gone does not exist",
+      "revoked signature_profile: Goodflag rejected the API key",
+      "revoked user: Goodflag rejected the API key",
+    ]);
+  } finally {
+    await server.shutdown();
+  }
+});
+
+Deno.test("manages templates and signs from them", async () => {
+  const definition = {
+    name: "Employment contract",
+    workflowName: "Contract {{employee.lastName}} ({{fileName}})",
+    tenant: "legal",
+    profile: "advanced",
+    locale: "fr",
+    steps: [
+      { stepType: "approval", roles: ["hr"] },
+      { roles: [{ role: "employee", comments: "Welcome aboard" }] },
+    ],
+    fields: [
+      { page: 1, x: 10, y: 20, width: 100, height: 50, role: "employee" },
+    ],
+  };
+  const json = (method: string, body: unknown) => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  const created = await call("/api/templates", json("POST", definition));
+  assertEquals(created.status, 201);
+  const templateId = created.body.templateId;
+  assertEquals(created.body.roles, ["hr", "employee"]);
+
+  const badPlaceholder = await call(
+    "/api/templates",
+    json("POST", { ...definition, workflowName: "{{manager.email}}" }),
+  );
+  assertEquals(badPlaceholder.status, 400);
+  const approverField = await call(
+    "/api/templates",
+    json("POST", {
+      ...definition,
+      fields: [{ ...definition.fields[0], role: "hr" }],
+    }),
+  );
+  assertEquals(approverField.status, 400);
+
+  const listed = await call("/api/templates", {}, { "X-API-Key": OPS_KEY });
+  assert(
+    listed.body.templates.some((template: { templateId: string }) =>
+      template.templateId === templateId
+    ),
+  );
+  const foreignEdit = await call(
+    `/api/templates/${templateId}`,
+    json("PUT", definition),
+    { "X-API-Key": OTHER_SERVICE_KEY },
+  );
+  assertEquals(foreignEdit.status, 403);
+  const renamed = await call(
+    `/api/templates/${templateId}`,
+    json("PUT", { ...definition, name: "Employment contract v2" }),
+  );
+  assertEquals(renamed.status, 200);
+  assertEquals(renamed.body.name, "Employment contract v2");
+
+  const roles = {
+    hr: { email: "hr@example.com" },
+    employee: { email: "ada@example.com", lastName: "Lovelace" },
+  };
+  const signed = await submit({
+    file: pdfFile("contract.pdf"),
+    template_id: templateId,
+    roles: JSON.stringify(roles),
+  });
+  assertEquals(signed.status, 200);
+  assertEquals(signed.body.template, templateId);
+  const workflow = simulator.getWorkflow(signed.body.workflowId)!;
+  assertEquals(workflow.name, "Contract Lovelace (contract.pdf)");
+  assertEquals(workflow.userId, "usr_legal");
+  const [document] = signed.body.documents;
+  assertEquals(
+    simulator.getSignatureProfileId(document.documentId),
+    "sip_advanced",
+  );
+  assertEquals(document.fieldSource, "template");
+  assertEquals(document.signatureFields[0].recipientEmail, "ada@example.com");
+  assertEquals(
+    signed.body.steps.map((step: { recipients: string[] }) => step.recipients),
+    [["hr@example.com"], ["ada@example.com"]],
+  );
+
+  const missingRole = await submit({
+    file: pdfFile("contract.pdf"),
+    template_id: templateId,
+    roles: JSON.stringify({ hr: roles.hr }),
+  });
+  assertEquals(missingRole.status, 400);
+  assertEquals(missingRole.body.error, "roles.employee is required");
+  const mixed = await submit({
+    file: pdfFile("contract.pdf"),
+    template_id: templateId,
+    signer_email: "jane@example.com",
+  });
+  assertEquals(mixed.status, 400);
+
+  const deleted = await call(`/api/templates/${templateId}`, {
+    method: "DELETE",
+  });
+  assertEquals(deleted.status, 204);
+  const gone = await call(`/api/templates/${templateId}`);
+  assertEquals(gone.status, 404);
+});
+
+Deno.test("sends one document to every signer of a CSV", async () => {
+  const form = new FormData();
+  form.append("file", pdfFile("policy.pdf"));
+  form.append(
+    "signers",
+    new File(
+      [
+        "Email,First Name,Last Name,Employee ID\n" +
+        "ada@example.com,Ada,Lovelace,1\n" +
+        "grace@example.com,Grace,Hopper,2\n" +
+        '"alan@example.com","Alan","Turing, A.",3\n',
+      ],
+      "signers.csv",
+      { type: "text/csv" },
+    ),
+  );
+  form.append("workflow_name", "Security policy");
+  simulator.rejectRecipient("grace@example.com");
+
+  const created = await call("/api/sign/bulk", { method: "POST", body: form });
+  assertEquals(created.status, 202);
+  assertEquals(created.body.counts.total, 3);
+  const batchUrl = `/api/sign/bulk/${created.body.batchId}`;
+  await bulkSender.drain();
+
+  const partial = await call(batchUrl);
+  assertEquals(partial.body.status, "done");
+  assertEquals(partial.body.counts.created, 2);
+  assertEquals(partial.body.counts.failed, 1);
+  const [ada, grace, alan] = partial.body.rows;
+  assertEquals(grace.status, "failed");
+  assert(grace.error.includes("grace@example.com"));
+  const adaJob = await getJob(ada.jobId);
+  assertEquals(adaJob.batch, created.body.batchId);
+  const workflow = simulator.getWorkflow(adaJob.workflowId)!;
+  assertEquals(workflow.name, "Security policy (ada@example.com)");
+  assertEquals((await getJob(alan.jobId)).steps[0].recipients, [
+    "alan@example.com",
+  ]);
+
+  const foreign = await call(batchUrl, {}, { "X-API-Key": OTHER_SERVICE_KEY });
+  assertEquals(foreign.status, 404);
+
+  simulator.rejectRecipient("grace@example.com", false);
+  const retried = await call(`${batchUrl}/retry`, { method: "POST" });
+  assertEquals(retried.status, 202);
+  assertEquals(retried.body.counts.queued, 1);
+  await bulkSender.drain();
+
+  const done = await call(batchUrl);
+  assertEquals(done.body.counts.created, 3);
+  assertEquals(done.body.rows[1].attempts, 2);
+  const nothingFailed = await call(`${batchUrl}/retry`, { method: "POST" });
+  assertEquals(nothingFailed.status, 409);
+});
+
+Deno.test("resumes bulk rows held back by a rate limit", async () => {
+  const form = new FormData();
+  form.append("file", pdfFile("handbook.pdf"));
+  form.append("signers", "Email\nkatherine@example.com\n");
+  simulator.rateLimitUploads(1);
+
+  const created = await call("/api/sign/bulk", { method: "POST", body: form });
+  assertEquals(created.status, 202);
+  await bulkSender.drain();
+
+  const batch = await call(`/api/sign/bulk/${created.body.batchId}`);
+  const [row] = batch.body.rows;
+  assertEquals(row.status, "created");
+  assertEquals(row.attempts, 2);
+  // The second attempt finished the job and workflow of the first one.
+  const job = await getJob(row.jobId);
+  assertEquals(job.status, "pending");
+  const workflow = simulator.getWorkflow(job.workflowId)!;
+  assertEquals(workflow.workflowStatus, "started");
+  assertEquals(workflow.documentIds.length, 1);
+  const jobs = await call("/api/sign?signerEmail=katherine@example.com");
+  assertEquals(jobs.body.jobs.length, 1);
+});
+
+Deno.test("evicts settled batches after their retention", async () => {
+  const form = new FormData();
+  form.append("file", pdfFile("handbook.pdf"));
+  form.append("signers", "Email\nada@example.com\nmary@example.com\n");
+  simulator.rejectRecipient("mary@example.com");
+  const created = await call("/api/sign/bulk", { method: "POST", body: form });
+  assertEquals(created.status, 202);
+  await bulkSender.drain();
+  simulator.rejectRecipient("mary@example.com", false);
+  const batchUrl = `/api/sign/bulk/${created.body.batchId}`;
+  const batch = await call(batchUrl);
+  assertEquals(batch.body.counts.failed, 1);
+
+  // Within the retention period the failed row can still be retried.
+  await bulkSender.evictExpired(Date.now() + 1000 * 60 * 30);
+  assertEquals((await call(batchUrl)).status, 200);
+
+  await bulkSender.evictExpired(Date.now() + 1000 * 60 * 61);
+  assertEquals((await call(batchUrl)).status, 404);
+  const retried = await call(`${batchUrl}/retry`, { method: "POST" });
+  assertEquals(retried.status, 404);
+  // The jobs of the batch are kept.
+  assertEquals((await getJob(batch.body.rows[0].jobId)).status, "pending");
+});
+
+Deno.test("posts signed callbacks and replays dead letters", async () => {
+  const received: Array<{ signature: string | null; body: string }> = [];
+  let failing = false;
+  const receiver = Deno.serve(
+    { port: 0, hostname: "127.0.0.1", onListen: () => {} },
+    async (req) => {
+      received.push({
+        signature: req.headers.get("x-callback-signature"),
+        body: await req.text(),
+      });
+      return new Response(null, { status: failing ? 500 : 204 });
+    },
+  );
+  const callbackUrl = `http://127.0.0.1:${receiver.addr.port}/hooks`;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(CALLBACK_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const expectedSignature = async (body: string) =>
+    `sha256=${
+      encodeHex(
+        new Uint8Array(
+          await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body)),
+        ),
+      )
+    }`;
+
+  try {
+    const created = await submit({
+      file: pdfFile("lease.pdf"),
+      signer_email: "jane@example.com",
+      callback_url: callbackUrl,
+    });
+    assertEquals(created.status, 200);
+    const { jobId } = created.body;
+    assertEquals((await getJob(jobId)).callbackUrl, callbackUrl);
+    await simulator.completeWorkflow(created.body.workflowId, "finished");
+    await callbackDispatcher.drain();
+
+    for (const { signature, body } of received) {
+      assertEquals(signature, await expectedSignature(body));
+    }
+    const events = received.map(({ body }) => JSON.parse(body));
+    // The workflow finishing and the job completing are separate changes.
+    assert(
+      events.some((event) =>
+        event.status === "pending" && event.workflowStatus === "finished" &&
+        event.previousWorkflowStatus === "started"
+      ),
+    );
+    const completed = events.find((event) => event.status === "completed");
+    assertEquals(completed, {
+      id: completed.id,
+      type: "job.updated",
+      occurredAt: completed.occurredAt,
+      jobId,
+      status: "completed",
+      previousStatus: "pending",
+      workflowStatus: "finished",
+      previousWorkflowStatus: "finished",
+      errorReason: null,
+      statusUrl: `/api/sign/${jobId}`,
+    });
+
+    // Both attempts fail, so the delivery becomes a dead letter.
+    failing = true;
+    const unlucky = await submit({
+      file: pdfFile("lease.pdf"),
+      signer_email: "jane@example.com",
+      callback_url: callbackUrl,
+    });
+    await callbackDispatcher.drain();
+    await callbackDispatcher.tick(Date.now() + 60_000);
+    const dead = await call("/api/callbacks/dead-letters");
+    assertEquals(dead.status, 200);
+    const [letter] = dead.body.deliveries.filter(
+      (delivery: { jobId: string }) => delivery.jobId === unlucky.body.jobId,
+    );
+    assertEquals(letter.status, "dead");
+    assertEquals(letter.attempts, 2);
+    assertEquals(letter.lastError, "Callback URL answered 500");
+
+    const foreign = await call("/api/callbacks/dead-letters", {}, {
+      "X-API-Key": OTHER_SERVICE_KEY,
+    });
+    assertEquals(foreign.body.deliveries, []);
+    const replayUrl = `/api/callbacks/dead-letters/${letter.deliveryId}/replay`;
+    const foreignReplay = await call(replayUrl, { method: "POST" }, {
+      "X-API-Key": OTHER_SERVICE_KEY,
+    });
+    assertEquals(foreignReplay.status, 404);
+
+    failing = false;
+    const replayed = await call(replayUrl, { method: "POST" });
+    assertEquals(replayed.status, 202);
+    await callbackDispatcher.drain();
+    assertEquals(received.at(-1)?.body, JSON.stringify(letter.event));
+    const after = await call("/api/callbacks/dead-letters");
+    assertEquals(
+      after.body.deliveries.some(
+        (delivery: { deliveryId: string }) =>
+          delivery.deliveryId === letter.deliveryId,
+      ),
+      false,
+    );
+
+    const invalid = await submit({
+      file: pdfFile("lease.pdf"),
+      signer_email: "jane@example.com",
+      callback_url: "ftp://example.com/hooks",
+    });
+    assertEquals(invalid.status, 400);
+    const elsewhere = await submit({
+      file: pdfFile("lease.pdf"),
+      signer_email: "jane@example.com",
+      callback_url: "https://example.com/hooks",
+    });
+    assertEquals(elsewhere.status, 400);
+  } finally {
+    await receiver.shutdown();
+  }
+});
+
+Deno.test("replays repeated sign requests by Idempotency-Key", async () => {
+  const file = pdfFile("offer.pdf");
+  const send = (
+    key: string,
+    fields: Record<string, string | File>,
+    credentials?: HeadersInit,
+  ) => {
+    const form = new FormData();
+    for (const [name, value] of Object.entries(fields)) {
+      form.append(name, value);
+    }
+    return call("/api/sign", {
+      method: "POST",
+      headers: { "Idempotency-Key": key },
+      body: form,
+    }, credentials);
+  };
+
+  const fields = { file, signer_email: "jane@example.com" };
+  // Either concurrent request may claim the key; the other gets a 409.
+  const [first, concurrent] = (await Promise.all([
+    send("offer-42", fields),
+    send("offer-42", fields),
+  ])).sort((a, b) => a.status - b.status);
+  assertEquals(first.status, 200);
+  assertEquals(concurrent.status, 409);
+
+  const repeat = await send("offer-42", fields);
+  assertEquals(repeat.status, 200);
+  assertEquals(repeat.headers.get("idempotent-replayed"), "true");
+  assertEquals(repeat.body, first.body);
+
+  const changed = await send("offer-42", {
+    file,
+    signer_email: "sam@example.com",
+  });
+  assertEquals(changed.status, 422);
+
+  // Keys belong to the caller, so another service may reuse one.
+  const other = await send("offer-42", fields, {
+    "X-API-Key": OTHER_SERVICE_KEY,
+  });
+  assertEquals(other.status, 200);
+  assert(other.body.jobId !== first.body.jobId);
+
+  // A rejected request leaves the key free for a corrected one.
+  const rejected = await send("offer-43", { file });
+  assertEquals(rejected.status, 400);
+  const corrected = await send("offer-43", fields);
+  assertEquals(corrected.status, 200);
+
+  // Once the job exists, a failure is replayed instead of creating another.
+  simulator.rejectRecipient("grace@example.com");
+  try {
+    const graceFields = { file, signer_email: "grace@example.com" };
+    const failed = await send("offer-44", graceFields);
+    assertEquals(failed.status, 400);
+    assertExists(failed.body.jobId);
+    const retried = await send("offer-44", graceFields);
+    assertEquals(retried.status, 400);
+    assertEquals(retried.headers.get("idempotent-replayed"), "true");
+    assertEquals(retried.body.jobId, failed.body.jobId);
+  } finally {
+    simulator.rejectRecipient("grace@example.com", false);
+  }
+
+  const invalid = await send("", fields);
+  assertEquals(invalid.status, 400);
+});
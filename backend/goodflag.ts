@@ -1,4 +1,5 @@
 import config from "./config.ts";
+import type { UploadedFile } from "./uploads.ts";
 
 export interface WorkflowRecipientInput {
   email: string;
@@ -12,9 +13,46 @@ export interface WorkflowRecipientInput {
   country?: string;
 }
 
+/** "all" waits for every recipient of the step, "any" for the first one. */
+export type StepCompletionRule = "all" | "any";
+
+/**
+ * "viewer" steps are not Goodflag steps: their recipients become workflow
+ * watchers who receive the finished documents by email.
+ */
+export type WorkflowStepType = "signature" | "approval" | "viewer";
+
+export interface WorkflowStepInput {
+  stepType?: WorkflowStepType;
+  recipients: WorkflowRecipientInput[];
+  completion?: StepCompletionRule;
+}
+
 export interface CreateWorkflowOptions {
   name: string;
-  signer: WorkflowRecipientInput;
+  /** Steps run in order; recipients within a step sign in parallel. */
+  steps: WorkflowStepInput[];
+}
+
+export interface GoodflagWorkflowStepLog {
+  operation?: string;
+  recipientEmail?: string;
+  created?: number;
+}
+
+export interface GoodflagWorkflowRecipient {
+  email?: string;
+  phoneNumber?: string;
+}
+
+export interface GoodflagWorkflowStep {
+  id?: string;
+  stepType?: string;
+  recipients?: GoodflagWorkflowRecipient[];
+  requiredRecipients?: number;
+  isStarted?: boolean;
+  isFinished?: boolean;
+  logs?: GoodflagWorkflowStepLog[];
 }
 
 export interface GoodflagWorkflow {
@@ -23,6 +61,22 @@ export interface GoodflagWorkflow {
   name?: string;
   created?: number;
   updated?: number;
+  steps?: GoodflagWorkflowStep[];
+}
+
+export interface GoodflagUser {
+  id: string;
+  email?: string;
+}
+
+export interface GoodflagSignatureProfile {
+  id: string;
+  name?: string;
+}
+
+export interface GoodflagConsentPage {
+  id: string;
+  name?: string;
 }
 
 export interface DownloadResult {
@@ -31,19 +85,93 @@ export interface DownloadResult {
   contentType: string;
 }
 
-function buildUrl(path: string): string {
-  const base = config.goodflagBaseUrl.endsWith("/")
-    ? config.goodflagBaseUrl
-    : `${config.goodflagBaseUrl}/`;
-  const normalized = path.startsWith("/") ? path.slice(1) : path;
-  return new URL(normalized, base).toString();
+export interface UploadWorkflowDocumentResult {
+  documentId?: string;
 }
 
-function authHeaders(extra?: HeadersInit): HeadersInit {
-  return {
-    Authorization: `Bearer ${config.goodflagApiKey}`,
-    ...(extra ?? {}),
-  };
+export interface SignatureFieldInput {
+  /** 1-based page number; -1 targets the last page. */
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Recipient expected to sign this field; omitted for shared fields. */
+  recipientEmail?: string;
+}
+
+export interface GoodflagClientConfig {
+  baseUrl: string;
+  apiKey: string;
+  userId: string;
+  signatureProfileId: string;
+  consentPageId?: string;
+  defaultLocale: string;
+  /** Invitations Goodflag may send each recipient, reminders included. */
+  maxInvites: number;
+  /** Default per-call timeout; individual calls may override it. */
+  timeoutMs: number;
+  /** Retries for idempotent calls (and for any call rejected with 429). */
+  maxRetries: number;
+  /** Base delay for the jittered exponential backoff between retries. */
+  retryBaseDelayMs: number;
+}
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  /** Overrides `GoodflagClientConfig.maxRetries` for this call. */
+  maxRetries?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Raised for every failed Goodflag call. `status` is undefined when no HTTP
+ * response arrived, in which case `code` is `timeout` or `network_error`.
+ */
+export class GoodflagApiError extends Error {
+  readonly operation: string;
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    operation: string,
+    message: string,
+    details: {
+      status?: number;
+      code?: string;
+      requestId?: string;
+      retryAfterMs?: number;
+      cause?: unknown;
+    } = {},
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "GoodflagApiError";
+    this.operation = operation;
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  get timedOut(): boolean {
+    return this.code === "timeout";
+  }
+}
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+const MAX_RETRY_DELAY_MS = 30_000;
+const DOWNLOAD_TIMEOUT_MS = 60_000;
+
+interface CallOptions extends RequestOptions {
+  operation: string;
+  method?: string;
+  headers?: HeadersInit;
+  /** A function builds a fresh body, such as a stream, for every attempt. */
+  body?: BodyInit | (() => BodyInit);
+  /** Safe to repeat after a 5xx or a timeout. */
+  idempotent: boolean;
 }
 
 function sanitizeRecipient(recipient: WorkflowRecipientInput) {
@@ -69,176 +197,456 @@ function sanitizeRecipient(recipient: WorkflowRecipientInput) {
   return payload;
 }
 
-export async function createWorkflow(
-  options: CreateWorkflowOptions,
-): Promise<GoodflagWorkflow> {
-  const signer = sanitizeRecipient({
-    preferredLocale: config.defaultLocale,
-    ...options.signer,
+function buildWatcher(recipient: WorkflowRecipientInput) {
+  return {
+    email: recipient.email,
+    notifiedEvents: ["workflowFinished"],
+    attachFinishedDocumentsToEmail: true,
+  };
+}
+
+/**
+ * A multipart body with `file` as its `document` part. The bytes are
+ * streamed as they are rather than copied into a `FormData` blob.
+ */
+function documentForm(file: UploadedFile) {
+  const boundary = `----goodflag-${crypto.randomUUID()}`;
+  // Multipart field values escape quotes and line breaks like browsers do.
+  const fileName = (file.name || "document.pdf")
+    .replace(/"/g, "%22")
+    .replace(/\r/g, "%0D")
+    .replace(/\n/g, "%0A");
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    `--${boundary}\r\n` +
+      `Content-Disposition: form-data; name="document"; filename="${fileName}"\r\n` +
+      `Content-Type: ${file.type || "application/pdf"}\r\n\r\n`,
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    body: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(head);
+          controller.enqueue(file.bytes);
+          controller.enqueue(tail);
+          controller.close();
+        },
+      }),
+  };
+}
+
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
   });
-  if (config.goodflagConsentPageId && !signer.consentPageId) {
-    signer.consentPageId = config.goodflagConsentPageId;
+}
+
+async function toApiError(
+  operation: string,
+  response: Response,
+): Promise<GoodflagApiError> {
+  const errorText = await response
+    .text()
+    .catch(() => "Unable to read error response");
+  let code: string | undefined;
+  let message = errorText;
+  let requestId = response.headers.get("x-request-id") ?? undefined;
+  try {
+    const payload = JSON.parse(errorText);
+    code = payload?.code ?? payload?.error;
+    message = payload?.message ?? errorText;
+    requestId = payload?.requestId ?? requestId;
+  } catch (_err) {
+    // plain-text error body
+  }
+  return new GoodflagApiError(
+    operation,
+    `Goodflag ${operation} failed (${response.status}): ${message}`,
+    {
+      status: response.status,
+      code: typeof code === "string" ? code : undefined,
+      requestId,
+      retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+    },
+  );
+}
+
+/**
+ * Goodflag Workflow Manager API client. Every call has a timeout, idempotent
+ * calls are retried on 429/5xx and timeouts with jittered exponential backoff
+ * (honouring `Retry-After`), and failures surface as `GoodflagApiError`.
+ */
+export class GoodflagClient {
+  #config: GoodflagClientConfig;
+
+  constructor(config: GoodflagClientConfig) {
+    this.#config = config;
   }
 
-  const url = buildUrl(`/users/${config.goodflagUserId}/workflows`);
-  const body = {
-    name: options.name,
-    steps: [
+  async createWorkflow(
+    options: CreateWorkflowOptions,
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagWorkflow> {
+    const viewers = options.steps
+      .filter((step) => step.stepType === "viewer")
+      .flatMap((step) => step.recipients);
+    const body = {
+      name: options.name,
+      steps: options.steps
+        .filter((step) => step.stepType !== "viewer")
+        .map((step) => this.#buildStep(step)),
+      ...(viewers.length > 0 ? { watchers: viewers.map(buildWatcher) } : {}),
+    };
+
+    const response = await this.#call(
+      `/users/${this.#config.userId}/workflows`,
       {
-        stepType: "signature",
-        recipients: [signer],
-        maxInvites: 1,
+        ...requestOptions,
+        operation: "workflow creation",
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        idempotent: false,
       },
-    ],
-  };
+    );
+    return (await response.json()) as GoodflagWorkflow;
+  }
 
-  console.debug("createWorkflow payload", JSON.stringify(body, null, 2));
-  const response = await fetch(url, {
-    method: "POST",
-    headers: authHeaders({ "Content-Type": "application/json" }),
-    body: JSON.stringify(body),
-  });
+  async uploadWorkflowDocument(
+    workflowId: string,
+    file: UploadedFile,
+    requestOptions?: RequestOptions,
+  ): Promise<UploadWorkflowDocumentResult> {
+    const { contentType, body } = documentForm(file);
 
-  if (!response.ok) {
-    const errorText = await response
-      .text()
-      .catch(() => "Unable to read error response");
-    throw new Error(
-      `Goodflag workflow creation failed (${response.status}): ${errorText}`,
+    const response = await this.#call(
+      `/workflows/${workflowId}/parts?${new URLSearchParams({
+        createDocuments: "true",
+        signatureProfileId: this.#config.signatureProfileId,
+      })}`,
+      {
+        ...requestOptions,
+        operation: "document upload",
+        method: "POST",
+        headers: { "Content-Type": contentType },
+        body,
+        idempotent: false,
+      },
     );
+
+    let documentId: string | undefined;
+    try {
+      const payload = await response.clone().json();
+      documentId = payload?.documents?.[0]?.id ?? payload?.id;
+    } catch (_err) {
+      // ignore parse errors and continue without document id
+    }
+
+    return { documentId };
   }
 
-  return (await response.json()) as GoodflagWorkflow;
-}
+  async applySignatureFields(
+    documentId: string,
+    fields: SignatureFieldInput[],
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
+    const pdfSignatureFields = fields.map((field) => ({
+      imagePage: field.page,
+      imageX: field.x,
+      imageY: field.y,
+      imageWidth: field.width,
+      imageHeight: field.height,
+      ...(field.recipientEmail ? { recipientEmail: field.recipientEmail } : {}),
+    }));
+    await this.#call(`/documents/${documentId}`, {
+      ...requestOptions,
+      operation: "signature field placement",
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        signatureProfileId: this.#config.signatureProfileId,
+        pdfSignatureFields,
+      }),
+      idempotent: true,
+    });
+  }
 
-export interface UploadWorkflowDocumentResult {
-  documentId?: string;
-}
+  async startWorkflow(
+    workflowId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagWorkflow> {
+    const response = await this.#call(`/workflows/${workflowId}`, {
+      ...requestOptions,
+      operation: "workflow start",
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workflowStatus: "started" }),
+      idempotent: true,
+    });
+    return (await response.json()) as GoodflagWorkflow;
+  }
 
-export async function uploadWorkflowDocument(
-  workflowId: string,
-  file: File,
-): Promise<UploadWorkflowDocumentResult> {
-  const url = new URL(buildUrl(`/workflows/${workflowId}/parts`));
-  url.searchParams.set("createDocuments", "true");
-  url.searchParams.set("signatureProfileId", config.goodflagSignatureProfileId);
-
-  const body = new FormData();
-  body.set("document", file, file.name || "document.pdf");
-
-  const response = await fetch(url.toString(), {
-    method: "POST",
-    headers: authHeaders(),
-    body,
-  });
+  /**
+   * Stops a started workflow so recipients can no longer sign it. Goodflag
+   * only takes the new status; callers keep the reason on their side.
+   */
+  async stopWorkflow(
+    workflowId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagWorkflow> {
+    const response = await this.#call(`/workflows/${workflowId}`, {
+      ...requestOptions,
+      operation: "workflow stop",
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ workflowStatus: "stopped" }),
+      idempotent: true,
+    });
+    return (await response.json()) as GoodflagWorkflow;
+  }
 
-  if (!response.ok) {
-    const errorText = await response
-      .text()
-      .catch(() => "Unable to read error response");
-    throw new Error(
-      `Goodflag document upload failed (${response.status}): ${errorText}`,
-    );
+  /** Sends `recipientEmail` a new invitation to act on their current step. */
+  async sendInvite(
+    workflowId: string,
+    recipientEmail: string,
+    requestOptions?: RequestOptions,
+  ): Promise<void> {
+    await this.#call(`/workflows/${workflowId}/invite`, {
+      ...requestOptions,
+      operation: "invitation",
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ recipientEmail }),
+      idempotent: false,
+    });
   }
 
-  let documentId: string | undefined;
-  try {
-    const payload = await response.clone().json();
-    documentId = payload?.documents?.[0]?.id ?? payload?.id;
-  } catch (_err) {
-    // ignore parse errors and continue without document id
+  /**
+   * Replaces the steps of a running workflow. Goodflag only accepts changes
+   * to recipients who have not acted yet.
+   */
+  async updateWorkflowSteps(
+    workflowId: string,
+    steps: GoodflagWorkflowStep[],
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagWorkflow> {
+    const response = await this.#call(`/workflows/${workflowId}`, {
+      ...requestOptions,
+      operation: "workflow update",
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ steps }),
+      idempotent: true,
+    });
+    return (await response.json()) as GoodflagWorkflow;
   }
 
-  return { documentId };
-}
+  async fetchWorkflow(
+    workflowId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagWorkflow> {
+    const response = await this.#call(`/workflows/${workflowId}`, {
+      ...requestOptions,
+      operation: "workflow fetch",
+      idempotent: true,
+    });
+    return (await response.json()) as GoodflagWorkflow;
+  }
 
-export async function applyDefaultSignatureField(
-  documentId: string,
-): Promise<void> {
-  const url = buildUrl(`/documents/${documentId}`);
-  const field = {
-    imagePage: config.signatureField.page,
-    imageX: config.signatureField.x,
-    imageY: config.signatureField.y,
-    imageWidth: config.signatureField.width,
-    imageHeight: config.signatureField.height,
-  };
-  const response = await fetch(url, {
-    method: "PATCH",
-    headers: authHeaders({ "Content-Type": "application/json" }),
-    body: JSON.stringify({
-      signatureProfileId: config.goodflagSignatureProfileId,
-      pdfSignatureFields: [field],
-    }),
-  });
+  /** The owner user the client acts for; proves the API key may use it. */
+  async fetchUser(requestOptions?: RequestOptions): Promise<GoodflagUser> {
+    const response = await this.#call(`/users/${this.#config.userId}`, {
+      ...requestOptions,
+      operation: "user fetch",
+      idempotent: true,
+    });
+    return (await response.json()) as GoodflagUser;
+  }
 
-  if (!response.ok) {
-    const errorText = await response
-      .text()
-      .catch(() => "Unable to read error response");
-    throw new Error(
-      `Goodflag signature field placement failed (${response.status}): ${errorText}`,
+  async fetchSignatureProfile(
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagSignatureProfile> {
+    const response = await this.#call(
+      `/signatureProfiles/${this.#config.signatureProfileId}`,
+      {
+        ...requestOptions,
+        operation: "signature profile fetch",
+        idempotent: true,
+      },
     );
+    return (await response.json()) as GoodflagSignatureProfile;
   }
-}
 
-export async function startWorkflow(
-  workflowId: string,
-): Promise<GoodflagWorkflow> {
-  const url = buildUrl(`/workflows/${workflowId}`);
-  const response = await fetch(url, {
-    method: "PATCH",
-    headers: authHeaders({ "Content-Type": "application/json" }),
-    body: JSON.stringify({ workflowStatus: "started" }),
-  });
+  async fetchConsentPage(
+    consentPageId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<GoodflagConsentPage> {
+    const response = await this.#call(`/consentPages/${consentPageId}`, {
+      ...requestOptions,
+      operation: "consent page fetch",
+      idempotent: true,
+    });
+    return (await response.json()) as GoodflagConsentPage;
+  }
 
-  if (!response.ok) {
-    const errorText = await response
-      .text()
-      .catch(() => "Unable to read error response");
-    throw new Error(
-      `Goodflag workflow start failed (${response.status}): ${errorText}`,
+  async downloadWorkflowDocuments(
+    workflowId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<DownloadResult> {
+    const response = await this.#call(
+      `/workflows/${workflowId}/downloadDocuments`,
+      {
+        timeoutMs: DOWNLOAD_TIMEOUT_MS,
+        ...requestOptions,
+        operation: "signed document download",
+        idempotent: true,
+      },
     );
+    return await readDownload(response);
   }
 
-  return (await response.json()) as GoodflagWorkflow;
-}
-
-export async function fetchWorkflow(
-  workflowId: string,
-): Promise<GoodflagWorkflow> {
-  const url = buildUrl(`/workflows/${workflowId}`);
-  const response = await fetch(url, {
-    headers: authHeaders(),
-  });
-  if (!response.ok) {
-    const errorText = await response
-      .text()
-      .catch(() => "Unable to read error response");
-    throw new Error(
-      `Goodflag workflow fetch failed (${response.status}): ${errorText}`,
+  /** Goodflag's evidence (audit certificate) for a finished workflow. */
+  async downloadWorkflowEvidence(
+    workflowId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<DownloadResult> {
+    const response = await this.#call(
+      `/workflows/${workflowId}/downloadEvidences`,
+      {
+        timeoutMs: DOWNLOAD_TIMEOUT_MS,
+        ...requestOptions,
+        operation: "evidence download",
+        idempotent: true,
+      },
     );
+    return await readDownload(response);
   }
-  return (await response.json()) as GoodflagWorkflow;
-}
 
-export async function downloadWorkflowDocuments(
-  workflowId: string,
-): Promise<DownloadResult> {
-  const url = buildUrl(`/workflows/${workflowId}/downloadDocuments`);
-  const response = await fetch(url, {
-    headers: authHeaders(),
-  });
+  async downloadDocument(
+    documentId: string,
+    requestOptions?: RequestOptions,
+  ): Promise<DownloadResult> {
+    const response = await this.#call(`/documents/${documentId}/download`, {
+      timeoutMs: DOWNLOAD_TIMEOUT_MS,
+      ...requestOptions,
+      operation: "document download",
+      idempotent: true,
+    });
+    return await readDownload(response);
+  }
 
-  if (!response.ok) {
-    const errorText = await response
-      .text()
-      .catch(() => "Unable to read error response");
-    throw new Error(
-      `Goodflag signed document download failed (${response.status}): ${errorText}`,
+  #buildUrl(path: string): string {
+    const base = this.#config.baseUrl.endsWith("/")
+      ? this.#config.baseUrl
+      : `${this.#config.baseUrl}/`;
+    const normalized = path.startsWith("/") ? path.slice(1) : path;
+    return new URL(normalized, base).toString();
+  }
+
+  #buildRecipient(recipient: WorkflowRecipientInput) {
+    const payload = sanitizeRecipient({
+      preferredLocale: this.#config.defaultLocale,
+      ...recipient,
+    });
+    if (this.#config.consentPageId && !payload.consentPageId) {
+      payload.consentPageId = this.#config.consentPageId;
+    }
+    return payload;
+  }
+
+  #buildStep(step: WorkflowStepInput) {
+    const recipients = step.recipients.map((recipient) =>
+      this.#buildRecipient(recipient)
     );
+    return {
+      stepType: step.stepType ?? "signature",
+      recipients,
+      requiredRecipients: step.completion === "any" ? 1 : recipients.length,
+      maxInvites: this.#config.maxInvites,
+    };
+  }
+
+  async #call(path: string, options: CallOptions): Promise<Response> {
+    const url = this.#buildUrl(path);
+    const timeoutMs = options.timeoutMs ?? this.#config.timeoutMs;
+    const maxRetries = options.maxRetries ?? this.#config.maxRetries;
+    for (let attempt = 0;; attempt++) {
+      const canRetry = attempt < maxRetries;
+      let error: GoodflagApiError;
+      try {
+        const response = await fetch(url, {
+          method: options.method ?? "GET",
+          headers: {
+            Authorization: `Bearer ${this.#config.apiKey}`,
+            ...(options.headers ?? {}),
+          },
+          body: typeof options.body === "function"
+            ? options.body()
+            : options.body,
+          signal: options.signal
+            ? AbortSignal.any([options.signal, AbortSignal.timeout(timeoutMs)])
+            : AbortSignal.timeout(timeoutMs),
+        });
+        if (response.ok) return response;
+        error = await toApiError(options.operation, response);
+        // A 429 means the request was rejected before being processed.
+        const retryable = error.status === 429 ||
+          (options.idempotent && RETRYABLE_STATUSES.includes(error.status!));
+        if (!retryable || !canRetry) throw error;
+      } catch (cause) {
+        if (cause instanceof GoodflagApiError) throw cause;
+        if (options.signal?.aborted) throw cause;
+        const timedOut = cause instanceof DOMException &&
+          cause.name === "TimeoutError";
+        error = new GoodflagApiError(
+          options.operation,
+          timedOut
+            ? `Goodflag ${options.operation} timed out after ${timeoutMs}ms`
+            : `Goodflag ${options.operation} failed: ${cause}`,
+          { code: timedOut ? "timeout" : "network_error", cause },
+        );
+        if (!options.idempotent || !canRetry) throw error;
+      }
+      await sleep(this.#retryDelay(attempt, error), options.signal);
+    }
+  }
+
+  #retryDelay(attempt: number, error: GoodflagApiError): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, MAX_RETRY_DELAY_MS);
+    }
+    const delay = this.#config.retryBaseDelayMs * 2 ** attempt;
+    return Math.min(delay * (0.5 + Math.random()), MAX_RETRY_DELAY_MS);
   }
+}
+
+export function defaultSignatureField(): SignatureFieldInput {
+  return { ...config.signatureField };
+}
 
+async function readDownload(response: Response): Promise<DownloadResult> {
   const arrayBuffer = await response.arrayBuffer();
   const bytes = new Uint8Array(arrayBuffer);
   const contentType = response.headers.get("content-type") ?? "application/pdf";
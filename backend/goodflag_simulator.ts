@@ -0,0 +1,714 @@
+import { encodeHex } from "@std/encoding/hex";
+import { createZip } from "./zip.ts";
+
+/**
+ * In-memory stand-in for the parts of the Goodflag Workflow Manager API used
+ * by `goodflag.ts`. Run it with `deno task simulator` and point
+ * `GOODFLAG_BASE_URL` at it for offline development, or embed it in tests.
+ */
+
+export interface GoodflagSimulatorOptions {
+  /** When set, requests must carry `Authorization: Bearer <apiKey>`. */
+  apiKey?: string;
+  /** Where to POST workflow events; no webhooks are sent when unset. */
+  webhookUrl?: string;
+  /** Signs webhook bodies into `X-Goodflag-Signature` when set. */
+  webhookSecret?: string;
+  /** User IDs that exist; every ID does when unset. */
+  users?: string[];
+  /** Signature profile IDs that exist; every ID does when unset. */
+  signatureProfiles?: string[];
+  /** Consent page IDs that exist; every ID does when unset. */
+  consentPages?: string[];
+}
+
+export type SimulatedOutcome = "finished" | "refused" | "stopped";
+
+interface SimulatedStepLog {
+  operation: string;
+  recipientEmail: string;
+  created: number;
+}
+
+interface SimulatedRecipient {
+  email: string;
+  phoneNumber?: string;
+}
+
+interface SimulatedStep {
+  id: string;
+  stepType: string;
+  recipients: SimulatedRecipient[];
+  requiredRecipients: number;
+  maxInvites: number;
+  isStarted: boolean;
+  isFinished: boolean;
+  logs: SimulatedStepLog[];
+}
+
+interface SimulatedDocument {
+  id: string;
+  workflowId: string;
+  fileName: string;
+  contentType: string;
+  bytes: Uint8Array;
+  signatureProfileId?: string;
+  pdfSignatureFields: unknown[];
+}
+
+export interface SimulatedInvite {
+  stepId: string;
+  recipientEmail: string;
+  created: number;
+}
+
+export interface SimulatedWorkflow {
+  id: string;
+  userId: string;
+  name: string;
+  workflowStatus: string;
+  created: number;
+  updated: number;
+  steps: SimulatedStep[];
+  watchers: unknown[];
+  /** Invitations sent, including the first one when a step starts. */
+  invites: SimulatedInvite[];
+  documentIds: string[];
+}
+
+export interface SimulatedWebhookDelivery {
+  eventType: string;
+  workflowId: string;
+  status?: number;
+  error?: string;
+}
+
+const STEP_OPERATIONS: Record<string, string> = {
+  signature: "sign",
+  approval: "approve",
+};
+
+const WORKFLOW_EVENTS: Record<SimulatedOutcome, string> = {
+  finished: "workflowFinished",
+  refused: "workflowRefused",
+  stopped: "workflowStopped",
+};
+
+const encoder = new TextEncoder();
+
+function json(data: unknown, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "X-Request-Id": crypto.randomUUID(),
+    },
+  });
+}
+
+function apiError(status: number, code: string, message: string): Response {
+  return json({ code, message }, status);
+}
+
+function parseRecipient(raw: unknown): SimulatedRecipient {
+  const recipient = (raw ?? {}) as Record<string, unknown>;
+  return {
+    email: String(recipient.email ?? ""),
+    ...(typeof recipient.phoneNumber === "string"
+      ? { phoneNumber: recipient.phoneNumber }
+      : {}),
+  };
+}
+
+function signedName(fileName: string): string {
+  return fileName.replace(/\.pdf$/i, "") + "-signed.pdf";
+}
+
+function contentDisposition(fileName: string): string {
+  return `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+export class GoodflagSimulator {
+  #options: GoodflagSimulatorOptions;
+  #workflows = new Map<string, SimulatedWorkflow>();
+  #documents = new Map<string, SimulatedDocument>();
+  #deliveries: SimulatedWebhookDelivery[] = [];
+  #rejectedEmails = new Set<string>();
+  #rateLimitedUploads = 0;
+
+  constructor(options: GoodflagSimulatorOptions = {}) {
+    this.#options = options;
+  }
+
+  /** Webhook delivery attempts, oldest first. */
+  get deliveries(): readonly SimulatedWebhookDelivery[] {
+    return this.#deliveries;
+  }
+
+  /**
+   * Makes workflow creation fail with a 400 whenever `email` is a recipient,
+   * the way Goodflag rejects an address it cannot deliver to.
+   */
+  rejectRecipient(email: string, rejected = true) {
+    if (rejected) {
+      this.#rejectedEmails.add(email.toLowerCase());
+    } else {
+      this.#rejectedEmails.delete(email.toLowerCase());
+    }
+  }
+
+  /** Makes the next `count` document uploads fail with a 429. */
+  rateLimitUploads(count: number) {
+    this.#rateLimitedUploads = count;
+  }
+
+  getWorkflow(workflowId: string): SimulatedWorkflow | undefined {
+    return this.#workflows.get(workflowId);
+  }
+
+  /** Returns the signature profile a document was uploaded with. */
+  getSignatureProfileId(documentId: string): string | undefined {
+    return this.#documents.get(documentId)?.signatureProfileId;
+  }
+
+  /** Returns the signature fields last applied to a document. */
+  getSignatureFields(documentId: string): unknown[] | undefined {
+    return this.#documents.get(documentId)?.pdfSignatureFields;
+  }
+
+  /**
+   * Moves a started workflow to a terminal status the way Goodflag would:
+   * `finished` signs every step, `refused` records a refusal from
+   * `recipientEmail` (or the first recipient of the current step), `stopped`
+   * leaves the steps as they are. Sends the matching webhook unless disabled.
+   */
+  async completeWorkflow(
+    workflowId: string,
+    outcome: SimulatedOutcome,
+    options: { recipientEmail?: string; webhook?: boolean } = {},
+  ): Promise<SimulatedWorkflow> {
+    const workflow = this.#workflows.get(workflowId);
+    if (!workflow) {
+      throw new Error(`Unknown simulated workflow: ${workflowId}`);
+    }
+    if (workflow.workflowStatus !== "started") {
+      throw new Error(
+        `Workflow ${workflowId} is ${workflow.workflowStatus}, not started`,
+      );
+    }
+
+    const now = Date.now();
+    if (outcome === "finished") {
+      for (const step of workflow.steps) {
+        step.isStarted = true;
+        step.isFinished = true;
+        const operation = STEP_OPERATIONS[step.stepType] ?? "sign";
+        for (const recipient of step.recipients) {
+          step.logs.push({
+            operation,
+            recipientEmail: recipient.email,
+            created: now,
+          });
+        }
+      }
+    } else if (outcome === "refused") {
+      const step = workflow.steps.find((candidate) => !candidate.isFinished) ??
+        workflow.steps[workflow.steps.length - 1];
+      step.isStarted = true;
+      step.logs.push({
+        operation: "refuse",
+        recipientEmail: options.recipientEmail ?? step.recipients[0].email,
+        created: now,
+      });
+    }
+    workflow.workflowStatus = outcome;
+    workflow.updated = now;
+
+    if (options.webhook ?? true) {
+      await this.sendWebhook(workflowId, WORKFLOW_EVENTS[outcome]);
+    }
+    return workflow;
+  }
+
+  /** POSTs a signed Goodflag-style event to the configured webhook URL. */
+  async sendWebhook(workflowId: string, eventType: string): Promise<void> {
+    if (!this.#options.webhookUrl) return;
+    const body = JSON.stringify({
+      id: `evt_${crypto.randomUUID()}`,
+      eventType,
+      workflowId,
+      created: Date.now(),
+    });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.#options.webhookSecret) {
+      headers["X-Goodflag-Signature"] = `sha256=${await this.#sign(body)}`;
+    }
+
+    const delivery: SimulatedWebhookDelivery = { eventType, workflowId };
+    this.#deliveries.push(delivery);
+    try {
+      const response = await fetch(this.#options.webhookUrl, {
+        method: "POST",
+        headers,
+        body,
+      });
+      await response.body?.cancel();
+      delivery.status = response.status;
+    } catch (error) {
+      delivery.error = String(error);
+      console.error(`Failed to deliver ${eventType} webhook`, error);
+    }
+  }
+
+  handler = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    const parts = url.pathname.split("/").filter(Boolean);
+
+    // Control endpoints: POST /_simulator/workflows/:id/(finish|refuse|stop)
+    if (parts[0] === "_simulator") {
+      return await this.#handleControl(req, parts, url);
+    }
+
+    if (
+      this.#options.apiKey &&
+      req.headers.get("authorization") !== `Bearer ${this.#options.apiKey}`
+    ) {
+      return apiError(401, "unauthorized", "Invalid API key");
+    }
+
+    if (
+      req.method === "POST" &&
+      parts.length === 3 &&
+      parts[0] === "users" &&
+      parts[2] === "workflows"
+    ) {
+      return await this.#createWorkflow(parts[1], req);
+    }
+    if (parts.length === 2 && req.method === "GET") {
+      const lookup = this.#lookup(parts[0], parts[1]);
+      if (lookup) return lookup;
+    }
+    if (parts[0] === "workflows" && parts.length >= 2) {
+      const workflow = this.#workflows.get(parts[1]);
+      if (!workflow) {
+        return apiError(404, "not_found", `Workflow ${parts[1]} not found`);
+      }
+      if (parts.length === 2 && req.method === "GET") {
+        return json(this.#serializeWorkflow(workflow));
+      }
+      if (parts.length === 2 && req.method === "PATCH") {
+        return await this.#patchWorkflow(workflow, req);
+      }
+      if (parts[2] === "invite" && req.method === "POST") {
+        return await this.#invite(workflow, req);
+      }
+      if (parts[2] === "parts" && req.method === "POST") {
+        return await this.#uploadParts(workflow, req, url);
+      }
+      if (parts[2] === "downloadDocuments" && req.method === "GET") {
+        return this.#downloadWorkflowDocuments(workflow);
+      }
+      if (parts[2] === "downloadEvidences" && req.method === "GET") {
+        return this.#downloadEvidence(workflow);
+      }
+    }
+    if (parts[0] === "documents" && parts.length >= 2) {
+      const document = this.#documents.get(parts[1]);
+      if (!document) {
+        return apiError(404, "not_found", `Document ${parts[1]} not found`);
+      }
+      if (parts.length === 2 && req.method === "PATCH") {
+        const body = await req.json();
+        if (Array.isArray(body?.pdfSignatureFields)) {
+          document.pdfSignatureFields = body.pdfSignatureFields;
+        }
+        return json({ id: document.id, workflowId: document.workflowId });
+      }
+      if (parts[2] === "download" && req.method === "GET") {
+        const workflow = this.#workflows.get(document.workflowId);
+        if (workflow?.workflowStatus !== "finished") {
+          return apiError(409, "not_finished", "Workflow is not finished");
+        }
+        return this.#fileResponse(document);
+      }
+    }
+
+    return apiError(
+      404,
+      "not_found",
+      `No route for ${req.method} ${url.pathname}`,
+    );
+  };
+
+  /** Answers reads of the account objects the backend checks at startup. */
+  #lookup(collection: string, id: string): Response | undefined {
+    const collections: Record<string, string[] | undefined> = {
+      users: this.#options.users,
+      signatureProfiles: this.#options.signatureProfiles,
+      consentPages: this.#options.consentPages,
+    };
+    if (!(collection in collections)) return undefined;
+    const known = collections[collection];
+    if (known && !known.includes(id)) {
+      return apiError(404, "not_found", `${collection} ${id} not found`);
+    }
+    return json({ id, name: `Simulated ${id}` });
+  }
+
+  async #createWorkflow(userId: string, req: Request): Promise<Response> {
+    const body = await req.json().catch(() => undefined);
+    if (!body || !Array.isArray(body.steps) || body.steps.length === 0) {
+      return apiError(
+        400,
+        "invalid_workflow",
+        "steps must be a non-empty array",
+      );
+    }
+    const rejected = body.steps
+      .flatMap((step: Record<string, unknown>) =>
+        Array.isArray(step.recipients) ? step.recipients.map(parseRecipient) : []
+      )
+      .find((recipient: SimulatedRecipient) =>
+        this.#rejectedEmails.has(recipient.email.toLowerCase())
+      );
+    if (rejected) {
+      return apiError(
+        400,
+        "invalid_recipient",
+        `Recipient ${rejected.email} is not allowed`,
+      );
+    }
+    const now = Date.now();
+    const workflow: SimulatedWorkflow = {
+      id: `wfl_${crypto.randomUUID()}`,
+      userId,
+      name: typeof body.name === "string" ? body.name : "Workflow",
+      workflowStatus: "draft",
+      created: now,
+      updated: now,
+      steps: body.steps.map(
+        (step: Record<string, unknown>): SimulatedStep => {
+          const recipients = Array.isArray(step.recipients)
+            ? step.recipients.map(parseRecipient)
+            : [];
+          return {
+            id: `stp_${crypto.randomUUID()}`,
+            stepType: String(step.stepType ?? "signature"),
+            recipients,
+            requiredRecipients: Number(
+              step.requiredRecipients ?? recipients.length,
+            ),
+            maxInvites: Number(step.maxInvites ?? 1),
+            isStarted: false,
+            isFinished: false,
+            logs: [],
+          };
+        },
+      ),
+      watchers: Array.isArray(body.watchers) ? body.watchers : [],
+      invites: [],
+      documentIds: [],
+    };
+    this.#workflows.set(workflow.id, workflow);
+    return json(this.#serializeWorkflow(workflow));
+  }
+
+  async #patchWorkflow(
+    workflow: SimulatedWorkflow,
+    req: Request,
+  ): Promise<Response> {
+    const body = await req.json().catch(() => undefined);
+    if (body?.workflowStatus === "started") {
+      if (workflow.workflowStatus !== "draft") {
+        return apiError(
+          409,
+          "invalid_status",
+          `Workflow is ${workflow.workflowStatus}`,
+        );
+      }
+      if (workflow.documentIds.length === 0) {
+        return apiError(400, "no_documents", "Workflow has no documents");
+      }
+      const now = Date.now();
+      const step = workflow.steps[0];
+      workflow.workflowStatus = "started";
+      step.isStarted = true;
+      for (const recipient of step.recipients) {
+        workflow.invites.push({
+          stepId: step.id,
+          recipientEmail: recipient.email,
+          created: now,
+        });
+      }
+      workflow.updated = now;
+    } else if (body?.workflowStatus === "stopped") {
+      if (
+        workflow.workflowStatus === "finished" ||
+        workflow.workflowStatus === "refused"
+      ) {
+        return apiError(
+          409,
+          "invalid_status",
+          `Workflow is ${workflow.workflowStatus}`,
+        );
+      }
+      workflow.workflowStatus = "stopped";
+      workflow.updated = Date.now();
+    }
+    if (Array.isArray(body?.steps)) {
+      const error = this.#updateSteps(workflow, body.steps);
+      if (error) return error;
+    }
+    return json(this.#serializeWorkflow(workflow));
+  }
+
+  /**
+   * Applies new recipient lists to unfinished steps. Recipients who already
+   * signed, approved or refused cannot be removed.
+   */
+  #updateSteps(
+    workflow: SimulatedWorkflow,
+    updates: Array<Record<string, unknown>>,
+  ): Response | undefined {
+    for (const update of updates) {
+      const step = workflow.steps.find((candidate) =>
+        candidate.id === update?.id
+      );
+      if (!step || !Array.isArray(update.recipients)) continue;
+      const recipients = update.recipients.map(parseRecipient);
+      const changed = JSON.stringify(recipients) !==
+        JSON.stringify(step.recipients);
+      if (!changed) continue;
+      if (step.isFinished) {
+        return apiError(409, "step_finished", `Step ${step.id} is finished`);
+      }
+      const acted = step.logs.find((log) =>
+        !recipients.some((recipient) => recipient.email === log.recipientEmail)
+      );
+      if (acted) {
+        return apiError(
+          409,
+          "recipient_acted",
+          `${acted.recipientEmail} already acted on step ${step.id}`,
+        );
+      }
+      step.recipients = recipients;
+    }
+    workflow.updated = Date.now();
+    return undefined;
+  }
+
+  async #invite(
+    workflow: SimulatedWorkflow,
+    req: Request,
+  ): Promise<Response> {
+    const body = await req.json().catch(() => undefined);
+    const recipientEmail = body?.recipientEmail;
+    if (workflow.workflowStatus !== "started") {
+      return apiError(
+        409,
+        "invalid_status",
+        `Workflow is ${workflow.workflowStatus}`,
+      );
+    }
+    const step = workflow.steps.find((candidate) => !candidate.isFinished);
+    const pending = step?.recipients.some((recipient) =>
+      recipient.email === recipientEmail
+    ) && !step.logs.some((log) => log.recipientEmail === recipientEmail);
+    if (!step || !pending) {
+      return apiError(
+        400,
+        "invalid_recipient",
+        `${recipientEmail} has nothing to sign in the current step`,
+      );
+    }
+    const sent = workflow.invites.filter((invite) =>
+      invite.stepId === step.id && invite.recipientEmail === recipientEmail
+    ).length;
+    if (sent >= step.maxInvites) {
+      return apiError(
+        400,
+        "max_invites_reached",
+        `${recipientEmail} was already invited ${sent} times`,
+      );
+    }
+    workflow.invites.push({
+      stepId: step.id,
+      recipientEmail,
+      created: Date.now(),
+    });
+    return json({});
+  }
+
+  async #uploadParts(
+    workflow: SimulatedWorkflow,
+    req: Request,
+    url: URL,
+  ): Promise<Response> {
+    if (this.#rateLimitedUploads > 0) {
+      this.#rateLimitedUploads--;
+      const response = apiError(429, "rate_limited", "Too many requests");
+      response.headers.set("Retry-After", "0");
+      return response;
+    }
+    const formData = await req.formData().catch(() => undefined);
+    const file = formData?.get("document");
+    if (!(file instanceof File)) {
+      return apiError(400, "missing_document", "document part is required");
+    }
+    const document: SimulatedDocument = {
+      id: `doc_${crypto.randomUUID()}`,
+      workflowId: workflow.id,
+      fileName: file.name || "document.pdf",
+      contentType: file.type || "application/pdf",
+      bytes: new Uint8Array(await file.arrayBuffer()),
+      signatureProfileId: url.searchParams.get("signatureProfileId") ??
+        undefined,
+      pdfSignatureFields: [],
+    };
+    this.#documents.set(document.id, document);
+    workflow.documentIds.push(document.id);
+    return json({ documents: [{ id: document.id }] });
+  }
+
+  #downloadWorkflowDocuments(workflow: SimulatedWorkflow): Response {
+    if (workflow.workflowStatus !== "finished") {
+      return apiError(409, "not_finished", "Workflow is not finished");
+    }
+    const documents = workflow.documentIds
+      .map((documentId) => this.#documents.get(documentId))
+      .filter((document) => document !== undefined);
+    if (documents.length === 0) {
+      return apiError(404, "not_found", "Workflow has no documents");
+    }
+    if (documents.length === 1) {
+      return this.#fileResponse(documents[0]);
+    }
+    // Multi-document workflows come back as a ZIP of the signed documents and
+    // the evidence certificate.
+    const archive = createZip([
+      ...documents.map((document) => ({
+        name: signedName(document.fileName),
+        bytes: document.bytes,
+      })),
+      {
+        name: `${workflow.id}-evidence.txt`,
+        bytes: encoder.encode(this.#evidenceText(workflow)),
+      },
+    ]);
+    return new Response(archive as Uint8Array<ArrayBuffer>, {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": contentDisposition(`${workflow.id}.zip`),
+      },
+    });
+  }
+
+  /** A stand-in evidence certificate listing the workflow's step logs. */
+  #downloadEvidence(workflow: SimulatedWorkflow): Response {
+    if (workflow.workflowStatus !== "finished") {
+      return apiError(409, "not_finished", "Workflow is not finished");
+    }
+    return new Response(encoder.encode(this.#evidenceText(workflow)), {
+      headers: {
+        "Content-Type": "text/plain",
+        "Content-Disposition": contentDisposition(`${workflow.id}-evidence.txt`),
+      },
+    });
+  }
+
+  #evidenceText(workflow: SimulatedWorkflow): string {
+    const lines = workflow.steps.flatMap((step) =>
+      step.logs.map((log) =>
+        `${new Date(log.created).toISOString()} ${log.operation} ${log.recipientEmail}`
+      )
+    );
+    return [`Evidence certificate for ${workflow.id}`, ...lines].join("\n");
+  }
+
+  #fileResponse(document: SimulatedDocument): Response {
+    return new Response(document.bytes.slice(), {
+      headers: {
+        "Content-Type": document.contentType,
+        "Content-Disposition": contentDisposition(
+          signedName(document.fileName),
+        ),
+      },
+    });
+  }
+
+  async #handleControl(
+    req: Request,
+    parts: string[],
+    url: URL,
+  ): Promise<Response> {
+    if (
+      req.method === "GET" &&
+      parts.length === 2 &&
+      parts[1] === "workflows"
+    ) {
+      return json(
+        [...this.#workflows.values()].map((workflow) =>
+          this.#serializeWorkflow(workflow)
+        ),
+      );
+    }
+    const outcomes: Record<string, SimulatedOutcome> = {
+      finish: "finished",
+      refuse: "refused",
+      stop: "stopped",
+    };
+    const outcome = outcomes[parts[3]];
+    if (
+      req.method !== "POST" ||
+      parts.length !== 4 ||
+      parts[1] !== "workflows" ||
+      !outcome
+    ) {
+      return apiError(404, "not_found", "Unknown simulator control");
+    }
+    try {
+      const workflow = await this.completeWorkflow(parts[2], outcome, {
+        recipientEmail: url.searchParams.get("recipient") ?? undefined,
+        webhook: url.searchParams.get("webhook") !== "false",
+      });
+      return json(this.#serializeWorkflow(workflow));
+    } catch (error) {
+      return apiError(409, "invalid_transition", (error as Error).message);
+    }
+  }
+
+  #serializeWorkflow(workflow: SimulatedWorkflow) {
+    const { documentIds: _documentIds, invites: _invites, ...rest } = workflow;
+    return structuredClone(rest);
+  }
+
+  async #sign(body: string): Promise<string> {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(this.#options.webhookSecret),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    );
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      key,
+      encoder.encode(body),
+    );
+    return encodeHex(new Uint8Array(signature));
+  }
+}
+
+if (import.meta.main) {
+  const port = Number(Deno.env.get("GOODFLAG_SIMULATOR_PORT") ?? "8900");
+  const simulator = new GoodflagSimulator({
+    apiKey: Deno.env.get("GOODFLAG_SIMULATOR_API_KEY"),
+    webhookUrl: Deno.env.get("GOODFLAG_SIMULATOR_WEBHOOK_URL"),
+    webhookSecret: Deno.env.get("GOODFLAG_WEBHOOK_SECRET"),
+  });
+  console.log(`Starting Goodflag simulator on port ${port}`);
+  Deno.serve({ port }, simulator.handler);
+}
@@ -0,0 +1,340 @@
+import { assert, assertEquals } from "@std/assert";
+
+// goodflag.ts loads the configuration, which needs a tenant to validate.
+const testEnv: Record<string, string> = {
+  GOODFLAG_BASE_URL: "http://127.0.0.1:1/",
+  GOODFLAG_API_KEY: "test-key",
+  GOODFLAG_USER_ID: "usr_test",
+  GOODFLAG_SIGNATURE_PROFILE_ID: "sip_test",
+  JOB_STORE: "memory",
+  BLOB_STORE: "memory",
+};
+for (const [key, value] of Object.entries(testEnv)) {
+  if (!Deno.env.get(key)) Deno.env.set(key, value);
+}
+
+const { GoodflagApiError, GoodflagClient } = await import("./goodflag.ts");
+type GoodflagClientConfig = import("./goodflag.ts").GoodflagClientConfig;
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization: string | null;
+  contentType: string | null;
+  body: string;
+}
+
+/**
+ * Runs `test` against a client talking to a local server whose responses
+ * come from `respond`, called with the 0-based attempt number.
+ */
+async function withServer(
+  respond: (attempt: number) => Response | Promise<Response>,
+  test: (
+    client: InstanceType<typeof GoodflagClient>,
+    requests: RecordedRequest[],
+  ) => Promise<void>,
+  overrides: Partial<GoodflagClientConfig> = {},
+) {
+  const requests: RecordedRequest[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+    async (request) => {
+      const url = new URL(request.url);
+      requests.push({
+        method: request.method,
+        path: `${url.pathname}${url.search}`,
+        authorization: request.headers.get("authorization"),
+        contentType: request.headers.get("content-type"),
+        body: await request.text(),
+      });
+      return await respond(requests.length - 1);
+    },
+  );
+  try {
+    await test(
+      new GoodflagClient({
+        baseUrl: `http://127.0.0.1:${server.addr.port}/api`,
+        apiKey: "test-key",
+        userId: "usr_test",
+        signatureProfileId: "sip_test",
+        defaultLocale: "en",
+        maxInvites: 3,
+        timeoutMs: 1_000,
+        maxRetries: 2,
+        retryBaseDelayMs: 1,
+        ...overrides,
+      }),
+      requests,
+    );
+  } finally {
+    await server.shutdown();
+  }
+}
+
+function json(body: unknown, init: ResponseInit = {}): Response {
+  return Response.json(body, init);
+}
+
+async function failure(run: () => Promise<unknown>) {
+  try {
+    await run();
+  } catch (error) {
+    if (error instanceof GoodflagApiError) return error;
+    throw error;
+  }
+  throw new Error("Expected the call to fail");
+}
+
+Deno.test("creates workflows with watchers for viewer steps", async () => {
+  await withServer(
+    () => json({ id: "wfl_1" }),
+    async (client, requests) => {
+      const workflow = await client.createWorkflow({
+        name: "Offer",
+        steps: [
+          {
+            recipients: [
+              { email: "ada@example.com", firstName: "Ada" },
+              { email: "grace@example.com", preferredLocale: "fr" },
+            ],
+            completion: "any",
+          },
+          {
+            stepType: "approval",
+            recipients: [{ email: "boss@example.com" }],
+          },
+          { stepType: "viewer", recipients: [{ email: "hr@example.com" }] },
+        ],
+      });
+      assertEquals(workflow.id, "wfl_1");
+
+      const [request] = requests;
+      assertEquals(request.method, "POST");
+      assertEquals(request.path, "/api/users/usr_test/workflows");
+      assertEquals(request.authorization, "Bearer test-key");
+      assertEquals(JSON.parse(request.body), {
+        name: "Offer",
+        steps: [
+          {
+            stepType: "signature",
+            recipients: [
+              {
+                email: "ada@example.com",
+                firstName: "Ada",
+                preferredLocale: "en",
+              },
+              { email: "grace@example.com", preferredLocale: "fr" },
+            ],
+            requiredRecipients: 1,
+            maxInvites: 3,
+          },
+          {
+            stepType: "approval",
+            recipients: [
+              { email: "boss@example.com", preferredLocale: "en" },
+            ],
+            requiredRecipients: 1,
+            maxInvites: 3,
+          },
+        ],
+        watchers: [{
+          email: "hr@example.com",
+          notifiedEvents: ["workflowFinished"],
+          attachFinishedDocumentsToEmail: true,
+        }],
+      });
+    },
+  );
+});
+
+Deno.test("turns error responses into GoodflagApiError", async () => {
+  await withServer(
+    () =>
+      json(
+        { code: "invalid_recipient", message: "Bad email", requestId: "r1" },
+        { status: 400 },
+      ),
+    async (client, requests) => {
+      const error = await failure(() => client.fetchWorkflow("wfl_1"));
+      assertEquals(error.operation, "workflow fetch");
+      assertEquals(error.status, 400);
+      assertEquals(error.code, "invalid_recipient");
+      assertEquals(error.requestId, "r1");
+      assertEquals(
+        error.message,
+        "Goodflag workflow fetch failed (400): Bad email",
+      );
+      // Client errors are not retried, even for idempotent calls.
+      assertEquals(requests.length, 1);
+    },
+  );
+
+  await withServer(
+    () =>
+      new Response("No such user", {
+        status: 404,
+        headers: { "x-request-id": "r2" },
+      }),
+    async (client) => {
+      const error = await failure(() => client.fetchUser());
+      assertEquals(error.code, undefined);
+      assertEquals(error.requestId, "r2");
+      assertEquals(
+        error.message,
+        "Goodflag user fetch failed (404): No such user",
+      );
+    },
+  );
+});
+
+Deno.test("retries idempotent calls after server errors", async () => {
+  await withServer(
+    (attempt) =>
+      attempt < 2
+        ? new Response("Unavailable", { status: 503 })
+        : json({ id: "wfl_1", workflowStatus: "started" }),
+    async (client, requests) => {
+      const workflow = await client.fetchWorkflow("wfl_1");
+      assertEquals(workflow.workflowStatus, "started");
+      assertEquals(requests.length, 3);
+    },
+  );
+
+  await withServer(
+    () => new Response("Unavailable", { status: 503 }),
+    async (client, requests) => {
+      const error = await failure(() => client.fetchWorkflow("wfl_1"));
+      assertEquals(error.status, 503);
+      // The first attempt plus `maxRetries`.
+      assertEquals(requests.length, 3);
+    },
+  );
+});
+
+Deno.test("does not repeat calls that are not idempotent", async () => {
+  await withServer(
+    () => new Response("Unavailable", { status: 503 }),
+    async (client, requests) => {
+      const error = await failure(() =>
+        client.sendInvite("wfl_1", "ada@example.com")
+      );
+      assertEquals(error.status, 503);
+      assertEquals(requests.length, 1);
+    },
+  );
+});
+
+Deno.test("retries rate-limited calls after Retry-After", async () => {
+  await withServer(
+    (attempt) =>
+      attempt === 0
+        ? new Response("Slow down", {
+          status: 429,
+          headers: { "retry-after": "0.2" },
+        })
+        : json({ id: "wfl_1" }),
+    async (client, requests) => {
+      const started = Date.now();
+      // Even a workflow creation: Goodflag did not process the first try.
+      const workflow = await client.createWorkflow({
+        name: "Offer",
+        steps: [{ recipients: [{ email: "ada@example.com" }] }],
+      });
+      assertEquals(workflow.id, "wfl_1");
+      assertEquals(requests.length, 2);
+      assert(Date.now() - started >= 190);
+    },
+  );
+
+  await withServer(
+    () =>
+      new Response("Slow down", {
+        status: 429,
+        headers: { "retry-after": "7" },
+      }),
+    async (client, requests) => {
+      const error = await failure(() => client.fetchUser());
+      assertEquals(error.status, 429);
+      assertEquals(error.retryAfterMs, 7_000);
+      assertEquals(requests.length, 1);
+    },
+    { maxRetries: 0 },
+  );
+});
+
+Deno.test("reports timeouts", async () => {
+  await withServer(
+    async () => {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      return json({ id: "usr_test" });
+    },
+    async (client, requests) => {
+      const error = await failure(() => client.fetchUser({ timeoutMs: 50 }));
+      assert(error.timedOut);
+      assertEquals(error.status, undefined);
+      assertEquals(
+        error.message,
+        "Goodflag user fetch timed out after 50ms",
+      );
+      assertEquals(requests.length, 3);
+    },
+  );
+});
+
+Deno.test("reads file names of downloads", async () => {
+  await withServer(
+    () =>
+      new Response(new Uint8Array([37, 80, 68, 70]), {
+        headers: {
+          "content-type": "application/zip",
+          "content-disposition":
+            "attachment; filename*=UTF-8''Offre%20sign%C3%A9e.zip",
+        },
+      }),
+    async (client, requests) => {
+      const download = await client.downloadWorkflowDocuments("wfl_1");
+      assertEquals(download.fileName, "Offre signée.zip");
+      assertEquals(download.contentType, "application/zip");
+      assertEquals([...download.bytes], [37, 80, 68, 70]);
+      assertEquals(requests[0].path, "/api/workflows/wfl_1/downloadDocuments");
+    },
+  );
+});
+
+Deno.test("streams uploaded documents as multipart parts", async () => {
+  const bytes = new TextEncoder().encode("%PDF-1.4 offer");
+  await withServer(
+    (attempt) =>
+      attempt === 0
+        ? new Response("Slow down", {
+          status: 429,
+          headers: { "retry-after": "0" },
+        })
+        : json({ documents: [{ id: "doc_1" }] }),
+    async (client, requests) => {
+      const result = await client.uploadWorkflowDocument("wfl_1", {
+        name: 'Offer "final"\r\n.pdf',
+        type: "application/pdf",
+        bytes,
+      });
+      assertEquals(result.documentId, "doc_1");
+      assertEquals(
+        requests[1].path,
+        "/api/workflows/wfl_1/parts?createDocuments=true&signatureProfileId=sip_test",
+      );
+      // The rate-limited attempt did not use up the body of the retry.
+      for (const request of requests) {
+        const form = await new Response(request.body, {
+          headers: { "content-type": request.contentType ?? "" },
+        }).formData();
+        const document = form.get("document");
+        assert(document instanceof File);
+        assertEquals(document.name, "Offer %22final%22%0D%0A.pdf");
+        assertEquals(document.type, "application/pdf");
+        assertEquals(await document.text(), "%PDF-1.4 offer");
+      }
+      assertEquals(bytes.byteLength, 14);
+    },
+  );
+});
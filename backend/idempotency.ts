@@ -0,0 +1,261 @@
+import { encodeHex } from "@std/encoding/hex";
+import config from "./config.ts";
+import type { UploadForm } from "./uploads.ts";
+
+/** Visible ASCII, as most APIs accepting the header allow. */
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+/**
+ * A request that has not finished after this long is assumed to have died
+ * with its process, and its key may be used again.
+ */
+const IN_FLIGHT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+/** A key sent with `POST /api/sign`, and the response it led to. */
+export interface IdempotencyRecord {
+  /** Keys are scoped to the principal that sent them. */
+  ownerId: string;
+  key: string;
+  /** SHA-256 of the request; see `fingerprintForm`. */
+  fingerprint: string;
+  state: "in_flight" | "completed";
+  status?: number;
+  body?: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface IdempotencyRepository {
+  get(ownerId: string, key: string): Promise<IdempotencyRecord | undefined>;
+  /** Stores `record` unless its key is taken; returns whether it did. */
+  claim(record: IdempotencyRecord): Promise<boolean>;
+  put(record: IdempotencyRecord): Promise<void>;
+  delete(ownerId: string, key: string): Promise<void>;
+}
+
+export class MemoryIdempotencyRepository implements IdempotencyRepository {
+  #records = new Map<string, IdempotencyRecord>();
+
+  get(ownerId: string, key: string): Promise<IdempotencyRecord | undefined> {
+    const record = this.#records.get(JSON.stringify([ownerId, key]));
+    return Promise.resolve(record ? structuredClone(record) : undefined);
+  }
+
+  claim(record: IdempotencyRecord): Promise<boolean> {
+    this.#evictExpired(Date.now());
+    const id = JSON.stringify([record.ownerId, record.key]);
+    if (this.#records.has(id)) return Promise.resolve(false);
+    this.#records.set(id, structuredClone(record));
+    return Promise.resolve(true);
+  }
+
+  put(record: IdempotencyRecord): Promise<void> {
+    this.#records.set(
+      JSON.stringify([record.ownerId, record.key]),
+      structuredClone(record),
+    );
+    return Promise.resolve();
+  }
+
+  delete(ownerId: string, key: string): Promise<void> {
+    this.#records.delete(JSON.stringify([ownerId, key]));
+    return Promise.resolve();
+  }
+
+  #evictExpired(now: number) {
+    for (const [id, record] of this.#records.entries()) {
+      if (record.expiresAt < now) {
+        this.#records.delete(id);
+      }
+    }
+  }
+}
+
+const KEYS_PREFIX = ["idempotency_keys"];
+
+/**
+ * Deno KV backed repository. Records live under
+ * `["idempotency_keys", ownerId, key]` and are dropped by KV once expired.
+ */
+export class KvIdempotencyRepository implements IdempotencyRepository {
+  #kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.#kv = kv;
+  }
+
+  static async open(path?: string): Promise<KvIdempotencyRepository> {
+    return new KvIdempotencyRepository(await Deno.openKv(path));
+  }
+
+  async get(
+    ownerId: string,
+    key: string,
+  ): Promise<IdempotencyRecord | undefined> {
+    const entry = await this.#kv.get<IdempotencyRecord>([
+      ...KEYS_PREFIX,
+      ownerId,
+      key,
+    ]);
+    return entry.value ?? undefined;
+  }
+
+  async claim(record: IdempotencyRecord): Promise<boolean> {
+    const entryKey = [...KEYS_PREFIX, record.ownerId, record.key];
+    const result = await this.#kv.atomic()
+      .check({ key: entryKey, versionstamp: null })
+      .set(entryKey, record, { expireIn: this.#expireIn(record) })
+      .commit();
+    return result.ok;
+  }
+
+  async put(record: IdempotencyRecord): Promise<void> {
+    await this.#kv.set([...KEYS_PREFIX, record.ownerId, record.key], record, {
+      expireIn: this.#expireIn(record),
+    });
+  }
+
+  async delete(ownerId: string, key: string): Promise<void> {
+    await this.#kv.delete([...KEYS_PREFIX, ownerId, key]);
+  }
+
+  #expireIn(record: IdempotencyRecord): number {
+    return Math.max(1, record.expiresAt - Date.now());
+  }
+}
+
+/**
+ * SHA-256 of a multipart request, computed from its fields rather than the
+ * raw body: clients pick a new multipart boundary on every retry. Files count
+ * by name, type and content.
+ */
+export async function fingerprintForm(form: UploadForm): Promise<string> {
+  const entries: Array<[string, unknown]> = [];
+  for (const [name, value] of form.fields.entries()) {
+    entries.push([name, value]);
+  }
+  for (const [name, files] of form.files) {
+    for (const file of files) {
+      const digest = await crypto.subtle.digest("SHA-256", file.bytes);
+      entries.push([name, {
+        name: file.name,
+        type: file.type,
+        sha256: encodeHex(new Uint8Array(digest)),
+      }]);
+    }
+  }
+  // A stable sort keeps repeated fields, such as files, in their order.
+  entries.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(entries)),
+  );
+  return encodeHex(new Uint8Array(digest));
+}
+
+export type IdempotencyOutcome =
+  /** The key is new; the caller runs the request, then completes it. */
+  | { kind: "started" }
+  | { kind: "replay"; status: number; body: unknown }
+  | { kind: "in_flight" }
+  /** The key was used for a different request. */
+  | { kind: "mismatch" };
+
+export interface IdempotencyStoreOptions {
+  /** How long a completed response is replayed. */
+  ttlMs: number;
+}
+
+/**
+ * Lets clients retry `POST /api/sign` without creating a second job: the
+ * first request with a key runs, and repeats get its response back.
+ */
+export class IdempotencyStore {
+  #records: IdempotencyRepository;
+  #options: IdempotencyStoreOptions;
+
+  constructor(
+    records: IdempotencyRepository,
+    options: IdempotencyStoreOptions,
+  ) {
+    this.#records = records;
+    this.#options = options;
+  }
+
+  async begin(
+    ownerId: string,
+    key: string,
+    fingerprint: string,
+  ): Promise<IdempotencyOutcome> {
+    // A second pass only happens when another request claimed the key
+    // between the lookup and the claim.
+    for (let pass = 0; pass < 2; pass++) {
+      const now = Date.now();
+      const existing = await this.#records.get(ownerId, key);
+      if (existing && !this.#isAbandoned(existing, now)) {
+        if (existing.fingerprint !== fingerprint) return { kind: "mismatch" };
+        if (existing.state === "in_flight") return { kind: "in_flight" };
+        return {
+          kind: "replay",
+          status: existing.status ?? 200,
+          body: existing.body,
+        };
+      }
+      if (existing) await this.#records.delete(ownerId, key);
+      const claimed = await this.#records.claim({
+        ownerId,
+        key,
+        fingerprint,
+        state: "in_flight",
+        createdAt: now,
+        expiresAt: now + this.#options.ttlMs,
+      });
+      if (claimed) return { kind: "started" };
+    }
+    return { kind: "in_flight" };
+  }
+
+  /** Keeps the response of a started request, failed or not, for replays. */
+  async complete(
+    ownerId: string,
+    key: string,
+    status: number,
+    body: unknown,
+  ) {
+    const record = await this.#records.get(ownerId, key);
+    if (!record) return;
+    await this.#records.put({ ...record, state: "completed", status, body });
+  }
+
+  /**
+   * Frees the key of a started request that failed before it had any effect,
+   * so it can be retried.
+   */
+  async release(ownerId: string, key: string) {
+    await this.#records.delete(ownerId, key);
+  }
+
+  #isAbandoned(record: IdempotencyRecord, now: number): boolean {
+    return record.expiresAt <= now ||
+      (record.state === "in_flight" &&
+        now - record.createdAt > IN_FLIGHT_TIMEOUT_MS);
+  }
+}
+
+async function createIdempotencyRepository(): Promise<IdempotencyRepository> {
+  // Keys are kept next to the jobs, in the same Deno KV database.
+  switch (config.storage.jobs) {
+    case "kv":
+      return await KvIdempotencyRepository.open(config.storage.kvPath);
+    default:
+      return new MemoryIdempotencyRepository();
+  }
+}
+
+export const idempotencyStore = new IdempotencyStore(
+  await createIdempotencyRepository(),
+  config.idempotency,
+);
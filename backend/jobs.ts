@@ -0,0 +1,624 @@
+import config from "./config.ts";
+import { fieldsFromAnchors, findSignatureAnchors } from "./anchors.ts";
+import {
+  defaultSignatureField,
+  GoodflagApiError,
+  type GoodflagClient,
+  type GoodflagWorkflow,
+  type SignatureFieldInput,
+  type WorkflowStepInput,
+} from "./goodflag.ts";
+import { signerEmails } from "./sign_request.ts";
+import { verifyPdfSignatures } from "./signatures.ts";
+import { tenantDirectory } from "./tenants.ts";
+import {
+  type ExtractedFile,
+  type SignatureFieldSource,
+  type SigningJob,
+  type SigningJobErrorReason,
+  type SigningJobRecipient,
+  type SigningJobDocumentVerification,
+  type SigningJobReminder,
+  type SigningJobStep,
+  signingStore,
+} from "./store.ts";
+import type { UploadedFile } from "./uploads.ts";
+import { isZip, readZip } from "./zip.ts";
+
+const FAILED_WORKFLOW_STATUSES = ["stopped", "refused", "canceled", "failed"];
+const COMPLETED_STEP_OPERATIONS = ["sign", "approve"];
+const REFUSED_STEP_OPERATION = "refuse";
+
+/** Builds the step progress recorded on a job before the workflow starts. */
+export function initialSteps(steps: WorkflowStepInput[]): SigningJobStep[] {
+  return steps.map((step) => ({
+    stepType: step.stepType ?? "signature",
+    completion: step.completion ?? "all",
+    recipients: step.recipients.map((recipient) => recipient.email),
+    completedBy: [],
+    status: "pending",
+  }));
+}
+
+/** Where a document's signature fields come from, and the fields. */
+export interface DocumentPlacement {
+  source: SignatureFieldSource;
+  fields: SignatureFieldInput[];
+}
+
+/**
+ * Places fields on `{{sign:...}}` anchors found in the PDF, falling back to the
+ * configured default box when the document has none or cannot be scanned.
+ */
+export async function detectSignatureFields(
+  file: UploadedFile,
+  steps: WorkflowStepInput[],
+): Promise<DocumentPlacement> {
+  try {
+    const anchors = await findSignatureAnchors(file.bytes);
+    if (anchors.length > 0) {
+      return {
+        source: "anchors",
+        fields: fieldsFromAnchors(anchors, signerEmails(steps), {
+          width: config.signatureField.width,
+          height: config.signatureField.height,
+        }),
+      };
+    }
+  } catch (error) {
+    console.warn(`Unable to scan ${file.name} for signature anchors`, error);
+  }
+  return { source: "default", fields: [defaultSignatureField()] };
+}
+
+export interface LaunchOptions {
+  name: string;
+  steps: WorkflowStepInput[];
+  files: UploadedFile[];
+  /** Field placement of each file, in the same order. */
+  placements: DocumentPlacement[];
+  /** Principal recorded as having started the workflow. */
+  startedBy: string;
+  /**
+   * Leaves the job pending when Goodflag rate limits a call, for callers
+   * that launch the stored job again later.
+   */
+  resumeOnRateLimit?: boolean;
+}
+
+/** Placements the caller asked for; failing to apply them fails the job. */
+const REQUESTED_FIELD_SOURCES: SignatureFieldSource[] = ["request", "template"];
+
+/**
+ * Creates the Goodflag workflow of a new job, uploads its files, places their
+ * signature fields and starts it. Detected placements are best effort. On
+ * failure the job is marked failed and the error is rethrown. A job launched
+ * before picks up after the workflow, documents and fields it already has.
+ */
+export async function launchJob(
+  job: SigningJob,
+  client: GoodflagClient,
+  options: LaunchOptions,
+): Promise<{ workflowId: string; workflowStatus: string }> {
+  try {
+    let workflowId = job.workflowId;
+    let workflowStatus = job.workflowStatus;
+    if (!workflowId) {
+      const workflow = await client.createWorkflow({
+        name: options.name,
+        steps: options.steps,
+      });
+      await signingStore.setWorkflow(
+        job.id,
+        workflow.id,
+        workflow.workflowStatus,
+      );
+      workflowId = workflow.id;
+      workflowStatus = workflow.workflowStatus;
+    }
+    for (const [index, file] of options.files.entries()) {
+      const placement = options.placements[index];
+      const required = REQUESTED_FIELD_SOURCES.includes(placement.source);
+      let documentId = job.documents[index]?.documentId;
+      if (!documentId) {
+        const uploadResult = await client.uploadWorkflowDocument(
+          workflowId,
+          file,
+        );
+        if (!uploadResult.documentId) {
+          if (required && placement.fields.length > 0) {
+            throw new Error(
+              `Goodflag returned no document ID for ${file.name}; cannot place signature fields`,
+            );
+          }
+          continue;
+        }
+        documentId = uploadResult.documentId;
+        await signingStore.setDocumentId(job.id, index, documentId);
+      }
+      if (
+        placement.fields.length === 0 || job.documents[index]?.fieldSource
+      ) {
+        continue;
+      }
+      try {
+        await client.applySignatureFields(documentId, placement.fields);
+        await signingStore.setDocumentFields(
+          job.id,
+          index,
+          placement.source,
+          placement.fields,
+        );
+      } catch (signatureError) {
+        if (required) throw signatureError;
+        console.warn(
+          `Unable to place ${placement.source} signature fields on document ${documentId}`,
+          signatureError,
+        );
+      }
+    }
+    const startedWorkflow = await client.startWorkflow(workflowId);
+    if (startedWorkflow.workflowStatus) {
+      await signingStore.setWorkflowStatus(
+        job.id,
+        startedWorkflow.workflowStatus,
+        options.startedBy,
+      );
+    }
+    return {
+      workflowId,
+      workflowStatus: startedWorkflow.workflowStatus ?? workflowStatus ??
+        "started",
+    };
+  } catch (error) {
+    if (
+      options.resumeOnRateLimit && error instanceof GoodflagApiError &&
+      error.status === 429
+    ) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await signingStore.failJob(job.id, message, "goodflag_error");
+    throw error;
+  }
+}
+
+/**
+ * Merges the step state reported by Goodflag into the job's steps. Steps are
+ * matched by position since Goodflag keeps them in the order they were sent;
+ * viewer steps have no Goodflag counterpart and finish with the workflow.
+ */
+export function mergeStepProgress(
+  steps: SigningJobStep[],
+  workflow: GoodflagWorkflow,
+): SigningJobStep[] {
+  const workflowSteps = workflow.steps ?? [];
+  const workflowFinished =
+    workflow.workflowStatus?.toLowerCase() === "finished";
+  let remoteIndex = 0;
+  return steps.map((step) => {
+    if (step.stepType === "viewer") {
+      return { ...step, status: workflowFinished ? "finished" : "pending" };
+    }
+    const remote = workflowSteps[remoteIndex++];
+    if (!remote) return step;
+    const completedBy = new Set(step.completedBy);
+    let refusedBy = step.refusedBy;
+    for (const log of remote.logs ?? []) {
+      const operation = log.operation?.toLowerCase();
+      if (!log.recipientEmail || !operation) continue;
+      if (COMPLETED_STEP_OPERATIONS.includes(operation)) {
+        completedBy.add(log.recipientEmail);
+      } else if (operation === REFUSED_STEP_OPERATION) {
+        refusedBy = log.recipientEmail;
+      }
+    }
+    const status = remote.isFinished
+      ? "finished"
+      : remote.isStarted
+      ? "in_progress"
+      : "pending";
+    return {
+      ...step,
+      completedBy: [...completedBy],
+      ...(refusedBy ? { refusedBy } : {}),
+      status,
+    };
+  });
+}
+
+function describeFailure(
+  job: SigningJob,
+  workflowStatus: string,
+): { message: string; reason: SigningJobErrorReason } {
+  const normalizedStatus = workflowStatus.toLowerCase();
+  if (normalizedStatus === "refused") {
+    const refusedStep = job.steps?.find((step) => step.refusedBy);
+    if (refusedStep?.stepType === "approval") {
+      return {
+        message: `Approval refused by ${refusedStep.refusedBy}`,
+        reason: "approval_refused",
+      };
+    }
+    return {
+      message: refusedStep
+        ? `Signature refused by ${refusedStep.refusedBy}`
+        : `Workflow ${workflowStatus}`,
+      reason: "signature_refused",
+    };
+  }
+  return {
+    message: `Workflow ${workflowStatus}`,
+    reason: normalizedStatus === "stopped" || normalizedStatus === "canceled"
+      ? "workflow_stopped"
+      : "workflow_failed",
+  };
+}
+
+/** Completions running in this process, so concurrent callers share one. */
+const completions = new Map<string, Promise<void>>();
+
+/**
+ * Applies a Goodflag workflow status to a pending job: downloads the signed
+ * document once the workflow is finished and fails the job on terminal states.
+ * Used by both status polling and the webhook receiver.
+ */
+export async function applyWorkflowStatus(
+  job: SigningJob,
+  workflowStatus: string,
+): Promise<SigningJob> {
+  if (job.status !== "pending") {
+    return job;
+  }
+
+  await signingStore.setWorkflowStatus(job.id, workflowStatus);
+  job = (await signingStore.getJob(job.id)) ?? job;
+
+  const normalizedStatus = workflowStatus.toLowerCase();
+  if (normalizedStatus === "finished" && job.workflowId) {
+    // A webhook and a reconciler tick may both see the workflow finish.
+    let completion = completions.get(job.id);
+    if (!completion) {
+      const { id } = job;
+      completion = completeFinishedJob(job, job.workflowId).finally(() =>
+        completions.delete(id)
+      );
+      completions.set(id, completion);
+    }
+    await completion;
+  } else if (FAILED_WORKFLOW_STATUSES.includes(normalizedStatus)) {
+    const failure = describeFailure(job, workflowStatus);
+    await signingStore.failJob(job.id, failure.message, failure.reason);
+  }
+
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/**
+ * Downloads the signed documents of a finished workflow and completes the
+ * job, then verifies them and fetches the evidence. Another process may
+ * complete the job first, or it may be canceled meanwhile; the follow-up
+ * work is then left to whoever completed it.
+ */
+async function completeFinishedJob(
+  job: SigningJob,
+  workflowId: string,
+): Promise<void> {
+  const client = await tenantDirectory.clientForJob(job);
+  const signed = await client.downloadWorkflowDocuments(workflowId);
+  const documents = [];
+  if (job.documents.length > 1) {
+    for (const document of job.documents) {
+      if (!document.documentId) break;
+      documents.push(await client.downloadDocument(document.documentId));
+    }
+  }
+  const completed = await signingStore.completeJob(
+    job.id,
+    {
+      bytes: signed.bytes,
+      fileName: signed.fileName,
+      contentType: signed.contentType,
+    },
+    documents,
+    await extractArchive(job, signed.bytes),
+  );
+  if (!completed) return;
+  try {
+    await verifyJob((await signingStore.getJob(job.id)) ?? job);
+  } catch (error) {
+    // The download is kept either way; POST /api/verify checks it again.
+    console.error(`Failed to verify the signatures of job ${job.id}`, error);
+  }
+  try {
+    await fetchEvidence((await signingStore.getJob(job.id)) ?? job);
+  } catch (error) {
+    // The evidence endpoint fetches it again on demand.
+    console.error(
+      `Failed to fetch evidence for workflow ${workflowId}`,
+      error,
+    );
+  }
+}
+
+/**
+ * Lists the files of a ZIP download. An archive that cannot be read is still
+ * served whole, so extraction problems are only logged.
+ */
+async function extractArchive(
+  job: SigningJob,
+  bytes: Uint8Array,
+): Promise<ExtractedFile[]> {
+  if (!isZip(bytes)) return [];
+  try {
+    return await readZip(bytes);
+  } catch (error) {
+    console.error(`Unable to unpack the signed archive of job ${job.id}`, error);
+    return [];
+  }
+}
+
+/**
+ * Checks the signatures of a completed job's signed PDFs and records the
+ * summary on the job. Multi-document jobs check each document's download,
+ * ZIP downloads the PDFs they contain, other jobs the download itself.
+ */
+export async function verifyJob(job: SigningJob): Promise<SigningJob> {
+  const signed: Array<{ fileName: string; bytes?: Uint8Array }> = [];
+  if (job.documents.some((document) => document.signedDocumentKey)) {
+    for (const [index, document] of job.documents.entries()) {
+      if (!document.signedDocumentKey) continue;
+      signed.push({
+        fileName: document.signedFileName ?? document.fileName,
+        bytes: await signingStore.getSignedDocumentPart(job, index),
+      });
+    }
+  } else if (job.files?.length) {
+    for (const [index, file] of job.files.entries()) {
+      if (file.kind !== "signed_document") continue;
+      signed.push({
+        fileName: file.name,
+        bytes: await signingStore.getFile(job, index),
+      });
+    }
+  } else {
+    signed.push({
+      fileName: job.signedFileName ?? job.fileName,
+      bytes: await signingStore.getSignedDocument(job),
+    });
+  }
+
+  const documents: SigningJobDocumentVerification[] = [];
+  for (const { fileName, bytes } of signed) {
+    // An archive that could not be unpacked holds no PDF to check.
+    if (!bytes || isZip(bytes)) continue;
+    documents.push({ fileName, ...(await verifyPdfSignatures(bytes)) });
+  }
+  await signingStore.setVerification(job.id, {
+    verifiedAt: Date.now(),
+    valid: documents.length > 0 &&
+      documents.every((document) => document.valid),
+    documents,
+  });
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/** Downloads Goodflag's evidence for a finished workflow and stores it. */
+export async function fetchEvidence(job: SigningJob): Promise<SigningJob> {
+  if (!job.workflowId) return job;
+  const client = await tenantDirectory.clientForJob(job);
+  const evidence = await client.downloadWorkflowEvidence(job.workflowId);
+  await signingStore.storeEvidence(job.id, {
+    bytes: evidence.bytes,
+    fileName: evidence.fileName,
+    contentType: evidence.contentType,
+  });
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/** Fetches the job's workflow from Goodflag and records its latest state. */
+export async function refreshJob(job: SigningJob): Promise<SigningJob> {
+  if (job.status !== "pending" || !job.workflowId) {
+    return job;
+  }
+
+  const client = await tenantDirectory.clientForJob(job);
+  const workflow = await client.fetchWorkflow(job.workflowId);
+  if (job.steps) {
+    await signingStore.setSteps(job.id, mergeStepProgress(job.steps, workflow));
+  }
+  if (workflow.workflowStatus) {
+    return await applyWorkflowStatus(job, workflow.workflowStatus);
+  }
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/**
+ * Stops the job's Goodflag workflow and marks the job as canceled. If Goodflag
+ * refuses because the workflow already settled, the job is refreshed instead
+ * so it reflects that outcome.
+ */
+export async function cancelJob(
+  job: SigningJob,
+  principalId: string,
+  reason?: string,
+): Promise<SigningJob> {
+  if (job.status !== "pending" || !job.workflowId) {
+    return job;
+  }
+
+  const client = await tenantDirectory.clientForJob(job);
+  try {
+    await client.stopWorkflow(job.workflowId);
+  } catch (error) {
+    const refreshed = await refreshJob(job).catch(() => job);
+    if (refreshed.status !== "pending") return refreshed;
+    throw error;
+  }
+  await signingStore.cancelJob(job.id, principalId, reason);
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/**
+ * Stops the workflow of a job that stayed pending for too long and marks the
+ * job as expired, so recipients can no longer sign a document reported as
+ * expired. If Goodflag refuses because the workflow already settled, the job
+ * is refreshed instead so it reflects that outcome.
+ */
+export async function expireJob(
+  job: SigningJob,
+  message: string,
+): Promise<SigningJob> {
+  if (job.status !== "pending") {
+    return job;
+  }
+
+  // Without a workflow there is nothing Goodflag could still collect.
+  if (job.workflowId) {
+    const client = await tenantDirectory.clientForJob(job);
+    try {
+      await client.stopWorkflow(job.workflowId);
+    } catch (error) {
+      const refreshed = await refreshJob(job).catch(() => job);
+      if (refreshed.status !== "pending") return refreshed;
+      throw error;
+    }
+  }
+  await signingStore.expireJob(job.id, message);
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/**
+ * The step recipients are currently expected to act on, and those of its
+ * recipients who have not yet. Viewers are never waited for.
+ */
+export function pendingRecipients(
+  job: SigningJob,
+): { stepIndex: number; recipients: string[] } | undefined {
+  const stepIndex = job.steps?.findIndex((step) =>
+    step.stepType !== "viewer" && step.status !== "finished"
+  ) ?? -1;
+  if (stepIndex < 0) return undefined;
+  const step = job.steps![stepIndex];
+  const completedBy = new Set(
+    step.completedBy.map((email) => email.toLowerCase()),
+  );
+  return {
+    stepIndex,
+    recipients: step.recipients.filter((email) =>
+      !completedBy.has(email.toLowerCase())
+    ),
+  };
+}
+
+/**
+ * Sends a new invitation to each pending recipient (or only to `recipients`)
+ * and records the reminder on the job.
+ */
+export async function sendReminders(
+  job: SigningJob,
+  options: Pick<SigningJobReminder, "trigger" | "requestedBy"> & {
+    recipients?: string[];
+  },
+): Promise<SigningJob> {
+  const recipients = options.recipients ??
+    pendingRecipients(job)?.recipients ?? [];
+  if (job.status !== "pending" || !job.workflowId || recipients.length === 0) {
+    return job;
+  }
+
+  const client = await tenantDirectory.clientForJob(job);
+  for (const recipient of recipients) {
+    await client.sendInvite(job.workflowId, recipient);
+  }
+  await signingStore.recordReminder(job.id, {
+    sentAt: Date.now(),
+    trigger: options.trigger,
+    recipients,
+    ...(options.requestedBy ? { requestedBy: options.requestedBy } : {}),
+  });
+  return (await signingStore.getJob(job.id)) ?? job;
+}
+
+/**
+ * Replaces a recipient who has not acted yet on the running workflow, moves
+ * the signature fields assigned to them and records the change on the job.
+ * `stepIndex` indexes `job.steps`, which unlike Goodflag includes viewers.
+ */
+export async function replaceRecipient(
+  job: SigningJob,
+  stepIndex: number,
+  previousEmail: string,
+  replacement: Partial<SigningJobRecipient>,
+  principalId: string,
+): Promise<SigningJob> {
+  if (job.status !== "pending" || !job.workflowId || !job.steps) {
+    return job;
+  }
+
+  const isPrevious = (email?: string) =>
+    email?.toLowerCase() === previousEmail.toLowerCase();
+  const client = await tenantDirectory.clientForJob(job);
+  const workflow = await client.fetchWorkflow(job.workflowId);
+  const remoteIndex = job.steps
+    .slice(0, stepIndex)
+    .filter((step) => step.stepType !== "viewer").length;
+  const current = workflow.steps?.[remoteIndex]?.recipients?.find(
+    (recipient) => isPrevious(recipient.email),
+  );
+  if (!current?.email) {
+    throw new Error(
+      `Recipient ${previousEmail} is not part of workflow ${job.workflowId}`,
+    );
+  }
+
+  const previous: SigningJobRecipient = {
+    email: current.email,
+    ...(current.phoneNumber ? { phoneNumber: current.phoneNumber } : {}),
+  };
+  const phoneNumber = replacement.phoneNumber ?? previous.phoneNumber;
+  const next: SigningJobRecipient = {
+    email: replacement.email ?? previous.email,
+    ...(phoneNumber ? { phoneNumber } : {}),
+  };
+  const steps = workflow.steps!.map((step, index) =>
+    index === remoteIndex
+      ? {
+        ...step,
+        recipients: step.recipients?.map((recipient) =>
+          recipient === current ? { ...recipient, ...next } : recipient
+        ),
+      }
+      : step
+  );
+  await client.updateWorkflowSteps(job.workflowId, steps);
+
+  if (next.email !== previous.email) {
+    for (const document of job.documents) {
+      const fields = document.signatureFields ?? [];
+      if (
+        !document.documentId ||
+        !fields.some((field) => isPrevious(field.recipientEmail))
+      ) {
+        continue;
+      }
+      await client.applySignatureFields(
+        document.documentId,
+        fields.map((field) =>
+          isPrevious(field.recipientEmail)
+            ? { ...field, recipientEmail: next.email }
+            : field
+        ),
+      );
+    }
+  }
+
+  await signingStore.replaceRecipient(job.id, {
+    changedAt: Date.now(),
+    changedBy: principalId,
+    stepIndex,
+    previous,
+    replacement: next,
+  });
+  return (await signingStore.getJob(job.id)) ?? job;
+}
@@ -1,18 +1,100 @@
 import config from "./config.ts";
+import { AuthError, authenticator, type Principal } from "./auth.ts";
 import {
-  applyDefaultSignatureField,
-  createWorkflow,
-  downloadWorkflowDocuments,
-  fetchWorkflow,
-  startWorkflow,
-  uploadWorkflowDocument,
+  bulkSender,
+  parseBatchRetryRequest,
+  parseSignerList,
+  type SigningBatch,
+} from "./bulk.ts";
+import { type CallbackDelivery, callbackDispatcher } from "./callbacks.ts";
+import {
+  GoodflagApiError,
+  type WorkflowRecipientInput,
+  type WorkflowStepInput,
 } from "./goodflag.ts";
-import { signingStore } from "./store.ts";
+import {
+  fingerprintForm,
+  idempotencyStore,
+  isValidIdempotencyKey,
+} from "./idempotency.ts";
+import {
+  applyWorkflowStatus,
+  cancelJob,
+  detectSignatureFields,
+  type DocumentPlacement,
+  fetchEvidence,
+  initialSteps,
+  launchJob,
+  pendingRecipients,
+  refreshJob,
+  replaceRecipient,
+  sendReminders,
+} from "./jobs.ts";
+import { readinessProbe } from "./readiness.ts";
+import { workflowReconciler } from "./reconciler.ts";
+import {
+  encodeJobCursor,
+  parseCallbackUrl,
+  parseFieldsField,
+  parseJobListQuery,
+  parseRecipientReplacement,
+  parseReminderRequest,
+  parseReminderSchedule,
+  parseStepsField,
+  readJsonBody,
+  type SignatureFieldRequest,
+  signerEmails,
+  SignRequestError,
+} from "./sign_request.ts";
+import { verifyPdfSignatures } from "./signatures.ts";
+import {
+  type SignatureFieldSource,
+  type SigningJob,
+  signingStore,
+} from "./store.ts";
+import {
+  type ResolvedTenant,
+  tenantDirectory,
+  TenantError,
+} from "./tenants.ts";
+import {
+  type AppliedTemplate,
+  applyTemplate,
+  parseTemplateDefinition,
+  parseTemplateRoles,
+  templateRoles,
+  templateStore,
+  type WorkflowTemplate,
+  type WorkflowTemplateDefinition,
+} from "./templates.ts";
+import {
+  checkFieldPages,
+  inspectPdf,
+  type PdfInfo,
+  readUploadForm,
+  type UploadedFile,
+  UploadError,
+  type UploadForm,
+} from "./uploads.ts";
+import {
+  parseWebhookEvent,
+  verifyWebhookSignature,
+  WebhookReplayGuard,
+  workflowStatusForEvent,
+} from "./webhooks.ts";
+
+const MAX_DOCUMENTS_PER_JOB = 20;
+const MAX_CANCEL_REASON_LENGTH = 500;
+const SSE_HEARTBEAT_MS = 15_000;
+const SSE_RETRY_MS = 3_000;
+
+const webhookReplayGuard = new WebhookReplayGuard(config.webhookToleranceMs);
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": config.frontendOrigin,
-  "Access-Control-Allow-Headers": "Content-Type, X-Goodflag-Signature",
-  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Authorization, Content-Type, Idempotency-Key, X-API-Key, X-Goodflag-Signature",
+  "Access-Control-Allow-Methods": "GET,POST,PUT,DELETE,OPTIONS",
 };
 
 function withCors(response: Response): Response {
@@ -38,13 +120,122 @@ function jsonResponse(data: unknown, init?: ResponseInit): Response {
   return new Response(JSON.stringify(data), { ...base, headers });
 }
 
+/**
+ * Builds an attachment `Content-Disposition` for `fileName`: an ASCII
+ * `filename` with quotes and control characters replaced, plus the exact name
+ * as `filename*` (RFC 6266) for clients that read it.
+ */
+function attachmentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
 function getTextValue(value: FormDataEntryValue | null): string | undefined {
   if (typeof value !== "string") return undefined;
   const trimmed = value.trim();
   return trimmed.length > 0 ? trimmed : undefined;
 }
 
-async function handleSign(req: Request): Promise<Response> {
+function serializeDocuments(job: SigningJob) {
+  // Per-document downloads only exist for multi-document jobs; a single
+  // document is served by the job's main download URL.
+  const perDocument = job.documents.length > 1;
+  return job.documents.map((document, index) => ({
+    index,
+    fileName: document.fileName,
+    documentId: document.documentId ?? null,
+    signedFileName: document.signedFileName ?? null,
+    fieldSource: document.fieldSource ?? null,
+    signatureFields: document.signatureFields ?? [],
+    downloadUrl: perDocument && document.signedDocumentKey
+      ? `/api/sign/${job.id}/file?document=${index}`
+      : null,
+  }));
+}
+
+/**
+ * Loads a job on behalf of `principal`. Jobs owned by someone else are
+ * reported as missing so job IDs cannot be probed; admins see every job.
+ */
+async function getOwnedJob(
+  jobId: string,
+  principal: Principal,
+): Promise<SigningJob | undefined> {
+  const job = await signingStore.getJob(jobId);
+  return job && (principal.admin || job.ownerId === principal.id)
+    ? job
+    : undefined;
+}
+
+function uploadErrorResponse(error: UploadError): Response {
+  return jsonResponse(
+    { error: error.message, code: error.code },
+    { status: error.status },
+  );
+}
+
+/** Reads a multipart body within `MAX_REQUEST_MB`. */
+async function readForm(req: Request): Promise<UploadForm | Response> {
+  try {
+    return await readUploadForm(req, config.uploads.maxRequestBytes);
+  } catch (error) {
+    if (error instanceof UploadError) return uploadErrorResponse(error);
+    throw error;
+  }
+}
+
+/**
+ * Reads the optional `callback_url` field. Callbacks are signed, so they are
+ * refused while no CALLBACK_SECRET is configured.
+ */
+function readCallbackUrl(fields: FormData): string | undefined | Response {
+  const value = getTextValue(fields.get("callback_url"));
+  if (!value) return undefined;
+  if (!config.callbacks.secret) {
+    return jsonResponse(
+      { error: "Callbacks are not enabled; set CALLBACK_SECRET" },
+      { status: 400 },
+    );
+  }
+  try {
+    return parseCallbackUrl(value, config.callbacks.allowedHosts);
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+/** Validates every uploaded PDF and returns their page counts. */
+async function inspectPdfs(
+  files: UploadedFile[],
+): Promise<PdfInfo[] | Response> {
+  const pdfs: PdfInfo[] = [];
+  for (const file of files) {
+    try {
+      pdfs.push(await inspectPdf(file, config.uploads.maxFileBytes));
+    } catch (error) {
+      if (error instanceof UploadError) return uploadErrorResponse(error);
+      throw error;
+    }
+  }
+  return pdfs;
+}
+
+/**
+ * With an `Idempotency-Key` header, a repeat of a request that succeeded
+ * gets the original response instead of creating another job. Failed
+ * requests release their key so they can be retried.
+ */
+async function handleSign(
+  req: Request,
+  principal: Principal,
+): Promise<Response> {
   const contentType = req.headers.get("content-type") ?? "";
   if (!contentType.includes("multipart/form-data")) {
     return jsonResponse(
@@ -52,151 +243,1041 @@ async function handleSign(req: Request): Promise<Response> {
       { status: 400 },
     );
   }
+  const idempotencyKey = req.headers.get("idempotency-key");
+  if (idempotencyKey !== null && !isValidIdempotencyKey(idempotencyKey)) {
+    return jsonResponse(
+      { error: "Idempotency-Key must be 1 to 255 visible ASCII characters" },
+      { status: 400 },
+    );
+  }
 
-  const formData = await req.formData();
-  const file = formData.get("file");
+  const form = await readForm(req);
+  if (form instanceof Response) return form;
+  if (idempotencyKey === null) return await signForm(form, principal);
 
-  if (!(file instanceof File)) {
+  const outcome = await idempotencyStore.begin(
+    principal.id,
+    idempotencyKey,
+    await fingerprintForm(form),
+  );
+  switch (outcome.kind) {
+    case "replay":
+      return jsonResponse(outcome.body, {
+        status: outcome.status,
+        headers: { "Idempotent-Replayed": "true" },
+      });
+    case "in_flight":
+      return jsonResponse(
+        { error: "A request with this Idempotency-Key is still in progress" },
+        { status: 409 },
+      );
+    case "mismatch":
+      return jsonResponse(
+        { error: "Idempotency-Key was already used for a different request" },
+        { status: 422 },
+      );
+  }
+
+  // Once a job exists, Goodflag may hold a workflow for it, so even a failed
+  // request keeps its key: a retry would create a second one.
+  const progress: SignProgress = {};
+  let response: Response | undefined;
+  try {
+    response = await signForm(form, principal, progress);
+  } finally {
+    if (response && (response.ok || progress.jobId)) {
+      await idempotencyStore.complete(
+        principal.id,
+        idempotencyKey,
+        response.status,
+        await response.clone().json(),
+      );
+    } else if (progress.jobId) {
+      await idempotencyStore.complete(principal.id, idempotencyKey, 500, {
+        error: "Failed to create Goodflag workflow",
+        jobId: progress.jobId,
+      });
+    } else {
+      await idempotencyStore.release(principal.id, idempotencyKey);
+    }
+  }
+  return response;
+}
+
+/** How far `signForm` got, for requests that fail part way. */
+interface SignProgress {
+  /** Set once the job was created. */
+  jobId?: string;
+}
+
+async function signForm(
+  form: UploadForm,
+  principal: Principal,
+  progress: SignProgress = {},
+): Promise<Response> {
+  const files = form.files.get("file") ?? [];
+
+  if (files.length === 0) {
     return jsonResponse({ error: "File field is required" }, { status: 400 });
   }
 
-  if (
-    file.type &&
-    file.type !== "application/pdf" &&
-    !file.name.toLowerCase().endsWith(".pdf")
-  ) {
+  if (files.length > MAX_DOCUMENTS_PER_JOB) {
     return jsonResponse(
-      { error: "Only PDF files are supported" },
+      { error: `At most ${MAX_DOCUMENTS_PER_JOB} files can be signed per job` },
       { status: 400 },
     );
   }
 
-  const signerEmail = getTextValue(formData.get("signer_email"));
-  if (!signerEmail) {
-    return jsonResponse({ error: "Signer email is required" }, { status: 400 });
+  // Everything Goodflag would refuse is caught before a workflow exists.
+  const pdfs = await inspectPdfs(files);
+  if (pdfs instanceof Response) return pdfs;
+  const callbackUrl = readCallbackUrl(form.fields);
+  if (callbackUrl instanceof Response) return callbackUrl;
+
+  let steps: WorkflowStepInput[];
+  let template: WorkflowTemplate | undefined;
+  let applied: AppliedTemplate | undefined;
+  const templateId = getTextValue(form.fields.get("template_id"));
+  const stepsField = getTextValue(form.fields.get("steps"));
+  if (templateId) {
+    if (stepsField || getTextValue(form.fields.get("signer_email"))) {
+      return jsonResponse(
+        { error: "template_id cannot be combined with steps or signer_email" },
+        { status: 400 },
+      );
+    }
+    template = await templateStore.get(templateId);
+    if (!template) {
+      return jsonResponse(
+        { error: `Unknown template: ${templateId}` },
+        { status: 400 },
+      );
+    }
+    try {
+      const recipients = parseTemplateRoles(
+        getTextValue(form.fields.get("roles")) ?? "{}",
+        templateRoles(template),
+      );
+      applied = applyTemplate(template, recipients, {
+        fileName: files[0].name || "document.pdf",
+        documentCount: files.length,
+      });
+    } catch (error) {
+      if (error instanceof SignRequestError) {
+        return jsonResponse({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    steps = applied.steps;
+  } else if (stepsField) {
+    try {
+      steps = parseStepsField(stepsField);
+    } catch (error) {
+      if (error instanceof SignRequestError) {
+        return jsonResponse({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+  } else {
+    const signerEmail = getTextValue(form.fields.get("signer_email"));
+    if (!signerEmail) {
+      return jsonResponse(
+        { error: "Signer email is required" },
+        { status: 400 },
+      );
+    }
+
+    const phoneNumber = getTextValue(form.fields.get("signer_phone"));
+    const signerInfo = {
+      email: signerEmail,
+      firstName: getTextValue(form.fields.get("signer_first_name")),
+      lastName: getTextValue(form.fields.get("signer_last_name")),
+      preferredLocale: getTextValue(form.fields.get("signer_locale")),
+      comments: getTextValue(form.fields.get("signer_comments")),
+      consentPageId: getTextValue(form.fields.get("signer_consent_page_id")),
+      userId: getTextValue(form.fields.get("signer_user_id")),
+      ...(phoneNumber ? { phoneNumber } : {}),
+    };
+    steps = [{ recipients: [signerInfo] }];
+  }
+
+  // Fields sent with the request win over the template's placements.
+  let fields: SignatureFieldRequest[] | undefined = applied?.fields;
+  const fieldsField = getTextValue(form.fields.get("fields"));
+  const fieldSource: SignatureFieldSource = fieldsField
+    ? "request"
+    : "template";
+  if (fieldsField) {
+    try {
+      fields = parseFieldsField(fieldsField, {
+        documentCount: files.length,
+        signerEmails: signerEmails(steps),
+      });
+    } catch (error) {
+      if (error instanceof SignRequestError) {
+        return jsonResponse({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
   }
 
-  const phoneNumber = getTextValue(formData.get("signer_phone"));
-  const signerInfo = {
-    email: signerEmail,
-    firstName: getTextValue(formData.get("signer_first_name")),
-    lastName: getTextValue(formData.get("signer_last_name")),
-    preferredLocale: getTextValue(formData.get("signer_locale")),
-    comments: getTextValue(formData.get("signer_comments")),
-    consentPageId: getTextValue(formData.get("signer_consent_page_id")),
-    userId: getTextValue(formData.get("signer_user_id")),
-    ...(phoneNumber ? { phoneNumber } : {}),
-  };
+  // A tenant named by the request replaces the template's tenant and profile.
+  const tenantId = getTextValue(form.fields.get("tenant"));
+  const profileKey = getTextValue(form.fields.get("profile")) ??
+    (tenantId ? undefined : template?.profile);
+  let resolved: ResolvedTenant;
+  try {
+    resolved = await tenantDirectory.resolve(
+      principal,
+      tenantId ?? template?.tenant,
+      profileKey,
+    );
+  } catch (error) {
+    if (error instanceof TenantError) {
+      return jsonResponse({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+  const { client } = resolved;
 
+  const documents = files.map((file) => ({
+    fileName: file.name || "document.pdf",
+    fileType: file.type || "application/pdf",
+  }));
   const workflowName =
-    getTextValue(formData.get("workflow_name")) ||
-    file.name ||
+    getTextValue(form.fields.get("workflow_name")) ||
+    applied?.name ||
+    files[0].name ||
     "Document signature workflow";
 
-  const job = signingStore.createJob(
-    file.name || "document.pdf",
-    file.type || "application/pdf",
-  );
+  // Fields sent with the request (or the template) replace detection.
+  const placements: DocumentPlacement[] = [];
+  for (const [index, file] of files.entries()) {
+    const placement = fields
+      ? {
+        source: fieldSource,
+        fields: fields
+          .filter((field) => field.document === index)
+          .map(({ document: _, ...field }) => field),
+      }
+      : await detectSignatureFields(file, steps);
+    try {
+      checkFieldPages(documents[index].fileName, pdfs[index], placement.fields);
+    } catch (error) {
+      if (error instanceof UploadError) return uploadErrorResponse(error);
+      throw error;
+    }
+    placements.push(placement);
+  }
+
+  const job = await signingStore.createJob({
+    ownerId: principal.id,
+    tenantId: resolved.tenant.id,
+    profileKey: resolved.profileKey,
+    ...(template ? { templateId: template.id } : {}),
+    ...(callbackUrl ? { callbackUrl } : {}),
+    fileName: documents[0].fileName,
+    fileType: documents[0].fileType,
+    documents,
+    steps: initialSteps(steps),
+  });
+  progress.jobId = job.id;
 
   try {
-    const workflow = await createWorkflow({
+    const launched = await launchJob(job, client, {
       name: workflowName,
-      signer: signerInfo,
+      steps,
+      files,
+      placements,
+      startedBy: principal.id,
     });
-    signingStore.setWorkflow(job.id, workflow.id, workflow.workflowStatus);
-    const uploadResult = await uploadWorkflowDocument(workflow.id, file);
-    if (uploadResult.documentId) {
-      try {
-        await applyDefaultSignatureField(uploadResult.documentId);
-      } catch (signatureError) {
-        console.warn(
-          `Unable to place default signature field on document ${uploadResult.documentId}`,
-          signatureError,
-        );
-      }
-    }
-    const startedWorkflow = await startWorkflow(workflow.id);
-    if (startedWorkflow.workflowStatus) {
-      signingStore.setWorkflowStatus(job.id, startedWorkflow.workflowStatus);
-    }
     return jsonResponse({
       jobId: job.id,
       status: job.status,
-      workflowId: workflow.id,
-      workflowStatus:
-        startedWorkflow.workflowStatus ?? workflow.workflowStatus ?? "started",
+      tenant: resolved.tenant.id,
+      profile: resolved.profileKey,
+      template: job.templateId ?? null,
+      workflowId: launched.workflowId,
+      workflowStatus: launched.workflowStatus,
       fileName: job.fileName,
+      documents: serializeDocuments(
+        (await signingStore.getJob(job.id)) ?? job,
+      ),
+      steps: job.steps,
     });
   } catch (error) {
     console.error("Failed to initialize Goodflag workflow", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
-    signingStore.failJob(job.id, message);
+    const response = goodflagErrorResponse(
+      error,
+      "Failed to create Goodflag workflow",
+    );
+    // The failed job keeps the details, such as its audit trail.
     return jsonResponse(
-      { error: "Failed to create Goodflag workflow" },
-      { status: 502 },
+      { ...await response.json(), jobId: job.id },
+      { status: response.status, headers: response.headers },
     );
   }
 }
 
-async function handleGetStatus(jobId: string): Promise<Response> {
-  let job = signingStore.getJob(jobId);
-  if (!job) {
-    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+function serializeBatch(batch: SigningBatch) {
+  const counts = {
+    total: batch.rows.length,
+    queued: 0,
+    processing: 0,
+    created: 0,
+    failed: 0,
+  };
+  for (const row of batch.rows) counts[row.status]++;
+  return {
+    batchId: batch.id,
+    status: counts.queued + counts.processing > 0 ? "processing" : "done",
+    createdAt: batch.createdAt,
+    updatedAt: Math.max(
+      batch.createdAt,
+      ...batch.rows.map((row) => row.updatedAt),
+    ),
+    ownerId: batch.ownerId,
+    tenant: batch.tenantId,
+    profile: batch.profileKey,
+    workflowName: batch.workflowName,
+    fileName: batch.fileName,
+    counts,
+    rows: batch.rows.map((row) => ({
+      index: row.index,
+      email: row.recipient.email,
+      status: row.status,
+      attempts: row.attempts,
+      jobId: row.jobId ?? null,
+      statusUrl: row.jobId ? `/api/sign/${row.jobId}` : null,
+      error: row.error ?? null,
+    })),
+  };
+}
+
+/**
+ * Starts a bulk send: one PDF (`file`) and a `signers` list, uploaded as a
+ * `.csv` or `.json` file or sent as text. Every signer gets a workflow of
+ * their own; they are created in the background and the batch is answered
+ * with a 202 right away.
+ */
+async function handleBulkSign(
+  req: Request,
+  principal: Principal,
+): Promise<Response> {
+  const contentType = req.headers.get("content-type") ?? "";
+  if (!contentType.includes("multipart/form-data")) {
+    return jsonResponse(
+      { error: "Request must be multipart/form-data" },
+      { status: 400 },
+    );
   }
 
-  if (job.status === "pending" && job.workflowId) {
-    try {
-      const workflow = await fetchWorkflow(job.workflowId);
-      if (workflow.workflowStatus) {
-        signingStore.setWorkflowStatus(job.id, workflow.workflowStatus);
-        job = signingStore.getJob(jobId)!;
-      }
-      const normalizedStatus = workflow.workflowStatus?.toLowerCase();
-      if (normalizedStatus === "finished") {
-        const signed = await downloadWorkflowDocuments(job.workflowId!);
-        signingStore.completeJob(job.id, {
-          bytes: signed.bytes,
-          fileName: signed.fileName,
-          contentType: signed.contentType,
-        });
-        job = signingStore.getJob(jobId)!;
-      } else if (
-        normalizedStatus &&
-        ["stopped", "refused", "canceled", "failed"].includes(normalizedStatus)
-      ) {
-        signingStore.failJob(job.id, `Workflow ${workflow.workflowStatus}`);
-        job = signingStore.getJob(jobId)!;
-      }
-    } catch (error) {
-      console.error("Failed to refresh Goodflag workflow", error);
+  const form = await readForm(req);
+  if (form instanceof Response) return form;
+  const files = form.files.get("file") ?? [];
+  if (files.length !== 1) {
+    return jsonResponse(
+      { error: "Bulk sends take exactly one file" },
+      { status: 400 },
+    );
+  }
+  const [file] = files;
+  const pdfs = await inspectPdfs(files);
+  if (pdfs instanceof Response) return pdfs;
+  const callbackUrl = readCallbackUrl(form.fields);
+  if (callbackUrl instanceof Response) return callbackUrl;
+
+  const [signersFile] = form.files.get("signers") ?? [];
+  const signers = form.fields.get("signers");
+  let recipients: WorkflowRecipientInput[];
+  try {
+    if (signersFile) {
+      const json = signersFile.type === "application/json" ||
+        signersFile.name.toLowerCase().endsWith(".json");
+      recipients = parseSignerList(
+        new TextDecoder().decode(signersFile.bytes),
+        json ? "json" : "csv",
+      );
+    } else if (getTextValue(signers)) {
+      const text = getTextValue(signers)!;
+      recipients = parseSignerList(text, text.startsWith("[") ? "json" : "csv");
+    } else {
+      return jsonResponse({ error: "signers is required" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  // Rows only differ by signer, so one detection tells whether the fields
+  // land on pages the document has.
+  try {
+    const placement = await detectSignatureFields(file, [{
+      recipients: [recipients[0]],
+    }]);
+    checkFieldPages(file.name || "document.pdf", pdfs[0], placement.fields);
+  } catch (error) {
+    if (error instanceof UploadError) return uploadErrorResponse(error);
+    throw error;
+  }
+
+  let resolved: ResolvedTenant;
+  try {
+    resolved = await tenantDirectory.resolve(
+      principal,
+      getTextValue(form.fields.get("tenant")),
+      getTextValue(form.fields.get("profile")),
+    );
+  } catch (error) {
+    if (error instanceof TenantError) {
+      return jsonResponse({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+
+  const batch = await bulkSender.create({
+    ownerId: principal.id,
+    tenantId: resolved.tenant.id,
+    profileKey: resolved.profileKey,
+    ...(callbackUrl ? { callbackUrl } : {}),
+    workflowName: getTextValue(form.fields.get("workflow_name")) ||
+      file.name ||
+      "Document signature workflow",
+    fileName: file.name || "document.pdf",
+    fileType: file.type || "application/pdf",
+    document: file.bytes,
+    recipients,
+  });
+  return jsonResponse(serializeBatch(batch), { status: 202 });
+}
+
+/** Loads a batch on behalf of `principal`, like `getOwnedJob`. */
+async function getOwnedBatch(
+  batchId: string,
+  principal: Principal,
+): Promise<SigningBatch | undefined> {
+  const batch = await bulkSender.get(batchId);
+  return batch && (principal.admin || batch.ownerId === principal.id)
+    ? batch
+    : undefined;
+}
+
+async function handleGetBatch(
+  batchId: string,
+  principal: Principal,
+): Promise<Response> {
+  const batch = await getOwnedBatch(batchId, principal);
+  if (!batch) {
+    return jsonResponse({ error: "Batch not found" }, { status: 404 });
+  }
+  return jsonResponse(serializeBatch(batch));
+}
+
+/**
+ * Queues failed rows of a batch again; the body may name them with
+ * `{ "rows": [indexes] }`. A batch without matching failed rows is answered
+ * with a 409.
+ */
+async function handleRetryBatch(
+  req: Request,
+  batchId: string,
+  principal: Principal,
+): Promise<Response> {
+  const batch = await getOwnedBatch(batchId, principal);
+  if (!batch) {
+    return jsonResponse({ error: "Batch not found" }, { status: 404 });
+  }
+
+  let rows: number[] | undefined;
+  try {
+    rows = parseBatchRetryRequest(await readJsonBody(req), batch.rows.length)
+      .rows;
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const retried = await bulkSender.retry(batch, rows);
+  if (retried === 0) {
+    return jsonResponse(
+      { error: "No failed row to retry" },
+      { status: 409 },
+    );
+  }
+  const updated = (await bulkSender.get(batch.id)) ?? batch;
+  return jsonResponse(serializeBatch(updated), { status: 202 });
+}
+
+/**
+ * Checks the signatures of an uploaded PDF (`file`) the way completed jobs
+ * are checked, e.g. for a document received from a signer by email.
+ */
+async function handleVerify(req: Request): Promise<Response> {
+  const contentType = req.headers.get("content-type") ?? "";
+  if (!contentType.includes("multipart/form-data")) {
+    return jsonResponse(
+      { error: "Request must be multipart/form-data" },
+      { status: 400 },
+    );
+  }
+  const form = await readForm(req);
+  if (form instanceof Response) return form;
+  const [file] = form.files.get("file") ?? [];
+  if (!file) {
+    return jsonResponse({ error: "File field is required" }, { status: 400 });
+  }
+  const pdfs = await inspectPdfs([file]);
+  if (pdfs instanceof Response) return pdfs;
+
+  const verification = await verifyPdfSignatures(file.bytes);
+  return jsonResponse({
+    fileName: file.name || "document.pdf",
+    verifiedAt: Date.now(),
+    ...verification,
+  });
+}
+
+function serializeDelivery(delivery: CallbackDelivery) {
+  return {
+    deliveryId: delivery.id,
+    jobId: delivery.jobId,
+    url: delivery.url,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    lastError: delivery.lastError ?? null,
+    nextAttemptAt: delivery.status === "pending"
+      ? delivery.nextAttemptAt
+      : null,
+    createdAt: delivery.createdAt,
+    updatedAt: delivery.updatedAt,
+    event: delivery.event,
+  };
+}
+
+/** Callbacks that ran out of attempts, for the jobs `principal` can see. */
+async function handleListDeadLetters(principal: Principal): Promise<Response> {
+  const deliveries = (await callbackDispatcher.listDead()).filter(
+    (delivery) => principal.admin || delivery.ownerId === principal.id,
+  );
+  return jsonResponse({ deliveries: deliveries.map(serializeDelivery) });
+}
+
+async function handleReplayDeadLetter(
+  deliveryId: string,
+  principal: Principal,
+): Promise<Response> {
+  const delivery = await callbackDispatcher.get(deliveryId);
+  if (
+    !delivery || !(principal.admin || delivery.ownerId === principal.id)
+  ) {
+    return jsonResponse(
+      { error: "Callback delivery not found" },
+      { status: 404 },
+    );
+  }
+  if (delivery.status !== "dead") {
+    return jsonResponse(
+      { error: "Callback delivery is still being retried" },
+      { status: 409 },
+    );
+  }
+  const replayed = await callbackDispatcher.replay(delivery);
+  return jsonResponse(serializeDelivery(replayed), { status: 202 });
+}
+
+/**
+ * Maps a failed Goodflag call onto the HTTP response that best describes it:
+ * request validation errors become a 400 carrying Goodflag's message, rate
+ * limiting a 503, timeouts a 504 and anything else a 502.
+ */
+function goodflagErrorResponse(error: unknown, fallback: string): Response {
+  if (!(error instanceof GoodflagApiError)) {
+    return jsonResponse({ error: fallback }, { status: 502 });
+  }
+
+  const goodflag = {
+    status: error.status ?? null,
+    code: error.code ?? null,
+    requestId: error.requestId ?? null,
+  };
+  if (error.status === 400 || error.status === 422) {
+    return jsonResponse({ error: error.message, goodflag }, { status: 400 });
+  }
+  if (error.status === 429) {
+    const retryAfterSeconds = Math.ceil((error.retryAfterMs ?? 1000) / 1000);
+    return jsonResponse(
+      { error: "Goodflag is rate limiting requests, retry later", goodflag },
+      {
+        status: 503,
+        headers: { "Retry-After": String(retryAfterSeconds) },
+      },
+    );
+  }
+  if (error.timedOut) {
+    return jsonResponse(
+      { error: `${fallback}: Goodflag did not respond in time`, goodflag },
+      { status: 504 },
+    );
+  }
+  return jsonResponse({ error: fallback, goodflag }, { status: 502 });
+}
+
+/**
+ * Lists the caller's jobs with filters, sorting and cursor pagination. Admins
+ * see every job and may narrow the list with `owner`.
+ */
+async function handleListJobs(
+  url: URL,
+  principal: Principal,
+): Promise<Response> {
+  let query;
+  try {
+    query = parseJobListQuery(url.searchParams);
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
     }
+    throw error;
   }
+  const ownerId = principal.admin
+    ? url.searchParams.get("owner") ?? undefined
+    : principal.id;
 
+  const page = await signingStore.queryJobs({ ...query, ownerId });
   return jsonResponse({
+    jobs: page.jobs.map(serializeJob),
+    nextCursor: page.next ? encodeJobCursor(page.next) : null,
+  });
+}
+
+async function handleGetStatus(
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  // Jobs are refreshed by the background reconciler and webhooks; this is a
+  // plain read so open browser tabs do not translate into Goodflag calls.
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+
+  return jsonResponse(serializeJob(job));
+}
+
+function serializeJob(job: SigningJob) {
+  return {
     jobId: job.id,
     status: job.status,
+    createdAt: job.createdAt,
     updatedAt: job.updatedAt,
+    ownerId: job.ownerId,
+    tenant: job.tenantId,
+    profile: job.profileKey,
+    template: job.templateId ?? null,
+    batch: job.batchId ?? null,
+    callbackUrl: job.callbackUrl ?? null,
     fileName: job.fileName,
     signedFileName: job.signedFileName ?? null,
+    documents: serializeDocuments(job),
     workflowId: job.workflowId ?? null,
     workflowStatus: job.workflowStatus ?? null,
+    steps: job.steps ?? [],
     error: job.errorMessage ?? null,
+    errorReason: job.errorReason ?? null,
+    canceledAt: job.canceledAt ?? null,
+    canceledBy: job.canceledBy ?? null,
+    cancelReason: job.cancelReason ?? null,
+    reminders: job.reminders ?? [],
+    reminderSchedule: job.reminderSchedule
+      ? {
+        intervalHours: job.reminderSchedule.intervalMs / (1000 * 60 * 60),
+        maxCount: job.reminderSchedule.maxCount,
+        sentCount: job.reminderSchedule.sentCount,
+        nextReminderAt: job.reminderSchedule.nextAt ?? null,
+      }
+      : null,
+    recipientChanges: job.recipientChanges ?? [],
     downloadUrl: job.status === "completed" ? `/api/sign/${job.id}/file` : null,
+    files: (job.files ?? []).map((file, index) => ({
+      index,
+      name: file.name,
+      kind: file.kind,
+      contentType: file.contentType,
+      size: file.size,
+      downloadUrl: `/api/sign/${job.id}/files/${index}`,
+    })),
+    evidenceUrl: job.status === "completed"
+      ? `/api/sign/${job.id}/evidence`
+      : null,
+    verification: job.verification ?? null,
+    eventsLogUrl: `/api/sign/${job.id}/events-log`,
+  };
+}
+
+/**
+ * Cancels a pending job: stops its Goodflag workflow and marks the job as
+ * `canceled`. The body may carry `{ "reason": "..." }`, which is kept on the
+ * job. Jobs that already settled, or whose workflow is still being created,
+ * are answered with a 409.
+ */
+async function handleCancel(
+  req: Request,
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+
+  let rawReason: unknown;
+  try {
+    rawReason = (await readJsonBody(req)).reason;
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  if (rawReason !== undefined && typeof rawReason !== "string") {
+    return jsonResponse({ error: "reason must be a string" }, { status: 400 });
+  }
+  const reason = rawReason?.trim() || undefined;
+  if (reason && reason.length > MAX_CANCEL_REASON_LENGTH) {
+    return jsonResponse(
+      {
+        error:
+          `reason must be at most ${MAX_CANCEL_REASON_LENGTH} characters long`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (job.status !== "pending") {
+    return jsonResponse(
+      { error: `Signing job is already ${job.status}`, job: serializeJob(job) },
+      { status: 409 },
+    );
+  }
+  if (!job.workflowId) {
+    return jsonResponse(
+      { error: "Signing job is still being created, retry shortly" },
+      { status: 409 },
+    );
+  }
+
+  let canceled: SigningJob;
+  try {
+    canceled = await cancelJob(job, principal.id, reason);
+  } catch (error) {
+    console.error(`Failed to cancel signing job ${job.id}`, error);
+    return goodflagErrorResponse(error, "Failed to stop Goodflag workflow");
+  }
+  if (canceled.status !== "canceled") {
+    return jsonResponse(
+      {
+        error: `Signing job is already ${canceled.status}`,
+        job: serializeJob(canceled),
+      },
+      { status: 409 },
+    );
+  }
+  return jsonResponse(serializeJob(canceled));
+}
+
+/**
+ * Loads a job that recipients can still act on, or explains with a 404 or 409
+ * why they cannot.
+ */
+async function getRunningJob(
+  jobId: string,
+  principal: Principal,
+): Promise<SigningJob | Response> {
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+  if (job.status !== "pending") {
+    return jsonResponse(
+      { error: `Signing job is already ${job.status}` },
+      { status: 409 },
+    );
+  }
+  if (!job.workflowId) {
+    return jsonResponse(
+      { error: "Signing job is still being created, retry shortly" },
+      { status: 409 },
+    );
+  }
+  return job;
+}
+
+/**
+ * Sends the invitation again to every recipient of the current step who has
+ * not acted yet, or to the `recipients` listed in the body.
+ */
+async function handleRemind(
+  req: Request,
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getRunningJob(jobId, principal);
+  if (job instanceof Response) return job;
+
+  let recipients: string[] | undefined;
+  try {
+    recipients = parseReminderRequest(await readJsonBody(req)).recipients;
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  const pending = pendingRecipients(job)?.recipients ?? [];
+  const notPending = recipients?.find((email) =>
+    !pending.some((candidate) =>
+      candidate.toLowerCase() === email.toLowerCase()
+    )
+  );
+  if (notPending) {
+    return jsonResponse(
+      { error: `${notPending} is not waiting to sign or approve` },
+      { status: 409 },
+    );
+  }
+  if (pending.length === 0) {
+    return jsonResponse(
+      { error: "No recipient is waiting to sign or approve" },
+      { status: 409 },
+    );
+  }
+
+  try {
+    const updated = await sendReminders(job, {
+      trigger: "manual",
+      requestedBy: principal.id,
+      recipients,
+    });
+    return jsonResponse(serializeJob(updated));
+  } catch (error) {
+    console.error(`Failed to send reminders for signing job ${job.id}`, error);
+    return goodflagErrorResponse(error, "Failed to send Goodflag reminders");
+  }
+}
+
+/**
+ * Sets up automatic reminders (`PUT`, with `{ intervalHours, maxCount }`) or
+ * turns them off (`DELETE`). The reconciler sends them.
+ */
+async function handleReminderSchedule(
+  req: Request,
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getRunningJob(jobId, principal);
+  if (job instanceof Response) return job;
+
+  if (req.method === "DELETE") {
+    await signingStore.setReminderSchedule(job.id, undefined, principal.id);
+  } else {
+    let schedule;
+    try {
+      schedule = parseReminderSchedule(await readJsonBody(req), {
+        minIntervalMs: config.reminderMinIntervalMs,
+        maxCount: Math.max(1, config.goodflagMaxInvites - 1),
+      });
+    } catch (error) {
+      if (error instanceof SignRequestError) {
+        return jsonResponse({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    await signingStore.setReminderSchedule(
+      job.id,
+      { ...schedule, sentCount: 0, nextAt: Date.now() + schedule.intervalMs },
+      principal.id,
+    );
+  }
+  return jsonResponse(serializeJob((await signingStore.getJob(job.id)) ?? job));
+}
+
+/**
+ * Replaces the email and/or phone number of a recipient who has not signed or
+ * approved yet, on the running Goodflag workflow and on the job.
+ */
+async function handleReplaceRecipient(
+  req: Request,
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getRunningJob(jobId, principal);
+  if (job instanceof Response) return job;
+
+  let replacement;
+  try {
+    replacement = parseRecipientReplacement(await readJsonBody(req));
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  const previous = replacement.recipientEmail.toLowerCase();
+  const stepIndex = job.steps?.findIndex((step) =>
+    step.stepType !== "viewer" &&
+    step.status !== "finished" &&
+    step.recipients.some((email) => email.toLowerCase() === previous) &&
+    !step.completedBy.some((email) => email.toLowerCase() === previous)
+  ) ?? -1;
+  if (stepIndex < 0) {
+    return jsonResponse(
+      {
+        error:
+          `${replacement.recipientEmail} is not a recipient who still has to sign or approve`,
+      },
+      { status: 409 },
+    );
+  }
+
+  try {
+    const updated = await replaceRecipient(
+      job,
+      stepIndex,
+      replacement.recipientEmail,
+      { email: replacement.email, phoneNumber: replacement.phoneNumber },
+      principal.id,
+    );
+    return jsonResponse(serializeJob(updated));
+  } catch (error) {
+    console.error(`Failed to replace a recipient of job ${job.id}`, error);
+    return goodflagErrorResponse(error, "Failed to update Goodflag workflow");
+  }
+}
+
+/**
+ * Issues a short-lived ticket for the job's event stream, which EventSource
+ * opens without headers.
+ */
+async function handleEventsTicket(
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+  return jsonResponse(await authenticator.issueStreamTicket(principal, jobId));
+}
+
+/**
+ * Streams the job as Server-Sent Events: one `status` event per store change,
+ * using `updatedAt` as the event ID. A reconnect with `Last-Event-ID` only gets
+ * the current snapshot if the job changed since. The stream ends once the job
+ * is no longer pending.
+ */
+async function handleJobEvents(
+  req: Request,
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+
+  const lastEventId = Number(req.headers.get("last-event-id") ?? "");
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        closed = true;
+        controller.close();
+      };
+      const sendJob = (current: SigningJob) => {
+        send(
+          `id: ${current.updatedAt}\nevent: status\ndata: ${
+            JSON.stringify(serializeJob(current))
+          }\n\n`,
+        );
+        if (current.status !== "pending") close();
+      };
+
+      const unsubscribe = signingStore.subscribe(jobId, sendJob);
+      const heartbeat = setInterval(
+        () => send(": heartbeat\n\n"),
+        SSE_HEARTBEAT_MS,
+      );
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      req.signal.addEventListener("abort", close);
+
+      send(`retry: ${SSE_RETRY_MS}\n\n`);
+      if (!(lastEventId >= job.updatedAt) || job.status !== "pending") {
+        sendJob(job);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-store",
+      Connection: "keep-alive",
+      ...corsHeaders,
+    },
   });
 }
 
-function handleDownload(jobId: string): Response {
-  const job = signingStore.getJob(jobId);
+async function handleDownload(
+  jobId: string,
+  documentIndex: string | null,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getOwnedJob(jobId, principal);
   if (!job) {
     return jsonResponse({ error: "Signing job not found" }, { status: 404 });
   }
-  if (job.status !== "completed" || !job.signedDocument) {
+  if (job.status !== "completed") {
     return jsonResponse(
       { error: "Signed document is not available yet" },
       { status: 409 },
     );
   }
-  const signedBytes = job.signedDocument;
+
+  let signedBytes: Uint8Array | undefined;
+  let fileName: string;
+  let contentType: string;
+  if (documentIndex === null) {
+    signedBytes = await signingStore.getSignedDocument(job);
+    fileName = job.signedFileName ?? job.fileName;
+    contentType = job.signedContentType || job.fileType || "application/pdf";
+  } else {
+    const index = Number(documentIndex);
+    const document = Number.isInteger(index) ? job.documents[index] : undefined;
+    if (!document) {
+      return jsonResponse({ error: "Document not found" }, { status: 404 });
+    }
+    signedBytes = await signingStore.getSignedDocumentPart(job, index);
+    fileName = document.signedFileName ?? document.fileName;
+    contentType = document.signedContentType || document.fileType;
+  }
   if (!signedBytes) {
     return jsonResponse(
       { error: "Signed document is not available yet" },
@@ -205,8 +1286,8 @@ function handleDownload(jobId: string): Response {
   }
 
   const headers = new Headers({
-    "Content-Type": job.signedContentType || job.fileType || "application/pdf",
-    "Content-Disposition": `attachment; filename="${job.signedFileName ?? job.fileName}"`,
+    "Content-Type": contentType,
+    "Content-Disposition": attachmentDisposition(fileName),
     ...corsHeaders,
   });
 
@@ -216,7 +1297,320 @@ function handleDownload(jobId: string): Response {
   });
 }
 
-async function handler(req: Request): Promise<Response> {
+/** Serves one file extracted from the job's ZIP download. */
+async function handleFileEntry(
+  jobId: string,
+  fileIndex: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+  const index = Number(fileIndex);
+  const file = Number.isInteger(index) ? job.files?.[index] : undefined;
+  const bytes = file ? await signingStore.getFile(job, index) : undefined;
+  if (!file || !bytes) {
+    return jsonResponse({ error: "File not found" }, { status: 404 });
+  }
+
+  const fileName = file.name.split("/").pop() || `file-${index}`;
+  return new Response(bytes as unknown as BodyInit, {
+    status: 200,
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": attachmentDisposition(fileName),
+      ...corsHeaders,
+    },
+  });
+}
+
+async function handleEventsLog(
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  const job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+  return jsonResponse({ jobId: job.id, events: job.events ?? [] });
+}
+
+/**
+ * Serves Goodflag's evidence for a completed job. Evidence is normally stored
+ * when the workflow finishes; if that failed it is fetched now.
+ */
+async function handleEvidence(
+  jobId: string,
+  principal: Principal,
+): Promise<Response> {
+  let job = await getOwnedJob(jobId, principal);
+  if (!job) {
+    return jsonResponse({ error: "Signing job not found" }, { status: 404 });
+  }
+  if (job.status !== "completed") {
+    return jsonResponse(
+      { error: "Evidence is only available for completed jobs" },
+      { status: 409 },
+    );
+  }
+  if (!job.evidenceKey) {
+    try {
+      job = await fetchEvidence(job);
+    } catch (error) {
+      console.error(`Failed to fetch evidence for job ${job.id}`, error);
+      return goodflagErrorResponse(error, "Failed to fetch Goodflag evidence");
+    }
+  }
+  const evidence = await signingStore.getEvidence(job);
+  if (!evidence) {
+    return jsonResponse(
+      { error: "Evidence is not available" },
+      { status: 404 },
+    );
+  }
+
+  return new Response(evidence as unknown as BodyInit, {
+    status: 200,
+    headers: {
+      "Content-Type": job.evidenceContentType ?? "application/pdf",
+      "Content-Disposition": attachmentDisposition(
+        job.evidenceFileName ?? `${job.id}-evidence.pdf`,
+      ),
+      ...corsHeaders,
+    },
+  });
+}
+
+function serializeTemplate(template: WorkflowTemplate) {
+  return {
+    templateId: template.id,
+    name: template.name,
+    description: template.description ?? null,
+    workflowName: template.workflowName ?? null,
+    tenant: template.tenant ?? null,
+    profile: template.profile ?? null,
+    locale: template.locale ?? null,
+    consentPageId: template.consentPageId ?? null,
+    roles: templateRoles(template),
+    steps: template.steps,
+    fields: template.fields ?? [],
+    ownerId: template.ownerId,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * Reads and validates a template body. The template's tenant and profile must
+ * be usable by the caller, so typos surface now rather than on first use.
+ */
+async function readTemplateDefinition(
+  req: Request,
+  principal: Principal,
+): Promise<WorkflowTemplateDefinition | Response> {
+  let definition: WorkflowTemplateDefinition;
+  try {
+    definition = parseTemplateDefinition(await readJsonBody(req));
+  } catch (error) {
+    if (error instanceof SignRequestError) {
+      return jsonResponse({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+  if (definition.tenant || definition.profile) {
+    try {
+      await tenantDirectory.resolve(
+        principal,
+        definition.tenant,
+        definition.profile,
+      );
+    } catch (error) {
+      if (error instanceof TenantError) {
+        return jsonResponse({ error: error.message }, { status: error.status });
+      }
+      throw error;
+    }
+  }
+  return definition;
+}
+
+/**
+ * Loads a template `principal` wants to change. Every caller can read
+ * templates, so changes by anyone but the owner or an admin are a 403.
+ */
+async function getEditableTemplate(
+  templateId: string,
+  principal: Principal,
+): Promise<WorkflowTemplate | Response> {
+  const template = await templateStore.get(templateId);
+  if (!template) {
+    return jsonResponse({ error: "Template not found" }, { status: 404 });
+  }
+  if (!principal.admin && template.ownerId !== principal.id) {
+    return jsonResponse(
+      { error: "Only the template's owner or an admin can change it" },
+      { status: 403 },
+    );
+  }
+  return template;
+}
+
+async function handleListTemplates(): Promise<Response> {
+  const templates = await templateStore.list();
+  return jsonResponse({ templates: templates.map(serializeTemplate) });
+}
+
+async function handleGetTemplate(templateId: string): Promise<Response> {
+  const template = await templateStore.get(templateId);
+  if (!template) {
+    return jsonResponse({ error: "Template not found" }, { status: 404 });
+  }
+  return jsonResponse(serializeTemplate(template));
+}
+
+async function handleCreateTemplate(
+  req: Request,
+  principal: Principal,
+): Promise<Response> {
+  const definition = await readTemplateDefinition(req, principal);
+  if (definition instanceof Response) return definition;
+  const template = await templateStore.create(definition, principal.id);
+  return jsonResponse(serializeTemplate(template), { status: 201 });
+}
+
+async function handleReplaceTemplate(
+  req: Request,
+  templateId: string,
+  principal: Principal,
+): Promise<Response> {
+  const template = await getEditableTemplate(templateId, principal);
+  if (template instanceof Response) return template;
+  const definition = await readTemplateDefinition(req, principal);
+  if (definition instanceof Response) return definition;
+  const updated = await templateStore.replace(template, definition);
+  return jsonResponse(serializeTemplate(updated));
+}
+
+async function handleDeleteTemplate(
+  templateId: string,
+  principal: Principal,
+): Promise<Response> {
+  const template = await getEditableTemplate(templateId, principal);
+  if (template instanceof Response) return template;
+  // Jobs created from the template keep their own copy of its settings.
+  await templateStore.delete(template.id);
+  return withCors(new Response(null, { status: 204 }));
+}
+
+async function handleGoodflagWebhook(req: Request): Promise<Response> {
+  if (!config.webhookSecret) {
+    return jsonResponse(
+      { error: "Webhook receiver is not configured" },
+      { status: 503 },
+    );
+  }
+
+  const body = new Uint8Array(await req.arrayBuffer());
+  const validSignature = await verifyWebhookSignature(
+    config.webhookSecret,
+    body,
+    req.headers.get("x-goodflag-signature"),
+  );
+  if (!validSignature) {
+    return jsonResponse(
+      { error: "Invalid webhook signature" },
+      { status: 401 },
+    );
+  }
+
+  let event;
+  try {
+    event = parseWebhookEvent(JSON.parse(new TextDecoder().decode(body)));
+  } catch (_err) {
+    event = undefined;
+  }
+  if (!event) {
+    return jsonResponse(
+      { error: "Malformed webhook payload" },
+      { status: 400 },
+    );
+  }
+
+  if (webhookReplayGuard.isStale(event)) {
+    return jsonResponse(
+      {
+        error: event.created === undefined
+          ? "Webhook event has no created timestamp"
+          : "Webhook event is too old",
+      },
+      { status: 400 },
+    );
+  }
+  if (webhookReplayGuard.isDuplicate(event)) {
+    return jsonResponse({ ok: true, duplicate: true });
+  }
+
+  const workflowStatus = workflowStatusForEvent(event.eventType);
+  const job = await signingStore.findByWorkflowId(event.workflowId);
+  if (!workflowStatus || !job) {
+    webhookReplayGuard.remember(event);
+    return jsonResponse({ ok: true, ignored: true });
+  }
+
+  try {
+    if (workflowStatus === "refused") {
+      // Refusal events do not say which step was refused; fetch the workflow
+      // so the job records whether an approver or a signer declined.
+      await refreshJob(job);
+    } else {
+      await applyWorkflowStatus(job, workflowStatus);
+    }
+  } catch (error) {
+    console.error(
+      `Failed to process Goodflag webhook ${event.id} for workflow ${event.workflowId}`,
+      error,
+    );
+    // Let Goodflag retry the delivery.
+    return jsonResponse(
+      { error: "Failed to process webhook event" },
+      { status: 502 },
+    );
+  }
+
+  webhookReplayGuard.remember(event);
+  return jsonResponse({ ok: true });
+}
+
+/**
+ * Authenticates an API request, answering 401 when it has no credential (or
+ * the `AuthError` status when it could not be checked). The event stream of
+ * `streamJobId` also takes a `?ticket=` from `POST .../events-ticket`.
+ */
+async function authenticate(
+  req: Request,
+  options: { streamJobId?: string } = {},
+): Promise<Principal | Response> {
+  try {
+    const ticket = options.streamJobId &&
+      new URL(req.url).searchParams.get("ticket");
+    return ticket
+      ? await authenticator.verifyStreamTicket(ticket, options.streamJobId!)
+      : await authenticator.authenticate(req);
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return jsonResponse(
+        { error: error.message },
+        error.status === 401
+          ? { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+          : { status: error.status },
+      );
+    }
+    throw error;
+  }
+}
+
+export async function handler(req: Request): Promise<Response> {
   if (req.method === "OPTIONS") {
     return withCors(new Response(null, { status: 204 }));
   }
@@ -227,31 +1621,185 @@ async function handler(req: Request): Promise<Response> {
     return jsonResponse({ ok: true, uptime: performance.now() });
   }
 
-  if (req.method === "POST" && url.pathname === "/api/sign") {
-    return await handleSign(req);
+  if (req.method === "GET" && url.pathname === "/readyz") {
+    const report = await readinessProbe.check();
+    return jsonResponse(report, { status: report.ready ? 200 : 503 });
+  }
+
+  if (req.method === "POST" && url.pathname === "/api/webhooks/goodflag") {
+    return await handleGoodflagWebhook(req);
+  }
+
+  if (req.method === "POST" && url.pathname === "/api/verify") {
+    const principal = await authenticate(req);
+    if (principal instanceof Response) return principal;
+    return await handleVerify(req);
+  }
+
+  if (url.pathname.startsWith("/api/callbacks/dead-letters")) {
+    // url.pathname looks like /api/callbacks/dead-letters or
+    // /api/callbacks/dead-letters/:id/replay
+    const parts = url.pathname.split("/").filter(Boolean);
+    const principal = await authenticate(req);
+    if (principal instanceof Response) return principal;
+
+    if (parts.length === 3 && req.method === "GET") {
+      return await handleListDeadLetters(principal);
+    }
+    if (
+      parts.length === 5 && parts[4] === "replay" && req.method === "POST"
+    ) {
+      return await handleReplayDeadLetter(parts[3], principal);
+    }
+  }
+
+  if (
+    url.pathname === "/api/templates" ||
+    url.pathname.startsWith("/api/templates/")
+  ) {
+    // url.pathname looks like /api/templates or /api/templates/:id
+    const parts = url.pathname.split("/").filter(Boolean);
+    const principal = await authenticate(req);
+    if (principal instanceof Response) return principal;
+
+    if (parts.length === 2 && req.method === "GET") {
+      return await handleListTemplates();
+    }
+    if (parts.length === 2 && req.method === "POST") {
+      return await handleCreateTemplate(req, principal);
+    }
+    if (parts.length === 3 && req.method === "GET") {
+      return await handleGetTemplate(parts[2]);
+    }
+    if (parts.length === 3 && req.method === "PUT") {
+      return await handleReplaceTemplate(req, parts[2], principal);
+    }
+    if (parts.length === 3 && req.method === "DELETE") {
+      return await handleDeleteTemplate(parts[2], principal);
+    }
   }
 
-  if (url.pathname.startsWith("/api/sign/")) {
-    // url.pathname looks like /api/sign/:id or /api/sign/:id/file
+  if (url.pathname === "/api/sign" || url.pathname.startsWith("/api/sign/")) {
+    // url.pathname looks like /api/sign, /api/sign/:id,
+    // /api/sign/:id/<action>, /api/sign/:id/files/:index or
+    // /api/sign/bulk[/:batchId[/retry]]
     const parts = url.pathname.split("/").filter(Boolean);
+    const principal = await authenticate(req, {
+      streamJobId: parts.length === 4 && parts[3] === "events" &&
+          req.method === "GET"
+        ? parts[2]
+        : undefined,
+    });
+    if (principal instanceof Response) return principal;
+
+    if (parts[2] === "bulk") {
+      if (parts.length === 3 && req.method === "POST") {
+        return await handleBulkSign(req, principal);
+      }
+      if (parts.length === 4 && req.method === "GET") {
+        return await handleGetBatch(parts[3], principal);
+      }
+      if (
+        parts.length === 5 && parts[4] === "retry" && req.method === "POST"
+      ) {
+        return await handleRetryBatch(req, parts[3], principal);
+      }
+      return jsonResponse({ error: "Not found" }, { status: 404 });
+    }
+
+    if (parts.length === 2 && req.method === "POST") {
+      return await handleSign(req, principal);
+    }
+    if (parts.length === 2 && req.method === "GET") {
+      return await handleListJobs(url, principal);
+    }
     if (parts.length === 3 && req.method === "GET") {
       const jobId = parts[2];
-      return await handleGetStatus(jobId);
+      return await handleGetStatus(jobId, principal);
+    }
+    if (parts.length === 4 && parts[3] === "events" && req.method === "GET") {
+      const jobId = parts[2];
+      return await handleJobEvents(req, jobId, principal);
+    }
+    if (
+      parts.length === 4 &&
+      parts[3] === "events-ticket" &&
+      req.method === "POST"
+    ) {
+      const jobId = parts[2];
+      return await handleEventsTicket(jobId, principal);
+    }
+    if (parts.length === 4 && parts[3] === "cancel" && req.method === "POST") {
+      const jobId = parts[2];
+      return await handleCancel(req, jobId, principal);
+    }
+    if (parts.length === 5 && parts[3] === "files" && req.method === "GET") {
+      const jobId = parts[2];
+      return await handleFileEntry(jobId, parts[4], principal);
+    }
+    if (
+      parts.length === 4 &&
+      parts[3] === "events-log" &&
+      req.method === "GET"
+    ) {
+      const jobId = parts[2];
+      return await handleEventsLog(jobId, principal);
+    }
+    if (parts.length === 4 && parts[3] === "evidence" && req.method === "GET") {
+      const jobId = parts[2];
+      return await handleEvidence(jobId, principal);
+    }
+    if (parts.length === 4 && parts[3] === "remind" && req.method === "POST") {
+      const jobId = parts[2];
+      return await handleRemind(req, jobId, principal);
+    }
+    if (
+      parts.length === 4 &&
+      parts[3] === "reminders" &&
+      (req.method === "PUT" || req.method === "DELETE")
+    ) {
+      const jobId = parts[2];
+      return await handleReminderSchedule(req, jobId, principal);
+    }
+    if (
+      parts.length === 4 &&
+      parts[3] === "replace-recipient" &&
+      req.method === "POST"
+    ) {
+      const jobId = parts[2];
+      return await handleReplaceRecipient(req, jobId, principal);
     }
     if (parts.length === 4 && parts[3] === "file" && req.method === "GET") {
       const jobId = parts[2];
-      return handleDownload(jobId);
+      return await handleDownload(
+        jobId,
+        url.searchParams.get("document"),
+        principal,
+      );
     }
   }
 
   return jsonResponse({ error: "Not found" }, { status: 404 });
 }
 
-console.log(`Starting Goodflag prototype API on port ${config.port}`);
+if (import.meta.main) {
+  console.log(`Starting Goodflag prototype API on port ${config.port}`);
+  if (!authenticator.configured) {
+    console.warn(
+      "No API_KEYS, AUTH_JWT_SECRET or AUTH_JWKS_URL configured; every signing request will be rejected",
+    );
+  }
 
-Deno.serve({ port: config.port }, (req: Request) =>
-  handler(req).catch((error) => {
-    console.error("Unhandled server error", error);
-    return jsonResponse({ error: "Internal server error" }, { status: 500 });
-  }),
-);
+  workflowReconciler.start();
+  callbackDispatcher.start();
+  bulkSender.resume().catch((error) =>
+    console.error("Failed to resume bulk sends", error)
+  );
+
+  Deno.serve({ port: config.port }, (req: Request) =>
+    handler(req).catch((error) => {
+      console.error("Unhandled server error", error);
+      return jsonResponse({ error: "Internal server error" }, { status: 500 });
+    }),
+  );
+}
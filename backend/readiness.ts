@@ -0,0 +1,151 @@
+import { GoodflagApiError, type RequestOptions } from "./goodflag.ts";
+import { type TenantDirectory, tenantDirectory } from "./tenants.ts";
+
+export type ReadinessCheckKind =
+  | "tenants"
+  | "user"
+  | "signature_profile"
+  | "consent_page";
+
+export interface ReadinessCheck {
+  check: ReadinessCheckKind;
+  tenant?: string;
+  profile?: string;
+  /** The Goodflag ID that was looked up. */
+  target?: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: string;
+  checks: ReadinessCheck[];
+}
+
+const READINESS_CACHE_MS = 30_000;
+// Probes are polled; a slow Goodflag should fail them rather than pile up.
+const CHECK_OPTIONS: RequestOptions = { timeoutMs: 5000, maxRetries: 0 };
+
+const NOUNS: Record<Exclude<ReadinessCheckKind, "tenants">, string> = {
+  user: "Owner user",
+  signature_profile: "Signature profile",
+  consent_page: "Consent page",
+};
+
+function describeFailure(
+  kind: Exclude<ReadinessCheckKind, "tenants">,
+  target: string,
+  error: unknown,
+): string {
+  if (!(error instanceof GoodflagApiError)) return String(error);
+  switch (error.status) {
+    case 401:
+      return "Goodflag rejected the API key";
+    case 403:
+      return `The API key may not use ${NOUNS[kind].toLowerCase()} ${target}`;
+    case 404:
+      return `${NOUNS[kind]} ${target} does not exist`;
+    default:
+      return error.message;
+  }
+}
+
+async function runCheck(
+  check: Omit<ReadinessCheck, "ok" | "error">,
+  lookup: () => Promise<unknown>,
+): Promise<ReadinessCheck> {
+  try {
+    await lookup();
+    return { ...check, ok: true };
+  } catch (error) {
+    const kind = check.check as Exclude<ReadinessCheckKind, "tenants">;
+    return {
+      ...check,
+      ok: false,
+      error: describeFailure(kind, check.target!, error),
+    };
+  }
+}
+
+/**
+ * Confirms with Goodflag that every tenant can actually sign: its API key and
+ * owner user work, and its signature profiles and consent pages exist.
+ * Reports are cached briefly so frequent probes do not hammer Goodflag.
+ */
+export class ReadinessProbe {
+  #directory: TenantDirectory;
+  #cacheMs: number;
+  #cached?: { report: ReadinessReport; at: number };
+  #inFlight?: Promise<ReadinessReport>;
+
+  constructor(directory: TenantDirectory, cacheMs: number) {
+    this.#directory = directory;
+    this.#cacheMs = cacheMs;
+  }
+
+  async check(now = Date.now()): Promise<ReadinessReport> {
+    if (this.#cached && now - this.#cached.at < this.#cacheMs) {
+      return this.#cached.report;
+    }
+    // Concurrent probes share one round of Goodflag calls.
+    this.#inFlight ??= this.#run().finally(() => {
+      this.#inFlight = undefined;
+    });
+    const report = await this.#inFlight;
+    this.#cached = { report, at: now };
+    return report;
+  }
+
+  async #run(): Promise<ReadinessReport> {
+    const pending: Promise<ReadinessCheck>[] = [];
+    const checkedUsers = new Set<string>();
+    const checkedConsentPages = new Set<string>();
+
+    for await (const resolved of this.#directory.profiles()) {
+      const { tenant, profileKey, client } = resolved;
+      if (!checkedUsers.has(tenant.id)) {
+        checkedUsers.add(tenant.id);
+        pending.push(runCheck(
+          { check: "user", tenant: tenant.id, target: tenant.userId },
+          () => client.fetchUser(CHECK_OPTIONS),
+        ));
+      }
+      const profile = tenant.profiles[profileKey];
+      pending.push(runCheck(
+        {
+          check: "signature_profile",
+          tenant: tenant.id,
+          profile: profileKey,
+          target: profile.signatureProfileId,
+        },
+        () => client.fetchSignatureProfile(CHECK_OPTIONS),
+      ));
+      const consentPageId = profile.consentPageId ?? tenant.consentPageId;
+      const consentKey = `${tenant.id}:${consentPageId}`;
+      if (consentPageId && !checkedConsentPages.has(consentKey)) {
+        checkedConsentPages.add(consentKey);
+        pending.push(runCheck(
+          { check: "consent_page", tenant: tenant.id, target: consentPageId },
+          () => client.fetchConsentPage(consentPageId, CHECK_OPTIONS),
+        ));
+      }
+    }
+
+    const checks = pending.length > 0 ? await Promise.all(pending) : [{
+      check: "tenants" as const,
+      ok: false,
+      error: "No tenant is configured",
+    }];
+    return {
+      ready: checks.every((check) => check.ok),
+      checkedAt: new Date().toISOString(),
+      checks,
+    };
+  }
+}
+
+export const readinessProbe = new ReadinessProbe(
+  tenantDirectory,
+  READINESS_CACHE_MS,
+);
@@ -0,0 +1,149 @@
+import config from "./config.ts";
+import { expireJob, refreshJob, sendReminders } from "./jobs.ts";
+import { type SigningJob, signingStore } from "./store.ts";
+
+export interface ReconcilerOptions {
+  /** How often the reconciler looks for due jobs. */
+  intervalMs: number;
+  /** Maximum number of Goodflag refreshes in flight at once. */
+  concurrency: number;
+  minBackoffMs: number;
+  maxBackoffMs: number;
+  /** Pending jobs older than this have their workflow stopped and expire. */
+  pendingTtlMs: number;
+}
+
+/**
+ * Walks pending jobs in the background and refreshes them from Goodflag so
+ * status reads never have to call the Goodflag API. Jobs whose workflow did
+ * not move (or whose refresh failed) are checked less and less often. Due
+ * automatic reminders are sent on the same pass.
+ */
+export class WorkflowReconciler {
+  #options: ReconcilerOptions;
+  #timer?: ReturnType<typeof setInterval>;
+  #running = false;
+
+  constructor(options: ReconcilerOptions) {
+    this.#options = options;
+  }
+
+  start() {
+    if (this.#timer !== undefined) return;
+    this.#timer = setInterval(() => {
+      this.tick().catch((error) =>
+        console.error("Workflow reconciler tick failed", error)
+      );
+    }, this.#options.intervalMs);
+  }
+
+  stop() {
+    if (this.#timer === undefined) return;
+    clearInterval(this.#timer);
+    this.#timer = undefined;
+  }
+
+  /** Runs one reconciliation pass; overlapping passes are skipped. */
+  async tick(now = Date.now()) {
+    if (this.#running) return;
+    this.#running = true;
+    try {
+      const due: SigningJob[] = [];
+      for await (const job of signingStore.listJobsByStatus("pending")) {
+        if ((job.nextRefreshAt ?? 0) <= now) due.push(job);
+      }
+      await this.#runConcurrently(due, (job) => this.#reconcile(job, now));
+    } finally {
+      this.#running = false;
+    }
+  }
+
+  async #runConcurrently(
+    jobs: SigningJob[],
+    worker: (job: SigningJob) => Promise<void>,
+  ) {
+    let next = 0;
+    const laneCount = Math.max(
+      1,
+      Math.min(this.#options.concurrency, jobs.length),
+    );
+    const lanes = Array.from(
+      { length: laneCount },
+      async () => {
+        while (next < jobs.length) {
+          await worker(jobs[next++]);
+        }
+      },
+    );
+    await Promise.all(lanes);
+  }
+
+  async #reconcile(job: SigningJob, now: number) {
+    if (now - job.createdAt > this.#options.pendingTtlMs) {
+      try {
+        await expireJob(
+          job,
+          "Workflow did not complete before the job expired",
+        );
+        return;
+      } catch (error) {
+        // The job stays pending until its workflow could be stopped.
+        console.error(
+          `Failed to stop Goodflag workflow ${job.workflowId} of expired job ${job.id}`,
+          error,
+        );
+      }
+      const attempts = (job.refreshAttempts ?? 0) + 1;
+      await signingStore.scheduleRefresh(
+        job.id,
+        now + this.#backoff(attempts),
+        attempts,
+      );
+      return;
+    }
+    // Workflow creation is still in flight for this job.
+    if (!job.workflowId) return;
+
+    let progressed = false;
+    try {
+      const refreshed = await refreshJob(job);
+      progressed = refreshed.status !== "pending" ||
+        refreshed.workflowStatus !== job.workflowStatus ||
+        JSON.stringify(refreshed.steps) !== JSON.stringify(job.steps);
+      if (refreshed.status !== "pending") return;
+      await this.#remind(refreshed, now);
+    } catch (error) {
+      console.error(
+        `Failed to refresh Goodflag workflow ${job.workflowId}`,
+        error,
+      );
+    }
+
+    const attempts = progressed ? 0 : (job.refreshAttempts ?? 0) + 1;
+    await signingStore.scheduleRefresh(
+      job.id,
+      now + this.#backoff(attempts),
+      attempts,
+    );
+  }
+
+  async #remind(job: SigningJob, now: number) {
+    const nextAt = job.reminderSchedule?.nextAt;
+    if (nextAt === undefined || nextAt > now) return;
+    try {
+      await sendReminders(job, { trigger: "automatic" });
+    } catch (error) {
+      // Retried on the next pass, since the schedule did not advance.
+      console.error(`Failed to send reminders for job ${job.id}`, error);
+    }
+  }
+
+  #backoff(attempts: number): number {
+    const { minBackoffMs, maxBackoffMs } = this.#options;
+    const delay = Math.min(minBackoffMs * 2 ** attempts, maxBackoffMs);
+    // Spread refreshes out so jobs created together do not poll in lockstep.
+    return delay * (0.8 + Math.random() * 0.4);
+  }
+}
+
+export const workflowReconciler = new WorkflowReconciler(config.reconciler);
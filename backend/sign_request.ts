@@ -0,0 +1,526 @@
+import {
+  decodeBase64Url,
+  encodeBase64Url,
+} from "@std/encoding/base64url";
+import { isIpAddress, isLocalHostname, isPublicAddress } from "./addresses.ts";
+import type {
+  SignatureFieldInput,
+  StepCompletionRule,
+  WorkflowRecipientInput,
+  WorkflowStepInput,
+  WorkflowStepType,
+} from "./goodflag.ts";
+import type { JobCursor, JobQuery, JobSortField } from "./storage.ts";
+import type { SigningJobStatus } from "./store.ts";
+
+/** Thrown when a `/api/sign` request is malformed; mapped to a 400. */
+export class SignRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignRequestError";
+  }
+}
+
+export const MAX_STEPS = 10;
+export const MAX_FIELDS = 100;
+export const MAX_RECIPIENTS_PER_STEP = 20;
+const STEP_TYPES: WorkflowStepType[] = ["signature", "approval", "viewer"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const RECIPIENT_TEXT_KEYS = [
+  "firstName",
+  "lastName",
+  "phoneNumber",
+  "preferredLocale",
+  "comments",
+  "consentPageId",
+  "organizationId",
+  "country",
+] as const;
+
+/** A trimmed string field; missing and blank values are undefined. */
+export function optionalText(
+  value: unknown,
+  label: string,
+): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string") {
+    throw new SignRequestError(`${label} must be a string`);
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function requireEmail(raw: unknown, label: string): string {
+  const email = optionalText(raw, label);
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new SignRequestError(`${label} must be a valid email address`);
+  }
+  return email;
+}
+
+/** Parses a `{ email, firstName, ... }` recipient object. */
+export function parseRecipient(
+  raw: unknown,
+  label: string,
+): WorkflowRecipientInput {
+  if (!raw || typeof raw !== "object") {
+    throw new SignRequestError(`${label} must be an object`);
+  }
+  const input = raw as Record<string, unknown>;
+  const email = requireEmail(input.email, `${label}.email`);
+  const recipient: WorkflowRecipientInput = { email };
+  for (const key of RECIPIENT_TEXT_KEYS) {
+    const value = optionalText(input[key], `${label}.${key}`);
+    if (value) recipient[key] = value;
+  }
+  return recipient;
+}
+
+export function parseCompletion(
+  raw: unknown,
+  label: string,
+): StepCompletionRule {
+  if (raw === undefined || raw === null) return "all";
+  if (raw !== "all" && raw !== "any") {
+    throw new SignRequestError(`${label}.completion must be "all" or "any"`);
+  }
+  return raw;
+}
+
+export function parseStepType(raw: unknown, label: string): WorkflowStepType {
+  if (raw === undefined || raw === null) return "signature";
+  if (!STEP_TYPES.includes(raw as WorkflowStepType)) {
+    throw new SignRequestError(
+      `${label}.stepType must be one of ${STEP_TYPES.join(", ")}`,
+    );
+  }
+  return raw as WorkflowStepType;
+}
+
+/**
+ * Parses the JSON `steps` form field: an ordered array of
+ * `{ stepType, recipients: [{ email, firstName, ... }], completion }`.
+ */
+export function parseStepsField(value: string): WorkflowStepInput[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch (_err) {
+    throw new SignRequestError("steps must be valid JSON");
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new SignRequestError("steps must be a non-empty array");
+  }
+  if (raw.length > MAX_STEPS) {
+    throw new SignRequestError(
+      `steps cannot contain more than ${MAX_STEPS} entries`,
+    );
+  }
+
+  const steps = raw.map((entry, index): WorkflowStepInput => {
+    const label = `steps[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      throw new SignRequestError(`${label} must be an object`);
+    }
+    const step = entry as Record<string, unknown>;
+    if (!Array.isArray(step.recipients) || step.recipients.length === 0) {
+      throw new SignRequestError(
+        `${label}.recipients must be a non-empty array`,
+      );
+    }
+    if (step.recipients.length > MAX_RECIPIENTS_PER_STEP) {
+      throw new SignRequestError(
+        `${label}.recipients cannot contain more than ${MAX_RECIPIENTS_PER_STEP} entries`,
+      );
+    }
+    return {
+      stepType: parseStepType(step.stepType, label),
+      recipients: step.recipients.map((recipient, recipientIndex) =>
+        parseRecipient(recipient, `${label}.recipients[${recipientIndex}]`)
+      ),
+      completion: parseCompletion(step.completion, label),
+    };
+  });
+
+  if (steps.every((step) => step.stepType === "viewer")) {
+    throw new SignRequestError(
+      "steps must include at least one signature or approval step",
+    );
+  }
+  return steps;
+}
+
+/** Emails of the recipients of signature steps, in step order. */
+export function signerEmails(steps: WorkflowStepInput[]): string[] {
+  return steps
+    .filter((step) => (step.stepType ?? "signature") === "signature")
+    .flatMap((step) => step.recipients)
+    .map((recipient) => recipient.email);
+}
+
+export interface SignatureFieldRequest extends SignatureFieldInput {
+  /** Index of the uploaded file the field belongs to. */
+  document: number;
+}
+
+export interface FieldsContext {
+  documentCount: number;
+  /** Emails of signature-step recipients a field may be assigned to. */
+  signerEmails: string[];
+}
+
+/** `raw` when it is a finite number passing `check`. */
+export function requireNumber(
+  raw: unknown,
+  label: string,
+  check: (value: number) => boolean,
+  expectation: string,
+): number {
+  if (typeof raw !== "number" || !Number.isFinite(raw) || !check(raw)) {
+    throw new SignRequestError(`${label} must be ${expectation}`);
+  }
+  return raw;
+}
+
+/**
+ * Parses the JSON `fields` form field: an array of
+ * `{ document, page, x, y, width, height, recipient }` placements, where
+ * `document` is the index of the uploaded file (defaults to 0) and `recipient`
+ * the email of the signer the field is meant for.
+ */
+export function parseFieldsField(
+  value: string,
+  context: FieldsContext,
+): SignatureFieldRequest[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch (_err) {
+    throw new SignRequestError("fields must be valid JSON");
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new SignRequestError("fields must be a non-empty array");
+  }
+  if (raw.length > MAX_FIELDS) {
+    throw new SignRequestError(
+      `fields cannot contain more than ${MAX_FIELDS} entries`,
+    );
+  }
+
+  const signerEmails = new Set(
+    context.signerEmails.map((email) => email.toLowerCase()),
+  );
+  return raw.map((entry, index) => {
+    const label = `fields[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      throw new SignRequestError(`${label} must be an object`);
+    }
+    const field = entry as Record<string, unknown>;
+    const document = requireNumber(
+      field.document ?? 0,
+      `${label}.document`,
+      (value) =>
+        Number.isInteger(value) && value >= 0 && value < context.documentCount,
+      `the index of an uploaded file (0-${context.documentCount - 1})`,
+    );
+    const recipientEmail = optionalText(field.recipient, `${label}.recipient`);
+    if (recipientEmail && !signerEmails.has(recipientEmail.toLowerCase())) {
+      throw new SignRequestError(
+        `${label}.recipient must be the email of a signature step recipient`,
+      );
+    }
+    return {
+      document,
+      ...parsePlacement(field, label),
+      ...(recipientEmail ? { recipientEmail } : {}),
+    };
+  });
+}
+
+/** Validates the page and box of a field placement. */
+export function parsePlacement(
+  field: Record<string, unknown>,
+  label: string,
+): Omit<SignatureFieldInput, "recipientEmail"> {
+  const page = requireNumber(
+    field.page,
+    `${label}.page`,
+    (value) => Number.isInteger(value) && (value >= 1 || value === -1),
+    "a page number starting at 1, or -1 for the last page",
+  );
+  const x = requireNumber(
+    field.x,
+    `${label}.x`,
+    (value) => value >= 0,
+    "a non-negative number",
+  );
+  const y = requireNumber(
+    field.y,
+    `${label}.y`,
+    (value) => value >= 0,
+    "a non-negative number",
+  );
+  const width = requireNumber(
+    field.width,
+    `${label}.width`,
+    (value) => value > 0,
+    "a positive number",
+  );
+  const height = requireNumber(
+    field.height,
+    `${label}.height`,
+    (value) => value > 0,
+    "a positive number",
+  );
+  return { page, x, y, width, height };
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const JOB_STATUSES: SigningJobStatus[] = [
+  "pending",
+  "completed",
+  "error",
+  "expired",
+  "canceled",
+];
+const SORT_FIELDS: JobSortField[] = ["createdAt", "updatedAt"];
+
+/** Serializes a page position into the opaque `cursor` query parameter. */
+export function encodeJobCursor(cursor: JobCursor): string {
+  return encodeBase64Url(
+    new TextEncoder().encode(
+      JSON.stringify([cursor.sortBy, cursor.value, cursor.id]),
+    ),
+  );
+}
+
+function decodeJobCursor(value: string, sortBy: JobSortField): JobCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(new TextDecoder().decode(decodeBase64Url(value)));
+  } catch (_err) {
+    throw new SignRequestError("cursor is invalid");
+  }
+  if (
+    !Array.isArray(decoded) ||
+    decoded.length !== 3 ||
+    typeof decoded[1] !== "number" ||
+    typeof decoded[2] !== "string"
+  ) {
+    throw new SignRequestError("cursor is invalid");
+  }
+  if (decoded[0] !== sortBy) {
+    throw new SignRequestError("cursor belongs to a different sort order");
+  }
+  return { sortBy, value: decoded[1], id: decoded[2] };
+}
+
+function listParam(params: URLSearchParams, key: string): string[] {
+  return params
+    .getAll(key)
+    .flatMap((value) => value.split(","))
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+/** Accepts ISO 8601 dates or epoch milliseconds. */
+function timestampParam(
+  params: URLSearchParams,
+  key: string,
+): number | undefined {
+  const value = params.get(key)?.trim();
+  if (!value) return undefined;
+  const timestamp = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new SignRequestError(
+      `${key} must be an ISO 8601 date or epoch milliseconds`,
+    );
+  }
+  return timestamp;
+}
+
+/**
+ * Parses the query string of `GET /api/sign`. Owner scoping is left to the
+ * caller, which knows who is asking.
+ */
+export function parseJobListQuery(
+  params: URLSearchParams,
+): Omit<JobQuery, "ownerId"> {
+  const statuses = listParam(params, "status");
+  for (const status of statuses) {
+    if (!JOB_STATUSES.includes(status as SigningJobStatus)) {
+      throw new SignRequestError(
+        `status must be one of ${JOB_STATUSES.join(", ")}`,
+      );
+    }
+  }
+  const workflowStatuses = listParam(params, "workflowStatus").map((status) =>
+    status.toLowerCase()
+  );
+
+  const sortBy = (params.get("sort") ?? "createdAt") as JobSortField;
+  if (!SORT_FIELDS.includes(sortBy)) {
+    throw new SignRequestError(`sort must be one of ${SORT_FIELDS.join(", ")}`);
+  }
+  const order = params.get("order") ?? "desc";
+  if (order !== "asc" && order !== "desc") {
+    throw new SignRequestError('order must be "asc" or "desc"');
+  }
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new SignRequestError(
+      `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+    );
+  }
+  const cursor = params.get("cursor");
+
+  return {
+    ...(statuses.length > 0
+      ? { statuses: statuses as SigningJobStatus[] }
+      : {}),
+    ...(workflowStatuses.length > 0 ? { workflowStatuses } : {}),
+    signerEmail: optionalText(params.get("signerEmail"), "signerEmail"),
+    fileName: optionalText(params.get("fileName"), "fileName"),
+    createdFrom: timestampParam(params, "createdFrom"),
+    createdTo: timestampParam(params, "createdTo"),
+    updatedFrom: timestampParam(params, "updatedFrom"),
+    updatedTo: timestampParam(params, "updatedTo"),
+    sortBy,
+    order,
+    limit,
+    ...(cursor ? { after: decodeJobCursor(cursor, sortBy) } : {}),
+  };
+}
+
+/**
+ * Parses the body of `POST /api/sign/:jobId/remind`: an optional list of
+ * `recipients` to remind instead of every pending one.
+ */
+export function parseReminderRequest(
+  body: Record<string, unknown>,
+): { recipients?: string[] } {
+  if (body.recipients === undefined) return {};
+  if (!Array.isArray(body.recipients) || body.recipients.length === 0) {
+    throw new SignRequestError("recipients must be a non-empty array");
+  }
+  return {
+    recipients: body.recipients.map((email, index) =>
+      requireEmail(email, `recipients[${index}]`)
+    ),
+  };
+}
+
+export interface ReminderScheduleLimits {
+  minIntervalMs: number;
+  maxCount: number;
+}
+
+/**
+ * Parses the body of `PUT /api/sign/:jobId/reminders`:
+ * `{ intervalHours, maxCount }`.
+ */
+export function parseReminderSchedule(
+  body: Record<string, unknown>,
+  limits: ReminderScheduleLimits,
+): { intervalMs: number; maxCount: number } {
+  const minHours = limits.minIntervalMs / (1000 * 60 * 60);
+  const intervalHours = requireNumber(
+    body.intervalHours,
+    "intervalHours",
+    (value) => value >= minHours,
+    `a number of hours of at least ${minHours}`,
+  );
+  const maxCount = requireNumber(
+    body.maxCount,
+    "maxCount",
+    (value) => Number.isInteger(value) && value >= 1 &&
+      value <= limits.maxCount,
+    `an integer between 1 and ${limits.maxCount}`,
+  );
+  return { intervalMs: intervalHours * 1000 * 60 * 60, maxCount };
+}
+
+export interface RecipientReplacementRequest {
+  /** The recipient being replaced. */
+  recipientEmail: string;
+  email?: string;
+  phoneNumber?: string;
+}
+
+/**
+ * Parses the body of `POST /api/sign/:jobId/replace-recipient`:
+ * `{ recipientEmail, email, phoneNumber }`, where at least one of `email` and
+ * `phoneNumber` is set.
+ */
+export function parseRecipientReplacement(
+  body: Record<string, unknown>,
+): RecipientReplacementRequest {
+  const recipientEmail = requireEmail(body.recipientEmail, "recipientEmail");
+  const email = body.email === undefined
+    ? undefined
+    : requireEmail(body.email, "email");
+  const phoneNumber = optionalText(body.phoneNumber, "phoneNumber");
+  if (!email && !phoneNumber) {
+    throw new SignRequestError("email or phoneNumber is required");
+  }
+  return {
+    recipientEmail,
+    ...(email ? { email } : {}),
+    ...(phoneNumber ? { phoneNumber } : {}),
+  };
+}
+
+/** Reads a JSON object request body; an empty body reads as `{}`. */
+export async function readJsonBody(
+  req: Request,
+): Promise<Record<string, unknown>> {
+  const text = await req.text();
+  if (!text.trim()) return {};
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (_err) {
+    throw new SignRequestError("Body must be valid JSON");
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new SignRequestError("Body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Parses the `callback_url` field of a sign request: an http(s) URL, on one
+ * of `allowedHosts` when that list is not empty. Without a list, loopback,
+ * private and link-local addresses are refused; names are checked again
+ * when a callback is sent, once they resolve.
+ */
+export function parseCallbackUrl(
+  value: string,
+  allowedHosts: string[],
+): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch (_err) {
+    throw new SignRequestError("callback_url must be an http(s) URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new SignRequestError("callback_url must be an http(s) URL");
+  }
+  if (allowedHosts.includes(url.hostname)) return url.href;
+  if (allowedHosts.length > 0) {
+    throw new SignRequestError(
+      `callback_url host ${url.hostname} is not allowed`,
+    );
+  }
+  if (
+    isLocalHostname(url.hostname) ||
+    (isIpAddress(url.hostname) && !isPublicAddress(url.hostname))
+  ) {
+    throw new SignRequestError(
+      "callback_url must not point at a loopback or private address",
+    );
+  }
+  return url.href;
+}
@@ -0,0 +1,215 @@
+import { assertEquals } from "@std/assert";
+import {
+  parseCallbackUrl,
+  parseFieldsField,
+  parseStepsField,
+  SignRequestError,
+  signerEmails,
+} from "./sign_request.ts";
+
+function rejection(run: () => unknown): string | undefined {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof SignRequestError) return error.message;
+    throw error;
+  }
+  return undefined;
+}
+
+Deno.test("accepts public callback URLs", () => {
+  assertEquals(
+    parseCallbackUrl("https://hooks.example.com/sign", []),
+    "https://hooks.example.com/sign",
+  );
+  assertEquals(
+    parseCallbackUrl("http://8.8.8.8:8080/hooks", []),
+    "http://8.8.8.8:8080/hooks",
+  );
+});
+
+Deno.test("rejects callback URLs on the backend's own network", () => {
+  for (
+    const url of [
+      "http://127.0.0.1/hooks",
+      "http://2130706433/hooks",
+      "http://localhost:8000/hooks",
+      "http://169.254.169.254/latest/meta-data",
+      "http://10.0.0.5/hooks",
+      "http://[::1]/hooks",
+      "http://[::ffff:192.168.0.1]/hooks",
+    ]
+  ) {
+    assertEquals(
+      rejection(() => parseCallbackUrl(url, [])),
+      "callback_url must not point at a loopback or private address",
+      url,
+    );
+  }
+  assertEquals(
+    rejection(() => parseCallbackUrl("ftp://example.com/hooks", [])),
+    "callback_url must be an http(s) URL",
+  );
+});
+
+Deno.test("limits callback URLs to the allowed hosts", () => {
+  const allowed = ["hooks.example.com", "127.0.0.1"];
+  assertEquals(
+    parseCallbackUrl("http://127.0.0.1:9000/hooks", allowed),
+    "http://127.0.0.1:9000/hooks",
+  );
+  assertEquals(
+    rejection(() => parseCallbackUrl("https://example.org/hooks", allowed)),
+    "callback_url host example.org is not allowed",
+  );
+});
+
+Deno.test("parses ordered workflow steps", () => {
+  const steps = parseStepsField(JSON.stringify([
+    { stepType: "approval", recipients: [{ email: "legal@example.com" }] },
+    {
+      recipients: [
+        { email: " ada@example.com ", firstName: "Ada", lastName: "  " },
+        { email: "deputy@example.com", phoneNumber: "+33600000000" },
+      ],
+      completion: "any",
+    },
+    { stepType: "viewer", recipients: [{ email: "hr@example.com" }] },
+  ]));
+  assertEquals(steps, [
+    {
+      stepType: "approval",
+      recipients: [{ email: "legal@example.com" }],
+      completion: "all",
+    },
+    {
+      stepType: "signature",
+      recipients: [
+        { email: "ada@example.com", firstName: "Ada" },
+        { email: "deputy@example.com", phoneNumber: "+33600000000" },
+      ],
+      completion: "any",
+    },
+    {
+      stepType: "viewer",
+      recipients: [{ email: "hr@example.com" }],
+      completion: "all",
+    },
+  ]);
+  assertEquals(signerEmails(steps), ["ada@example.com", "deputy@example.com"]);
+});
+
+Deno.test("rejects malformed workflow steps", () => {
+  const cases: Array<[unknown, string]> = [
+    [[], "steps must be a non-empty array"],
+    [{}, "steps must be a non-empty array"],
+    [
+      Array(11).fill({ recipients: [{ email: "a@example.com" }] }),
+      "steps cannot contain more than 10 entries",
+    ],
+    [["ada@example.com"], "steps[0] must be an object"],
+    [[{ recipients: [] }], "steps[0].recipients must be a non-empty array"],
+    [
+      [{ recipients: [{ email: "ada" }] }],
+      "steps[0].recipients[0].email must be a valid email address",
+    ],
+    [
+      [{ recipients: [{ email: "a@example.com", firstName: 1 }] }],
+      "steps[0].recipients[0].firstName must be a string",
+    ],
+    [
+      [{ recipients: [{ email: "a@example.com" }], completion: "most" }],
+      'steps[0].completion must be "all" or "any"',
+    ],
+    [
+      [{ recipients: [{ email: "a@example.com" }], stepType: "witness" }],
+      "steps[0].stepType must be one of signature, approval, viewer",
+    ],
+    [
+      [{ recipients: [{ email: "a@example.com" }], stepType: "viewer" }],
+      "steps must include at least one signature or approval step",
+    ],
+  ];
+  for (const [steps, message] of cases) {
+    assertEquals(
+      rejection(() => parseStepsField(JSON.stringify(steps))),
+      message,
+    );
+  }
+  assertEquals(
+    rejection(() => parseStepsField("[{")),
+    "steps must be valid JSON",
+  );
+});
+
+const FIELD = { page: 1, x: 10, y: 20, width: 150, height: 60 };
+
+Deno.test("places fields on any of the uploaded documents", () => {
+  const context = { documentCount: 3, signerEmails: [] };
+  assertEquals(
+    parseFieldsField(
+      JSON.stringify([FIELD, { ...FIELD, document: 2, page: -1 }]),
+      context,
+    ),
+    [
+      { document: 0, ...FIELD },
+      { document: 2, ...FIELD, page: -1 },
+    ],
+  );
+  for (const document of [3, -1, 1.5, "1"]) {
+    assertEquals(
+      rejection(() =>
+        parseFieldsField(JSON.stringify([{ ...FIELD, document }]), context)
+      ),
+      "fields[0].document must be the index of an uploaded file (0-2)",
+      String(document),
+    );
+  }
+});
+
+Deno.test("parses signature field placements for signers", () => {
+  const context = {
+    documentCount: 1,
+    signerEmails: ["ada@example.com", "grace@example.com"],
+  };
+  assertEquals(
+    parseFieldsField(
+      JSON.stringify([
+        { ...FIELD, recipient: "ADA@example.com" },
+        { ...FIELD, x: 0, y: 0, recipient: "" },
+      ]),
+      context,
+    ),
+    [
+      { document: 0, ...FIELD, recipientEmail: "ADA@example.com" },
+      { document: 0, ...FIELD, x: 0, y: 0 },
+    ],
+  );
+
+  const cases: Array<[unknown, string]> = [
+    [[], "fields must be a non-empty array"],
+    [Array(101).fill(FIELD), "fields cannot contain more than 100 entries"],
+    [[null], "fields[0] must be an object"],
+    [
+      [{ ...FIELD, page: 0 }],
+      "fields[0].page must be a page number starting at 1, or -1 for the last page",
+    ],
+    [[{ ...FIELD, x: -1 }], "fields[0].x must be a non-negative number"],
+    [[{ ...FIELD, y: "20" }], "fields[0].y must be a non-negative number"],
+    [[{ ...FIELD, width: 0 }], "fields[0].width must be a positive number"],
+    [
+      [{ ...FIELD, height: null }],
+      "fields[0].height must be a positive number",
+    ],
+    [
+      [{ ...FIELD, recipient: "legal@example.com" }],
+      "fields[0].recipient must be the email of a signature step recipient",
+    ],
+  ];
+  for (const [fields, message] of cases) {
+    assertEquals(
+      rejection(() => parseFieldsField(JSON.stringify(fields), context)),
+      message,
+    );
+  }
+});
@@ -0,0 +1,624 @@
+/**
+ * Minimal PDF signature verification: finds signature dictionaries through
+ * their `/ByteRange`, checks the CMS (PKCS #7) signature each one holds
+ * against the signed bytes and reads the signer's certificate chain.
+ * Certificates are reported, not validated against a trust store or for
+ * revocation. Only DER/BER CMS signatures are understood, not the legacy
+ * `adbe.x509.rsa_sha1` format.
+ */
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  notBefore?: string;
+  notAfter?: string;
+}
+
+export interface PdfSignatureReport {
+  /** `signature`, or `timestamp` for an RFC 3161 document timestamp. */
+  kind: "signature" | "timestamp";
+  /** `/SubFilter` of the signature dictionary, e.g. `ETSI.CAdES.detached`. */
+  format?: string;
+  /** Subject of the signer's certificate. */
+  signer?: string;
+  /** ISO date from the signed attributes, else the dictionary's `/M`. */
+  signingTime?: string;
+  digestAlgorithm?: string;
+  /** The bytes covered by `/ByteRange` hash to the digest that was signed. */
+  digestValid: boolean;
+  /** The signer's key verifies the signature; null when not supported. */
+  signatureValid: boolean | null;
+  /** The signed byte ranges reach the end of the file. */
+  coversWholeDocument: boolean;
+  /** The signer's certificate first, then its issuers found in the CMS. */
+  certificates: CertificateInfo[];
+  error?: string;
+}
+
+export interface PdfVerification {
+  /** The document carries at least one signature. */
+  signed: boolean;
+  /**
+   * Signed, every signature's digest and cryptography hold, and nothing was
+   * appended after the last signature. A signature whose cryptography could
+   * not be checked does not count as holding.
+   */
+  valid: boolean;
+  /** No signature covers the final bytes: something was appended later. */
+  modifiedAfterSigning: boolean;
+  signatures: PdfSignatureReport[];
+}
+
+/** Thrown for signature contents this reader cannot decode. */
+export class SignatureFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SignatureFormatError";
+  }
+}
+
+const OID = {
+  signedData: "1.2.840.113549.1.7.2",
+  tstInfo: "1.2.840.113549.1.9.16.1.4",
+  messageDigest: "1.2.840.113549.1.9.4",
+  signingTime: "1.2.840.113549.1.9.5",
+  rsaEncryption: "1.2.840.113549.1.1.1",
+  ecPublicKey: "1.2.840.10045.2.1",
+};
+
+const HASHES: Record<string, string> = {
+  "1.3.14.3.2.26": "SHA-1",
+  "2.16.840.1.101.3.4.2.1": "SHA-256",
+  "2.16.840.1.101.3.4.2.2": "SHA-384",
+  "2.16.840.1.101.3.4.2.3": "SHA-512",
+};
+
+/** Signature algorithms that name their hash, and the key type they need. */
+const SIGNATURE_ALGORITHMS: Record<string, { key: string; hash: string }> = {
+  "1.2.840.113549.1.1.5": { key: "RSA", hash: "SHA-1" },
+  "1.2.840.113549.1.1.11": { key: "RSA", hash: "SHA-256" },
+  "1.2.840.113549.1.1.12": { key: "RSA", hash: "SHA-384" },
+  "1.2.840.113549.1.1.13": { key: "RSA", hash: "SHA-512" },
+  "1.2.840.10045.4.1": { key: "EC", hash: "SHA-1" },
+  "1.2.840.10045.4.3.2": { key: "EC", hash: "SHA-256" },
+  "1.2.840.10045.4.3.3": { key: "EC", hash: "SHA-384" },
+  "1.2.840.10045.4.3.4": { key: "EC", hash: "SHA-512" },
+};
+
+const CURVES: Record<string, { name: string; size: number }> = {
+  "1.2.840.10045.3.1.7": { name: "P-256", size: 32 },
+  "1.3.132.0.34": { name: "P-384", size: 48 },
+  "1.3.132.0.35": { name: "P-521", size: 66 },
+};
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  "2.5.4.3": "CN",
+  "2.5.4.4": "SN",
+  "2.5.4.5": "serialNumber",
+  "2.5.4.6": "C",
+  "2.5.4.7": "L",
+  "2.5.4.8": "ST",
+  "2.5.4.10": "O",
+  "2.5.4.11": "OU",
+  "2.5.4.42": "GN",
+  "2.5.4.97": "organizationIdentifier",
+  "1.2.840.113549.1.9.1": "emailAddress",
+};
+
+const TAG = {
+  octetString: 0x04,
+  oid: 0x06,
+  utcTime: 0x17,
+  sequence: 0x30,
+  set: 0x31,
+  context0: 0xa0,
+};
+
+interface DerNode {
+  tag: number;
+  /** Header and contents, as encoded. */
+  raw: Uint8Array;
+  contents: Uint8Array;
+}
+
+/** Reads one BER/DER element, including indefinite-length constructed ones. */
+function readNode(bytes: Uint8Array, offset = 0): DerNode {
+  if (offset + 2 > bytes.length) {
+    throw new SignatureFormatError("Truncated ASN.1 element");
+  }
+  const tag = bytes[offset];
+  let position = offset + 1;
+  const first = bytes[position++];
+  if (first === 0x80) {
+    // Indefinite length: children run until an end-of-contents marker.
+    const start = position;
+    while (bytes[position] !== 0 || bytes[position + 1] !== 0) {
+      position += readNode(bytes, position).raw.length;
+      if (position + 2 > bytes.length) {
+        throw new SignatureFormatError("Unterminated ASN.1 element");
+      }
+    }
+    return {
+      tag,
+      raw: bytes.subarray(offset, position + 2),
+      contents: bytes.subarray(start, position),
+    };
+  }
+  let length = first;
+  if (first & 0x80) {
+    const count = first & 0x7f;
+    if (count > 4) throw new SignatureFormatError("ASN.1 length too large");
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[position++];
+  }
+  if (position + length > bytes.length) {
+    throw new SignatureFormatError("Truncated ASN.1 element");
+  }
+  return {
+    tag,
+    raw: bytes.subarray(offset, position + length),
+    contents: bytes.subarray(position, position + length),
+  };
+}
+
+function childrenOf(node: DerNode): DerNode[] {
+  const children: DerNode[] = [];
+  let offset = 0;
+  while (offset < node.contents.length) {
+    const child = readNode(node.contents, offset);
+    children.push(child);
+    offset += child.raw.length;
+  }
+  return children;
+}
+
+/** Contents of an OCTET STRING, joining the chunks of a constructed one. */
+function octets(node: DerNode): Uint8Array {
+  if (node.tag !== (TAG.octetString | 0x20)) return node.contents;
+  const parts = childrenOf(node).map(octets);
+  const joined = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+function decodeOid(node: DerNode): string {
+  if (node.tag !== TAG.oid) throw new SignatureFormatError("Expected an OID");
+  const bytes = node.contents;
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (const byte of bytes.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+function decodeString(node: DerNode): string {
+  switch (node.tag) {
+    case 0x1e: {
+      // BMPString: UTF-16BE.
+      let text = "";
+      for (let i = 0; i + 1 < node.contents.length; i += 2) {
+        text += String.fromCharCode(
+          (node.contents[i] << 8) | node.contents[i + 1],
+        );
+      }
+      return text;
+    }
+    case 0x14:
+      return new TextDecoder("latin1").decode(node.contents);
+    default:
+      return new TextDecoder().decode(node.contents);
+  }
+}
+
+function decodeTime(node: DerNode): string | undefined {
+  const text = new TextDecoder().decode(node.contents);
+  const match = node.tag === TAG.utcTime
+    ? text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/)
+    : text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?(?:\.\d+)?Z$/);
+  if (!match) return undefined;
+  const [, rawYear, month, day, hour, minute, second = "00"] = match;
+  const year = node.tag === TAG.utcTime
+    ? (Number(rawYear) < 50 ? "20" : "19") + rawYear
+    : rawYear;
+  const date = new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}Z`,
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/** Formats an X.500 name the way RFC 4514 does, most specific first. */
+function formatName(node: DerNode): string {
+  const parts: string[] = [];
+  for (const rdn of childrenOf(node)) {
+    for (const attribute of childrenOf(rdn)) {
+      const [type, value] = childrenOf(attribute);
+      const oid = decodeOid(type);
+      parts.push(`${NAME_ATTRIBUTES[oid] ?? oid}=${decodeString(value)}`);
+    }
+  }
+  return parts.reverse().join(", ");
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+interface Certificate {
+  info: CertificateInfo;
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  serial: Uint8Array;
+  publicKey: DerNode;
+}
+
+function parseCertificate(node: DerNode): Certificate {
+  const [tbs] = childrenOf(node);
+  const fields = childrenOf(tbs);
+  // The version is an optional explicit [0] in front.
+  const base = fields[0].tag === TAG.context0 ? 1 : 0;
+  const serial = fields[base];
+  const issuer = fields[base + 2];
+  const [notBefore, notAfter] = childrenOf(fields[base + 3]);
+  const subject = fields[base + 4];
+  return {
+    info: {
+      subject: formatName(subject),
+      issuer: formatName(issuer),
+      serialNumber: toHex(serial.contents),
+      notBefore: decodeTime(notBefore),
+      notAfter: decodeTime(notAfter),
+    },
+    issuer: issuer.raw,
+    subject: subject.raw,
+    serial: serial.contents,
+    publicKey: fields[base + 5],
+  };
+}
+
+/** Follows issuers from the signer's certificate through `certificates`. */
+function certificateChain(
+  signer: Certificate,
+  certificates: Certificate[],
+): Certificate[] {
+  const chain = [signer];
+  let current = signer;
+  while (!sameBytes(current.issuer, current.subject)) {
+    const issuer = certificates.find((candidate) =>
+      !chain.includes(candidate) && sameBytes(candidate.subject, current.issuer)
+    );
+    if (!issuer) break;
+    chain.push(issuer);
+    current = issuer;
+  }
+  return chain;
+}
+
+/** Converts a DER ECDSA signature into WebCrypto's fixed-size `r || s`. */
+function rawEcdsaSignature(signature: Uint8Array, size: number): Uint8Array {
+  const raw = new Uint8Array(size * 2);
+  childrenOf(readNode(signature)).forEach((integer, index) => {
+    let value = integer.contents;
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    raw.set(value, index * size + size - value.length);
+  });
+  return raw;
+}
+
+async function verifySignature(
+  publicKey: DerNode,
+  signatureAlgorithm: string,
+  digestHash: string,
+  data: Uint8Array,
+  signature: Uint8Array,
+): Promise<boolean | null> {
+  const [algorithm] = childrenOf(publicKey);
+  const [keyOid, parameters] = childrenOf(algorithm);
+  const keyType = decodeOid(keyOid);
+  const hash = SIGNATURE_ALGORITHMS[signatureAlgorithm]?.hash ?? digestHash;
+  const spki = publicKey.raw.slice();
+  const signed = data.slice();
+  try {
+    if (
+      keyType === OID.rsaEncryption &&
+      (signatureAlgorithm === OID.rsaEncryption ||
+        SIGNATURE_ALGORITHMS[signatureAlgorithm]?.key === "RSA")
+    ) {
+      const key = await crypto.subtle.importKey(
+        "spki",
+        spki,
+        { name: "RSASSA-PKCS1-v1_5", hash },
+        false,
+        ["verify"],
+      );
+      return await crypto.subtle.verify(
+        "RSASSA-PKCS1-v1_5",
+        key,
+        signature.slice(),
+        signed,
+      );
+    }
+    if (keyType === OID.ecPublicKey) {
+      const curve = CURVES[decodeOid(parameters)];
+      if (!curve) return null;
+      const key = await crypto.subtle.importKey(
+        "spki",
+        spki,
+        { name: "ECDSA", namedCurve: curve.name },
+        false,
+        ["verify"],
+      );
+      return await crypto.subtle.verify(
+        { name: "ECDSA", hash },
+        key,
+        rawEcdsaSignature(signature, curve.size).slice(),
+        signed,
+      );
+    }
+  } catch (error) {
+    // Keys or curves WebCrypto cannot import are reported as unsupported.
+    if (!(error instanceof DOMException)) throw error;
+  }
+  return null;
+}
+
+async function digest(hash: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(hash, data.slice()));
+}
+
+type CmsCheck = Pick<
+  PdfSignatureReport,
+  | "kind"
+  | "signer"
+  | "signingTime"
+  | "digestAlgorithm"
+  | "digestValid"
+  | "signatureValid"
+  | "certificates"
+>;
+
+/** Checks a CMS SignedData structure over `signedBytes`. */
+async function checkCms(
+  contents: Uint8Array,
+  signedBytes: Uint8Array,
+): Promise<CmsCheck> {
+  const [contentType, wrapped] = childrenOf(readNode(contents));
+  if (decodeOid(contentType) !== OID.signedData || !wrapped) {
+    throw new SignatureFormatError("Signature is not a CMS SignedData");
+  }
+  const signedData = childrenOf(childrenOf(wrapped)[0]);
+  const [eContentType, eContent] = childrenOf(signedData[2]);
+  const certificates = signedData
+    .filter((node) => node.tag === TAG.context0)
+    .flatMap(childrenOf)
+    .filter((node) => node.tag === TAG.sequence)
+    .map(parseCertificate);
+  const signerInfos = signedData[signedData.length - 1];
+  const [signerInfo] = childrenOf(signerInfos);
+  if (!signerInfo) throw new SignatureFormatError("Signature has no signer");
+
+  const fields = childrenOf(signerInfo);
+  const [, sid, digestAlgorithm] = fields;
+  let next = 3;
+  const signedAttributes = fields[next].tag === TAG.context0
+    ? fields[next++]
+    : undefined;
+  const signatureAlgorithm = decodeOid(childrenOf(fields[next++])[0]);
+  const signature = octets(fields[next]);
+
+  const hash = HASHES[decodeOid(childrenOf(digestAlgorithm)[0])];
+  if (!hash) throw new SignatureFormatError("Unsupported digest algorithm");
+
+  // Signer identified by issuer and serial number; a subject key identifier
+  // ([0]) is rare enough to fall back to the first certificate.
+  let signer = certificates[0];
+  if (sid.tag === TAG.sequence) {
+    const [issuer, serial] = childrenOf(sid);
+    signer = certificates.find((certificate) =>
+      sameBytes(certificate.issuer, issuer.raw) &&
+      sameBytes(certificate.serial, serial.contents)
+    ) ?? signer;
+  }
+
+  // A document timestamp signs a TSTInfo whose message imprint is the
+  // document's digest; a signature signs the document directly.
+  const timestamp = decodeOid(eContentType) === OID.tstInfo;
+  const documentDigest = await digest(hash, signedBytes);
+  let content = signedBytes;
+  let digestValid = true;
+  if (timestamp) {
+    content = octets(childrenOf(eContent)[0]);
+    const [, , messageImprint] = childrenOf(readNode(content));
+    const [imprintAlgorithm, imprint] = childrenOf(messageImprint);
+    const imprintHash = HASHES[decodeOid(childrenOf(imprintAlgorithm)[0])];
+    digestValid = !!imprintHash &&
+      sameBytes(await digest(imprintHash, signedBytes), imprint.contents);
+  }
+
+  let signingTime: string | undefined;
+  let signedPayload = content;
+  if (signedAttributes) {
+    let messageDigest: Uint8Array | undefined;
+    for (const attribute of childrenOf(signedAttributes)) {
+      const [type, values] = childrenOf(attribute);
+      const [value] = childrenOf(values);
+      switch (decodeOid(type)) {
+        case OID.messageDigest:
+          messageDigest = value.contents;
+          break;
+        case OID.signingTime:
+          signingTime = decodeTime(value);
+          break;
+      }
+    }
+    const expected = timestamp ? await digest(hash, content) : documentDigest;
+    digestValid &&= !!messageDigest && sameBytes(messageDigest, expected);
+    // The signature covers the attributes encoded as a SET, not as [0].
+    signedPayload = signedAttributes.raw.slice();
+    signedPayload[0] = TAG.set;
+  } else if (!timestamp && eContent) {
+    // adbe.pkcs7.sha1: the signed content is the document's digest.
+    signedPayload = octets(childrenOf(eContent)[0]);
+    digestValid = sameBytes(signedPayload, documentDigest);
+  }
+
+  return {
+    kind: timestamp ? "timestamp" : "signature",
+    signer: signer?.info.subject,
+    signingTime,
+    digestAlgorithm: hash,
+    digestValid,
+    signatureValid: signer
+      ? await verifySignature(
+        signer.publicKey,
+        signatureAlgorithm,
+        hash,
+        signedPayload,
+        signature,
+      )
+      : null,
+    certificates: signer
+      ? certificateChain(signer, certificates).map(({ info }) => info)
+      : [],
+  };
+}
+
+const PDF_DATE_PATTERN =
+  /^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?)?/;
+const BYTE_RANGE_PATTERN =
+  /\/ByteRange\s*\[\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*\]/g;
+
+/** Parses a PDF date such as `D:20240131120000+01'00'`. */
+function parsePdfDate(value: string): string | undefined {
+  const match = value.match(PDF_DATE_PATTERN);
+  if (!match) return undefined;
+  const [
+    ,
+    year,
+    month = "01",
+    day = "01",
+    hour = "00",
+    minute = "00",
+    second = "00",
+    sign,
+    offsetHours = "00",
+    offsetMinutes = "00",
+  ] = match;
+  const offset = sign === "+" || sign === "-"
+    ? `${sign}${offsetHours}:${offsetMinutes}`
+    : "Z";
+  const date = new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`,
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, "");
+  const bytes = new Uint8Array(Math.floor(clean.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Verifies every signature of a PDF. Problems with one signature are
+ * reported on it rather than thrown.
+ */
+export async function verifyPdfSignatures(
+  bytes: Uint8Array,
+): Promise<PdfVerification> {
+  // windows-1252 maps one byte to one character, so offsets line up.
+  const text = new TextDecoder("latin1").decode(bytes);
+  let end = bytes.length;
+  while (end > 0 && [0x00, 0x0a, 0x0d, 0x20].includes(bytes[end - 1])) end--;
+
+  const signatures: PdfSignatureReport[] = [];
+  const seen = new Set<string>();
+  for (const match of text.matchAll(BYTE_RANGE_PATTERN)) {
+    const [start1, length1, start2, length2] = match.slice(1).map(Number);
+    const key = match.slice(1).join(" ");
+    // Incremental updates may repeat an unchanged signature dictionary.
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const objectStart = Math.max(0, text.lastIndexOf(" obj", match.index));
+    const objectEnd = text.indexOf("endobj", match.index);
+    const dictionary = text.slice(
+      objectStart,
+      objectEnd === -1 ? undefined : objectEnd,
+    );
+    const format = dictionary.match(/\/SubFilter\s*\/([^\s/<>[\]()]+)/)?.[1];
+    const modified = dictionary.match(/\/M\s*\((D:[^)]*)\)/)?.[1];
+    const report: PdfSignatureReport = {
+      kind: format === "ETSI.RFC3161" ? "timestamp" : "signature",
+      ...(format ? { format } : {}),
+      ...(modified ? { signingTime: parsePdfDate(modified) } : {}),
+      digestValid: false,
+      signatureValid: null,
+      coversWholeDocument: start2 + length2 >= end,
+      certificates: [],
+    };
+    signatures.push(report);
+
+    if (
+      start1 + length1 > start2 || start2 + length2 > bytes.length ||
+      text[start1 + length1] !== "<"
+    ) {
+      report.error = "The signature's byte range does not match the file";
+      continue;
+    }
+    const signedBytes = new Uint8Array(length1 + length2);
+    signedBytes.set(bytes.subarray(start1, start1 + length1));
+    signedBytes.set(bytes.subarray(start2, start2 + length2), length1);
+    try {
+      const check = await checkCms(
+        hexToBytes(text.slice(start1 + length1, start2)),
+        signedBytes,
+      );
+      Object.assign(report, {
+        ...check,
+        signingTime: check.signingTime ?? report.signingTime,
+      });
+    } catch (error) {
+      // Structures missing expected elements surface as TypeErrors.
+      if (error instanceof SignatureFormatError) {
+        report.error = error.message;
+      } else if (error instanceof TypeError) {
+        report.error = "The signature could not be decoded";
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  const signed = signatures.length > 0;
+  const modifiedAfterSigning = signed &&
+    !signatures.some((signature) => signature.coversWholeDocument);
+  return {
+    signed,
+    valid: signed &&
+      signatures.every((signature) =>
+        !signature.error && signature.digestValid &&
+        signature.signatureValid === true
+      ) &&
+      !modifiedAfterSigning,
+    modifiedAfterSigning,
+    signatures,
+  };
+}
@@ -0,0 +1,481 @@
+import type {
+  SigningJob,
+  SigningJobDocumentVerification,
+  SigningJobEvent,
+  SigningJobStatus,
+  SigningJobVerification,
+} from "./store.ts";
+
+export type JobSortField = "createdAt" | "updatedAt";
+
+/** Position after the last job of a page, for keyset pagination. */
+export interface JobCursor {
+  sortBy: JobSortField;
+  value: number;
+  id: string;
+}
+
+/** Filters, ordering and page of a job search; every filter is optional. */
+export interface JobQuery {
+  ownerId?: string;
+  statuses?: SigningJobStatus[];
+  workflowStatuses?: string[];
+  /** Matches any recipient of any step, case-insensitively. */
+  signerEmail?: string;
+  /** Case-insensitive substring of any document's file name. */
+  fileName?: string;
+  /** Inclusive epoch-millisecond bounds. */
+  createdFrom?: number;
+  createdTo?: number;
+  updatedFrom?: number;
+  updatedTo?: number;
+  sortBy: JobSortField;
+  order: "asc" | "desc";
+  limit: number;
+  after?: JobCursor;
+}
+
+export interface JobPage {
+  jobs: SigningJob[];
+  /** Pass back as `after` to get the next page; absent on the last page. */
+  next?: JobCursor;
+}
+
+/** A job and the version it was read at, for conditional writes. */
+export interface VersionedJob {
+  job: SigningJob;
+  version: string;
+}
+
+/** Persists job metadata. Implementations return copies, never live objects. */
+export interface JobRepository {
+  get(id: string): Promise<SigningJob | undefined>;
+  getVersioned(id: string): Promise<VersionedJob | undefined>;
+  put(job: SigningJob): Promise<void>;
+  /**
+   * Writes `job` only if it is still at `version`, so concurrent writers,
+   * in this process or another, cannot overwrite each other's changes.
+   * Returns whether it did.
+   */
+  replace(job: SigningJob, version: string): Promise<boolean>;
+  delete(id: string): Promise<void>;
+  findByWorkflowId(workflowId: string): Promise<SigningJob | undefined>;
+  list(): AsyncIterable<SigningJob>;
+  query(query: JobQuery): Promise<JobPage>;
+}
+
+function inRange(value: number, from?: number, to?: number): boolean {
+  return (from === undefined || value >= from) &&
+    (to === undefined || value <= to);
+}
+
+export function matchesJobQuery(job: SigningJob, query: JobQuery): boolean {
+  if (query.ownerId !== undefined && job.ownerId !== query.ownerId) {
+    return false;
+  }
+  if (query.statuses && !query.statuses.includes(job.status)) return false;
+  if (
+    query.workflowStatuses &&
+    !query.workflowStatuses.includes(job.workflowStatus?.toLowerCase() ?? "")
+  ) {
+    return false;
+  }
+  if (query.signerEmail) {
+    const email = query.signerEmail.toLowerCase();
+    const recipients = (job.steps ?? []).flatMap((step) => step.recipients);
+    if (!recipients.some((recipient) => recipient.toLowerCase() === email)) {
+      return false;
+    }
+  }
+  if (query.fileName) {
+    const needle = query.fileName.toLowerCase();
+    if (
+      !job.documents.some((document) =>
+        document.fileName.toLowerCase().includes(needle)
+      )
+    ) {
+      return false;
+    }
+  }
+  return inRange(job.createdAt, query.createdFrom, query.createdTo) &&
+    inRange(job.updatedAt, query.updatedFrom, query.updatedTo);
+}
+
+type JobSortKey = Pick<JobCursor, "value" | "id">;
+
+/** Orders by the sort value, then by ID so equal timestamps stay stable. */
+function compareSortKeys(
+  a: JobSortKey,
+  b: JobSortKey,
+  order: "asc" | "desc",
+): number {
+  const difference = a.value - b.value ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return order === "asc" ? difference : -difference;
+}
+
+/**
+ * Applies a query to jobs streamed in any order. Backends without secondary
+ * indexes use this directly; indexed backends can push filters down instead.
+ */
+export async function collectJobPage(
+  jobs: AsyncIterable<SigningJob>,
+  query: JobQuery,
+): Promise<JobPage> {
+  const { sortBy, order, after } = query;
+  const sortKey = (job: SigningJob): JobSortKey => ({
+    value: job[sortBy],
+    id: job.id,
+  });
+  const matches: SigningJob[] = [];
+  for await (const job of jobs) {
+    if (!matchesJobQuery(job, query)) continue;
+    if (after && compareSortKeys(sortKey(job), after, order) <= 0) continue;
+    matches.push(job);
+  }
+  matches.sort((a, b) => compareSortKeys(sortKey(a), sortKey(b), order));
+
+  const page = matches.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    jobs: page,
+    next: matches.length > query.limit && last
+      ? { sortBy, value: last[sortBy], id: last.id }
+      : undefined,
+  };
+}
+
+/** Persists binary payloads such as signed documents, addressed by key. */
+export interface BlobStore {
+  put(key: string, bytes: Uint8Array): Promise<void>;
+  get(key: string): Promise<Uint8Array | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryJobRepository implements JobRepository {
+  #jobs = new Map<string, SigningJob>();
+  #versions = new Map<string, number>();
+  #nextVersion = 1;
+
+  get(id: string): Promise<SigningJob | undefined> {
+    const job = this.#jobs.get(id);
+    return Promise.resolve(job ? structuredClone(job) : undefined);
+  }
+
+  getVersioned(id: string): Promise<VersionedJob | undefined> {
+    const job = this.#jobs.get(id);
+    if (!job) return Promise.resolve(undefined);
+    return Promise.resolve({
+      job: structuredClone(job),
+      version: String(this.#versions.get(id)),
+    });
+  }
+
+  put(job: SigningJob): Promise<void> {
+    this.#jobs.set(job.id, structuredClone(job));
+    this.#versions.set(job.id, this.#nextVersion++);
+    return Promise.resolve();
+  }
+
+  async replace(job: SigningJob, version: string): Promise<boolean> {
+    if (String(this.#versions.get(job.id)) !== version) return false;
+    await this.put(job);
+    return true;
+  }
+
+  delete(id: string): Promise<void> {
+    this.#jobs.delete(id);
+    this.#versions.delete(id);
+    return Promise.resolve();
+  }
+
+  findByWorkflowId(workflowId: string): Promise<SigningJob | undefined> {
+    for (const job of this.#jobs.values()) {
+      if (job.workflowId === workflowId) {
+        return Promise.resolve(structuredClone(job));
+      }
+    }
+    return Promise.resolve(undefined);
+  }
+
+  async *list(): AsyncIterable<SigningJob> {
+    for (const job of [...this.#jobs.values()]) {
+      yield structuredClone(job);
+    }
+  }
+
+  async query(query: JobQuery): Promise<JobPage> {
+    return await collectJobPage(this.list(), query);
+  }
+}
+
+const JOBS_PREFIX = ["signing_jobs"];
+const WORKFLOW_INDEX_PREFIX = ["signing_jobs_by_workflow"];
+const JOB_EVENTS_PREFIX = ["signing_job_events"];
+const JOB_VERIFICATIONS_PREFIX = ["signing_job_verifications"];
+const KV_DELETES_PER_COMMIT = 500;
+/** Conflicting writes a put may run into before it gives up. */
+const MAX_PUT_ATTEMPTS = 10;
+/** First pause after a conflict; doubled, with jitter, on each one after. */
+const PUT_RETRY_BASE_MS = 5;
+
+/** Verification summary kept on the job; documents have keys of their own. */
+type StoredVerification = Omit<SigningJobVerification, "documents"> & {
+  /** Documents written under `["signing_job_verifications", id, index]`. */
+  documentCount?: number;
+  /** Jobs verified before documents got their own keys still carry them. */
+  documents?: SigningJobVerification["documents"];
+};
+
+/**
+ * A job as stored under `["signing_jobs", id]`, without its audit trail and
+ * per-document verification.
+ */
+type StoredJob = Omit<SigningJob, "events" | "verification"> & {
+  /** Events written under `["signing_job_events", id, seq]`. */
+  eventCount?: number;
+  /** Jobs written before events got their own keys still carry them. */
+  events?: SigningJob["events"];
+  verification?: StoredVerification;
+};
+
+/**
+ * Deno KV backed repository. Jobs live under `["signing_jobs", id]` with a
+ * secondary `["signing_jobs_by_workflow", workflowId]` index for webhooks.
+ * Each audit event is an entry of its own under
+ * `["signing_job_events", id, seq]`, and each document's signature check
+ * under `["signing_job_verifications", id, index]`, which keeps the job below
+ * the KV value size limit however long its trail and reports grow.
+ */
+export class KvJobRepository implements JobRepository {
+  #kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.#kv = kv;
+  }
+
+  static async open(path?: string): Promise<KvJobRepository> {
+    return new KvJobRepository(await Deno.openKv(path));
+  }
+
+  async get(id: string): Promise<SigningJob | undefined> {
+    return (await this.getVersioned(id))?.job;
+  }
+
+  async getVersioned(id: string): Promise<VersionedJob | undefined> {
+    const entry = await this.#kv.get<StoredJob>([...JOBS_PREFIX, id]);
+    if (!entry.value || !entry.versionstamp) return undefined;
+    return { job: await this.#load(entry.value), version: entry.versionstamp };
+  }
+
+  async put(job: SigningJob): Promise<void> {
+    // Retried when another writer got in between the read and the commit,
+    // which would otherwise leave the workflow index pointing elsewhere.
+    for (let attempt = 0; attempt < MAX_PUT_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        const delay = PUT_RETRY_BASE_MS * 2 ** (attempt - 1);
+        await new Promise((resolve) =>
+          setTimeout(resolve, delay / 2 + Math.random() * delay / 2)
+        );
+      }
+      if (await this.#write(job)) return;
+    }
+    throw new Error(`Signing job ${job.id} kept changing while being stored`);
+  }
+
+  async replace(job: SigningJob, version: string): Promise<boolean> {
+    return await this.#write(job, version);
+  }
+
+  /** Reads the events and verified documents of a stored job back into it. */
+  async #load(stored: StoredJob): Promise<SigningJob> {
+    const { eventCount, events, verification, ...job } = stored;
+    const loaded: SigningJob = job;
+    if (eventCount !== undefined) {
+      loaded.events = await this.#listUpTo<SigningJobEvent>(
+        [...JOB_EVENTS_PREFIX, job.id],
+        eventCount,
+      );
+    } else if (events) {
+      loaded.events = events;
+    }
+    if (verification) {
+      const { documentCount, documents, ...summary } = verification;
+      loaded.verification = {
+        ...summary,
+        documents: documentCount === undefined
+          ? documents ?? []
+          : await this.#listUpTo<SigningJobDocumentVerification>(
+            [...JOB_VERIFICATIONS_PREFIX, job.id],
+            documentCount,
+          ),
+      };
+    }
+    return loaded;
+  }
+
+  /**
+   * Lists the first `count` entries under `prefix`. Entries past the count
+   * belong to a write that has not landed, or to an older verification.
+   */
+  async #listUpTo<T>(prefix: Deno.KvKey, count: number): Promise<T[]> {
+    const values: T[] = [];
+    if (count === 0) return values;
+    const entries = this.#kv.list<T>({ prefix }, { limit: count });
+    for await (const entry of entries) {
+      values.push(entry.value);
+    }
+    return values;
+  }
+
+  /**
+   * Writes `job`, its new events, its verification and its workflow index
+   * entry unless the stored job changed since it was read, or since `version`
+   * when given. Events are only ever appended, so earlier ones are not
+   * written again; verified documents only when a new check replaced them.
+   */
+  async #write(job: SigningJob, version?: string): Promise<boolean> {
+    const previous = await this.#kv.get<StoredJob>([...JOBS_PREFIX, job.id]);
+    if (version !== undefined && previous.versionstamp !== version) {
+      return false;
+    }
+    const { events, verification, ...header } = job;
+    const stored: StoredJob = header;
+    if (events) stored.eventCount = events.length;
+    if (verification) {
+      const { documents, ...summary } = verification;
+      stored.verification = { ...summary, documentCount: documents.length };
+    }
+    const op = this.#kv.atomic()
+      .check(previous)
+      .set([...JOBS_PREFIX, job.id], stored);
+    const written = previous.value?.eventCount ?? 0;
+    for (const [offset, event] of (events ?? []).slice(written).entries()) {
+      op.set([...JOB_EVENTS_PREFIX, job.id, written + offset], event);
+    }
+    const previousVerification = previous.value?.verification;
+    if (
+      verification &&
+      (previousVerification?.documentCount === undefined ||
+        previousVerification.verifiedAt !== verification.verifiedAt)
+    ) {
+      for (const [index, document] of verification.documents.entries()) {
+        op.set([...JOB_VERIFICATIONS_PREFIX, job.id, index], document);
+      }
+    }
+    const previousWorkflowId = previous.value?.workflowId;
+    if (previousWorkflowId && previousWorkflowId !== job.workflowId) {
+      op.delete([...WORKFLOW_INDEX_PREFIX, previousWorkflowId]);
+    }
+    if (job.workflowId) {
+      op.set([...WORKFLOW_INDEX_PREFIX, job.workflowId], job.id);
+    }
+    return (await op.commit()).ok;
+  }
+
+  async delete(id: string): Promise<void> {
+    const previous = await this.#kv.get<StoredJob>([...JOBS_PREFIX, id]);
+    const op = this.#kv.atomic().delete([...JOBS_PREFIX, id]);
+    if (previous.value?.workflowId) {
+      op.delete([...WORKFLOW_INDEX_PREFIX, previous.value.workflowId]);
+    }
+    await op.commit();
+    // The job is gone once its header is; the rest follows in batches.
+    for (const prefix of [JOB_EVENTS_PREFIX, JOB_VERIFICATIONS_PREFIX]) {
+      let batch = this.#kv.atomic();
+      let pending = 0;
+      for await (const entry of this.#kv.list({ prefix: [...prefix, id] })) {
+        batch.delete(entry.key);
+        if (++pending === KV_DELETES_PER_COMMIT) {
+          await batch.commit();
+          batch = this.#kv.atomic();
+          pending = 0;
+        }
+      }
+      if (pending > 0) await batch.commit();
+    }
+  }
+
+  async findByWorkflowId(workflowId: string): Promise<SigningJob | undefined> {
+    const entry = await this.#kv.get<string>([
+      ...WORKFLOW_INDEX_PREFIX,
+      workflowId,
+    ]);
+    if (!entry.value) return undefined;
+    return await this.get(entry.value);
+  }
+
+  async *list(): AsyncIterable<SigningJob> {
+    const entries = this.#kv.list<StoredJob>({ prefix: JOBS_PREFIX });
+    for await (const entry of entries) {
+      yield await this.#load(entry.value);
+    }
+  }
+
+  /** Scans every job; fine at prototype volumes, index before scaling out. */
+  async query(query: JobQuery): Promise<JobPage> {
+    return await collectJobPage(this.list(), query);
+  }
+}
+
+export class MemoryBlobStore implements BlobStore {
+  #blobs = new Map<string, Uint8Array>();
+
+  put(key: string, bytes: Uint8Array): Promise<void> {
+    this.#blobs.set(key, bytes);
+    return Promise.resolve();
+  }
+
+  get(key: string): Promise<Uint8Array | undefined> {
+    return Promise.resolve(this.#blobs.get(key));
+  }
+
+  delete(key: string): Promise<void> {
+    this.#blobs.delete(key);
+    return Promise.resolve();
+  }
+}
+
+/** Stores each blob as a file under `directory`; keys map to file names. */
+export class FsBlobStore implements BlobStore {
+  #directory: string;
+  #ready?: Promise<void>;
+
+  constructor(directory: string) {
+    this.#directory = directory.replace(/\/+$/, "");
+  }
+
+  async put(key: string, bytes: Uint8Array): Promise<void> {
+    await this.#ensureDirectory();
+    await Deno.writeFile(this.#path(key), bytes);
+  }
+
+  async get(key: string): Promise<Uint8Array | undefined> {
+    try {
+      return await Deno.readFile(this.#path(key));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await Deno.remove(this.#path(key));
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+
+  #path(key: string): string {
+    if (!/^[A-Za-z0-9._-]+$/.test(key) || key.startsWith(".")) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return `${this.#directory}/${key}`;
+  }
+
+  #ensureDirectory(): Promise<void> {
+    this.#ready ??= Deno.mkdir(this.#directory, { recursive: true });
+    return this.#ready;
+  }
+}
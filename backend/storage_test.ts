@@ -0,0 +1,292 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  type BlobStore,
+  FsBlobStore,
+  type JobQuery,
+  type JobRepository,
+  KvJobRepository,
+  MemoryBlobStore,
+  MemoryJobRepository,
+} from "./storage.ts";
+import type { SigningJob } from "./store.ts";
+
+function job(id: string, overrides: Partial<SigningJob> = {}): SigningJob {
+  return {
+    id,
+    ownerId: "service:test",
+    tenantId: "default",
+    profileKey: "default",
+    fileName: "offer.pdf",
+    fileType: "application/pdf",
+    documents: [{ fileName: "offer.pdf", fileType: "application/pdf" }],
+    status: "pending",
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+async function withRepositories(
+  test: (jobs: JobRepository) => Promise<void>,
+) {
+  await test(new MemoryJobRepository());
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await test(new KvJobRepository(kv));
+  } finally {
+    kv.close();
+  }
+}
+
+Deno.test("returns copies of stored jobs", () =>
+  withRepositories(async (jobs) => {
+    const original = job("a");
+    await jobs.put(original);
+    original.status = "error";
+    const stored = await jobs.get("a");
+    assertEquals(stored?.status, "pending");
+    if (stored) stored.status = "completed";
+    assertEquals((await jobs.get("a"))?.status, "pending");
+    assertEquals(await jobs.get("missing"), undefined);
+  }));
+
+Deno.test("pages through jobs matching a query", () =>
+  withRepositories(async (jobs) => {
+    for (const [index, id] of ["a", "b", "c", "d"].entries()) {
+      await jobs.put(job(id, {
+        createdAt: 100 + index,
+        updatedAt: 200 - index,
+        status: id === "c" ? "completed" : "pending",
+      }));
+    }
+    await jobs.put(job("e", { ownerId: "service:other", createdAt: 105 }));
+    const query: JobQuery = {
+      ownerId: "service:test",
+      sortBy: "createdAt",
+      order: "desc",
+      limit: 2,
+    };
+
+    const first = await jobs.query(query);
+    assertEquals(first.jobs.map(({ id }) => id), ["d", "c"]);
+    const second = await jobs.query({ ...query, after: first.next });
+    assertEquals(second.jobs.map(({ id }) => id), ["b", "a"]);
+    assertEquals(second.next, undefined);
+
+    const completed = await jobs.query({ ...query, statuses: ["completed"] });
+    assertEquals(completed.jobs.map(({ id }) => id), ["c"]);
+    const updated = await jobs.query({
+      ...query,
+      sortBy: "updatedAt",
+      order: "asc",
+      updatedFrom: 198,
+    });
+    assertEquals(updated.jobs.map(({ id }) => id), ["c", "b"]);
+  }));
+
+Deno.test("refuses to replace a job that changed since it was read", () =>
+  withRepositories(async (jobs) => {
+    await jobs.put(job("a"));
+    const first = await jobs.getVersioned("a");
+    const second = await jobs.getVersioned("a");
+    assert(first && second);
+
+    first.job.workflowStatus = "started";
+    assert(await jobs.replace(first.job, first.version));
+    second.job.errorMessage = "lost update";
+    assertEquals(await jobs.replace(second.job, second.version), false);
+
+    const stored = await jobs.get("a");
+    assertEquals(stored?.workflowStatus, "started");
+    assertEquals(stored?.errorMessage, undefined);
+  }));
+
+Deno.test("moves the workflow index along with the job", () =>
+  withRepositories(async (jobs) => {
+    await jobs.put(job("a", { workflowId: "wfl_1" }));
+    const current = await jobs.getVersioned("a");
+    assert(current);
+    current.job.workflowId = "wfl_2";
+    assert(await jobs.replace(current.job, current.version));
+
+    assertEquals(await jobs.findByWorkflowId("wfl_1"), undefined);
+    assertEquals((await jobs.findByWorkflowId("wfl_2"))?.id, "a");
+    await jobs.delete("a");
+    assertEquals(await jobs.findByWorkflowId("wfl_2"), undefined);
+  }));
+
+Deno.test("gives up storing a job that keeps changing", async () => {
+  const kv = await Deno.openKv(":memory:");
+  let commits = 0;
+  // Another writer changes the job between each read and commit.
+  const contended = new Proxy(kv, {
+    get(target, property) {
+      if (property === "atomic") {
+        return () => {
+          const op = target.atomic();
+          const commit = op.commit.bind(op);
+          op.commit = async () => {
+            commits++;
+            await target.set(["signing_jobs", "a"], job("a"));
+            return await commit();
+          };
+          return op;
+        };
+      }
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  try {
+    const jobs = new KvJobRepository(contended);
+    let error: unknown;
+    try {
+      await jobs.put(job("a", { workflowId: "wfl_1" }));
+    } catch (err) {
+      error = err;
+    }
+    assert(error instanceof Error);
+    assertEquals(
+      error.message,
+      "Signing job a kept changing while being stored",
+    );
+    assertEquals(commits, 10);
+    assertEquals(await jobs.findByWorkflowId("wfl_1"), undefined);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("keeps long audit trails out of the KV job entry", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const jobs = new KvJobRepository(kv);
+    await jobs.put(job("a", {
+      events: [{ at: 1, type: "created", actor: "service:test" }],
+    }));
+    // Far more than a single 64 KiB KV value can hold.
+    for (let i = 0; i < 200; i++) {
+      const current = await jobs.getVersioned("a");
+      assert(current);
+      current.job.events?.push({
+        at: i,
+        type: "status_changed",
+        actor: "goodflag",
+        details: { note: "x".repeat(1000) },
+      });
+      assert(await jobs.replace(current.job, current.version));
+    }
+    const stored = await jobs.get("a");
+    assertEquals(stored?.events?.length, 201);
+    assertEquals(stored?.events?.[0].type, "created");
+    assertEquals(stored?.events?.[200].at, 199);
+
+    await jobs.delete("a");
+    assertEquals(await jobs.get("a"), undefined);
+    const left = await Array.fromAsync(kv.list({ prefix: [] }));
+    assertEquals(left.length, 0);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("reads jobs stored with their events inline", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const events = [{ at: 1, type: "created" as const, actor: "service:test" }];
+    await kv.set(["signing_jobs", "a"], job("a", { events }));
+    const jobs = new KvJobRepository(kv);
+    const current = await jobs.getVersioned("a");
+    assertEquals(current?.job.events, events);
+
+    assert(current);
+    current.job.events?.push({ at: 2, type: "canceled", actor: "user:ada" });
+    assert(await jobs.replace(current.job, current.version));
+    assertEquals((await jobs.get("a"))?.events?.length, 2);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("stores each verified document under its own KV key", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const jobs = new KvJobRepository(kv);
+    const document = (fileName: string) => ({
+      fileName,
+      signed: true,
+      valid: true,
+      modifiedAfterSigning: false,
+      signatures: [{
+        kind: "signature" as const,
+        // Twenty of these would not fit in one KV value.
+        signer: `CN=${"x".repeat(10_000)}`,
+        digestValid: true,
+        signatureValid: true,
+        coversWholeDocument: true,
+        certificates: [],
+      }],
+    });
+    await jobs.put(job("a"));
+    const verify = async (verifiedAt: number, count: number) => {
+      const current = await jobs.getVersioned("a");
+      assert(current);
+      current.job.verification = {
+        verifiedAt,
+        valid: true,
+        documents: Array.from(
+          { length: count },
+          (_, index) => document(`${verifiedAt}-${index}.pdf`),
+        ),
+      };
+      assert(await jobs.replace(current.job, current.version));
+    };
+
+    await verify(1, 20);
+    assertEquals((await jobs.get("a"))?.verification?.documents.length, 20);
+    await verify(2, 2);
+    const verification = (await jobs.get("a"))?.verification;
+    assertEquals(verification?.verifiedAt, 2);
+    assertEquals(
+      verification?.documents.map((document) => document.fileName),
+      ["2-0.pdf", "2-1.pdf"],
+    );
+
+    await jobs.delete("a");
+    const left = await Array.fromAsync(kv.list({ prefix: [] }));
+    assertEquals(left.length, 0);
+  } finally {
+    kv.close();
+  }
+});
+
+async function exerciseBlobs(blobs: BlobStore) {
+  const bytes = new Uint8Array([1, 2, 3]);
+  await blobs.put("signed-1.pdf", bytes);
+  assertEquals(await blobs.get("signed-1.pdf"), bytes);
+  assertEquals(await blobs.get("missing.pdf"), undefined);
+  await blobs.delete("signed-1.pdf");
+  await blobs.delete("signed-1.pdf");
+  assertEquals(await blobs.get("signed-1.pdf"), undefined);
+}
+
+Deno.test("stores blobs in memory", () => exerciseBlobs(new MemoryBlobStore()));
+
+Deno.test("stores blobs as files", async () => {
+  const directory = await Deno.makeTempDir();
+  try {
+    const blobs = new FsBlobStore(`${directory}/blobs/`);
+    await exerciseBlobs(blobs);
+    for (const key of ["../escape", ".hidden", "a/b"]) {
+      let rejected = false;
+      try {
+        await blobs.put(key, new Uint8Array());
+      } catch {
+        rejected = true;
+      }
+      assert(rejected, key);
+    }
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
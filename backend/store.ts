@@ -1,86 +1,757 @@
-export type SigningJobStatus = "pending" | "completed" | "error";
+import config from "./config.ts";
+import type { PdfVerification } from "./signatures.ts";
+import {
+  type BlobStore,
+  FsBlobStore,
+  type JobPage,
+  type JobQuery,
+  type JobRepository,
+  KvJobRepository,
+  MemoryBlobStore,
+  MemoryJobRepository,
+} from "./storage.ts";
+
+export type SigningJobStatus =
+  | "pending"
+  | "completed"
+  | "error"
+  | "expired"
+  | "canceled";
+
+export type SigningJobErrorReason =
+  | "approval_refused"
+  | "signature_refused"
+  | "workflow_stopped"
+  | "workflow_failed"
+  | "goodflag_error";
+
+export type SigningJobStepStatus = "pending" | "in_progress" | "finished";
+
+export interface SigningJobStep {
+  stepType: "signature" | "approval" | "viewer";
+  completion: "all" | "any";
+  recipients: string[];
+  /** Recipients who already signed or approved the step. */
+  completedBy: string[];
+  refusedBy?: string;
+  status: SigningJobStepStatus;
+}
+
+export type SignatureFieldSource =
+  | "request"
+  | "template"
+  | "anchors"
+  | "default";
+
+export interface SigningJobSignatureField {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  recipientEmail?: string;
+}
+
+export interface SigningJobDocument {
+  fileName: string;
+  fileType: string;
+  documentId?: string;
+  /** Where the placed signature fields came from, and the fields themselves. */
+  fieldSource?: SignatureFieldSource;
+  signatureFields?: SigningJobSignatureField[];
+  signedDocumentKey?: string;
+  signedFileName?: string;
+  signedContentType?: string;
+}
+
+export interface SigningJobReminder {
+  sentAt: number;
+  /** `manual` for API resends, `automatic` for scheduled reminders. */
+  trigger: "manual" | "automatic";
+  recipients: string[];
+  requestedBy?: string;
+}
+
+export interface SigningJobReminderSchedule {
+  intervalMs: number;
+  maxCount: number;
+  /** Automatic reminders sent so far. */
+  sentCount: number;
+  /** Unset once `maxCount` reminders went out. */
+  nextAt?: number;
+}
+
+export interface SigningJobRecipient {
+  email: string;
+  phoneNumber?: string;
+}
+
+export interface SigningJobRecipientChange {
+  changedAt: number;
+  changedBy: string;
+  /** Index of the step in `SigningJob.steps`. */
+  stepIndex: number;
+  previous: SigningJobRecipient;
+  replacement: SigningJobRecipient;
+}
+
+export type SigningJobEventType =
+  | "created"
+  | "workflow_created"
+  | "document_uploaded"
+  | "fields_placed"
+  | "started"
+  | "status_changed"
+  | "step_completed"
+  | "step_refused"
+  | "reminder_sent"
+  | "reminder_schedule_changed"
+  | "recipient_replaced"
+  | "completed"
+  | "evidence_stored"
+  | "signatures_verified"
+  | "failed"
+  | "expired"
+  | "canceled";
+
+/** One entry of a job's append-only audit trail. */
+export interface SigningJobEvent {
+  at: number;
+  type: SigningJobEventType;
+  /**
+   * Principal ID for API callers, `recipient:<email>` for signers and
+   * approvers, `goodflag` for workflow updates and `system` for the backend.
+   */
+  actor: string;
+  details?: Record<string, unknown>;
+}
+
+export const GOODFLAG_ACTOR = "goodflag";
+export const SYSTEM_ACTOR = "system";
+
+/** What a file extracted from Goodflag's ZIP download contains. */
+export type SigningJobFileKind = "signed_document" | "evidence" | "other";
+
+export interface SigningJobFile {
+  /** Path of the entry inside the archive. */
+  name: string;
+  kind: SigningJobFileKind;
+  contentType: string;
+  size: number;
+  key: string;
+}
+
+export interface ExtractedFile {
+  name: string;
+  bytes: Uint8Array;
+}
+
+/** Signature check of one signed PDF of a completed job. */
+export interface SigningJobDocumentVerification extends PdfVerification {
+  fileName: string;
+}
+
+export interface SigningJobVerification {
+  verifiedAt: number;
+  /** Every signed PDF carries signatures and all of them hold. */
+  valid: boolean;
+  documents: SigningJobDocumentVerification[];
+}
+
+export interface SignedFilePayload {
+  bytes: Uint8Array;
+  fileName?: string;
+  contentType?: string;
+}
 
 export interface SigningJob {
   id: string;
+  /** Principal that created the job; only they can read or download it. */
+  ownerId: string;
+  /** Goodflag tenant and signature profile the workflow was created with. */
+  tenantId: string;
+  profileKey: string;
+  /** Template the request was built from, if any. */
+  templateId?: string;
+  /** Bulk send the job belongs to, if any. */
+  batchId?: string;
+  /** Receives a signed POST whenever `status` or `workflowStatus` changes. */
+  callbackUrl?: string;
+  /** Name and type of the first document, kept for single-document callers. */
   fileName: string;
   fileType: string;
+  documents: SigningJobDocument[];
   status: SigningJobStatus;
   createdAt: number;
   updatedAt: number;
   workflowId?: string;
   workflowStatus?: string;
-  signedDocument?: Uint8Array;
+  steps?: SigningJobStep[];
+  signedDocumentKey?: string;
   signedFileName?: string;
   signedContentType?: string;
   errorMessage?: string;
+  errorReason?: SigningJobErrorReason;
+  /** Set when a caller canceled the job through the API. */
+  canceledAt?: number;
+  canceledBy?: string;
+  cancelReason?: string;
+  reminders?: SigningJobReminder[];
+  reminderSchedule?: SigningJobReminderSchedule;
+  recipientChanges?: SigningJobRecipientChange[];
+  /** Entries of `signedDocumentKey` when Goodflag returned a ZIP archive. */
+  files?: SigningJobFile[];
+  /** Goodflag's evidence (audit certificate) for the finished workflow. */
+  evidenceKey?: string;
+  evidenceFileName?: string;
+  evidenceContentType?: string;
+  /** Signature check of the signed documents, once downloaded. */
+  verification?: SigningJobVerification;
+  /** Audit trail, oldest first; entries are only ever appended. */
+  events?: SigningJobEvent[];
+  /** Reconciler bookkeeping: next refresh and checks without progress. */
+  nextRefreshAt?: number;
+  refreshAttempts?: number;
+}
+
+/** Fields a caller provides when creating a job; the rest is derived. */
+export type NewSigningJob =
+  & Pick<
+    SigningJob,
+    | "ownerId"
+    | "tenantId"
+    | "profileKey"
+    | "fileName"
+    | "fileType"
+    | "documents"
+  >
+  & Partial<
+    Pick<SigningJob, "steps" | "templateId" | "batchId" | "callbackUrl">
+  >;
+
+export interface SigningStoreOptions {
+  jobs: JobRepository;
+  blobs: BlobStore;
+  /** Settled jobs untouched for longer than this are evicted; 0 keeps them. */
+  retentionMs: number;
+}
+
+const MAX_SWEEP_INTERVAL_MS = 1000 * 60 * 10;
+/** Conflicting writes an update may run into before it gives up. */
+const MAX_UPDATE_ATTEMPTS = 10;
+const EVIDENCE_FILE_PATTERN = /evidence|audit|proof|certificate/i;
+const EXTRACTED_CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  xml: "application/xml",
+  json: "application/json",
+  txt: "text/plain",
+};
+
+function describeExtractedFile(
+  name: string,
+): Pick<SigningJobFile, "kind" | "contentType"> {
+  const extension = name.split(".").pop()?.toLowerCase() ?? "";
+  return {
+    kind: EVIDENCE_FILE_PATTERN.test(name)
+      ? "evidence"
+      : extension === "pdf"
+      ? "signed_document"
+      : "other",
+    contentType: EXTRACTED_CONTENT_TYPES[extension] ??
+      "application/octet-stream",
+  };
+}
+
+function appendEvent(
+  job: SigningJob,
+  type: SigningJobEventType,
+  actor: string,
+  details?: Record<string, unknown>,
+) {
+  job.events = [
+    ...(job.events ?? []),
+    { at: Date.now(), type, actor, ...(details ? { details } : {}) },
+  ];
 }
 
-const ONE_HOUR = 1000 * 60 * 60;
+export type SigningJobListener = (job: SigningJob) => void;
+/** Called with the job after and before each change, for every job. */
+export type SigningJobChangeListener = (
+  job: SigningJob,
+  previous: SigningJob,
+) => void;
 
 export class SigningStore {
-  #jobs = new Map<string, SigningJob>();
-  #ttlMs: number;
+  #jobs: JobRepository;
+  #blobs: BlobStore;
+  #retentionMs: number;
+  #listeners = new Map<string, Set<SigningJobListener>>();
+  #changeListeners = new Set<SigningJobChangeListener>();
 
-  constructor(ttlMs = ONE_HOUR) {
-    this.#ttlMs = ttlMs;
-    const timer = setInterval(() => this.#evictExpired(), this.#ttlMs);
-    // Deno returns a number for setInterval, so unref is not available; ignore if missing.
-    (timer as unknown as { unref?: () => void }).unref?.();
+  constructor(options: SigningStoreOptions) {
+    this.#jobs = options.jobs;
+    this.#blobs = options.blobs;
+    this.#retentionMs = options.retentionMs;
+    if (this.#retentionMs > 0) {
+      const timer = setInterval(
+        () =>
+          this.#evictExpired().catch((error) =>
+            console.error("Failed to evict expired signing jobs", error)
+          ),
+        Math.min(this.#retentionMs, MAX_SWEEP_INTERVAL_MS),
+      );
+      Deno.unrefTimer(timer);
+    }
   }
 
-  createJob(fileName: string, fileType: string): SigningJob {
+  async createJob(init: NewSigningJob): Promise<SigningJob> {
     const id = crypto.randomUUID();
     const now = Date.now();
     const job: SigningJob = {
+      ...init,
       id,
-      fileName,
-      fileType,
       status: "pending",
       createdAt: now,
       updatedAt: now,
     };
-    this.#jobs.set(id, job);
+    appendEvent(job, "created", init.ownerId, {
+      tenant: init.tenantId,
+      profile: init.profileKey,
+      ...(init.templateId ? { template: init.templateId } : {}),
+      ...(init.batchId ? { batch: init.batchId } : {}),
+      ...(init.callbackUrl ? { callbackUrl: init.callbackUrl } : {}),
+      documents: init.documents.map((document) => document.fileName),
+    });
+    await this.#jobs.put(job);
     return job;
   }
 
-  setWorkflow(id: string, workflowId: string, workflowStatus?: string) {
-    const job = this.#jobs.get(id);
-    if (!job) return;
-    job.workflowId = workflowId;
-    job.workflowStatus = workflowStatus;
-    job.updatedAt = Date.now();
+  async setWorkflow(id: string, workflowId: string, workflowStatus?: string) {
+    await this.#update(id, (job) => {
+      job.workflowId = workflowId;
+      job.workflowStatus = workflowStatus;
+      appendEvent(job, "workflow_created", job.ownerId, {
+        workflowId,
+        workflowStatus,
+      });
+    });
+  }
+
+  /**
+   * Records a new Goodflag workflow status. `actor` is whoever caused it:
+   * the job's owner when the backend started the workflow, Goodflag otherwise.
+   */
+  async setWorkflowStatus(
+    id: string,
+    workflowStatus: string,
+    actor: string = GOODFLAG_ACTOR,
+  ) {
+    await this.#update(id, (job) => {
+      if (job.workflowStatus === workflowStatus) return;
+      appendEvent(
+        job,
+        workflowStatus === "started" ? "started" : "status_changed",
+        actor,
+        { from: job.workflowStatus ?? null, to: workflowStatus },
+      );
+      job.workflowStatus = workflowStatus;
+    });
+  }
+
+  /** Stores step progress, logging each recipient who acted since. */
+  async setSteps(id: string, steps: SigningJobStep[]) {
+    await this.#update(id, (job) => {
+      for (const [stepIndex, step] of steps.entries()) {
+        const previous = job.steps?.[stepIndex];
+        for (const email of step.completedBy) {
+          if (previous?.completedBy.includes(email)) continue;
+          appendEvent(job, "step_completed", `recipient:${email}`, {
+            step: stepIndex,
+            stepType: step.stepType,
+          });
+        }
+        if (step.refusedBy && step.refusedBy !== previous?.refusedBy) {
+          appendEvent(job, "step_refused", `recipient:${step.refusedBy}`, {
+            step: stepIndex,
+            stepType: step.stepType,
+          });
+        }
+      }
+      job.steps = steps;
+    });
   }
 
-  setWorkflowStatus(id: string, workflowStatus: string) {
-    const job = this.#jobs.get(id);
-    if (!job) return;
-    job.workflowStatus = workflowStatus;
-    job.updatedAt = Date.now();
+  /**
+   * Records invitations sent again to pending recipients. Automatic reminders
+   * also advance the job's reminder schedule.
+   */
+  async recordReminder(id: string, reminder: SigningJobReminder) {
+    await this.#update(id, (job) => {
+      job.reminders = [...(job.reminders ?? []), reminder];
+      appendEvent(job, "reminder_sent", reminder.requestedBy ?? SYSTEM_ACTOR, {
+        trigger: reminder.trigger,
+        recipients: reminder.recipients,
+      });
+      const schedule = job.reminderSchedule;
+      if (reminder.trigger !== "automatic" || !schedule) return;
+      schedule.sentCount += 1;
+      schedule.nextAt = schedule.sentCount < schedule.maxCount
+        ? reminder.sentAt + schedule.intervalMs
+        : undefined;
+    });
   }
 
-  completeJob(
+  async setReminderSchedule(
     id: string,
-    payload: { bytes: Uint8Array; fileName?: string; contentType?: string },
+    schedule: SigningJobReminderSchedule | undefined,
+    actor: string,
   ) {
-    const job = this.#jobs.get(id);
-    if (!job) return;
-    job.status = "completed";
-    job.updatedAt = Date.now();
-    job.signedDocument = payload.bytes;
-    job.signedFileName = payload.fileName ?? this.#defaultSignedName(job.fileName);
-    job.signedContentType = payload.contentType ?? job.fileType;
+    await this.#update(id, (job) => {
+      job.reminderSchedule = schedule;
+      appendEvent(
+        job,
+        "reminder_schedule_changed",
+        actor,
+        schedule
+          ? { intervalMs: schedule.intervalMs, maxCount: schedule.maxCount }
+          : { disabled: true },
+      );
+    });
   }
 
-  failJob(id: string, errorMessage: string) {
-    const job = this.#jobs.get(id);
-    if (!job) return;
-    job.status = "error";
-    job.updatedAt = Date.now();
-    job.errorMessage = errorMessage;
+  /**
+   * Swaps a recipient of a step for their replacement, including the
+   * signature fields assigned to them, and records the change.
+   */
+  async replaceRecipient(id: string, change: SigningJobRecipientChange) {
+    const previous = change.previous.email.toLowerCase();
+    const replace = (email: string) =>
+      email.toLowerCase() === previous ? change.replacement.email : email;
+    await this.#update(id, (job) => {
+      const step = job.steps?.[change.stepIndex];
+      if (step) step.recipients = step.recipients.map(replace);
+      for (const document of job.documents) {
+        document.signatureFields = document.signatureFields?.map((field) =>
+          field.recipientEmail
+            ? { ...field, recipientEmail: replace(field.recipientEmail) }
+            : field
+        );
+      }
+      job.recipientChanges = [...(job.recipientChanges ?? []), change];
+      appendEvent(job, "recipient_replaced", change.changedBy, {
+        step: change.stepIndex,
+        previous: change.previous,
+        replacement: change.replacement,
+      });
+    });
   }
 
-  getJob(id: string): SigningJob | undefined {
-    return this.#jobs.get(id);
+  async setDocumentId(id: string, index: number, documentId: string) {
+    await this.#update(id, (job) => {
+      const document = job.documents[index];
+      if (!document) return;
+      document.documentId = documentId;
+      appendEvent(job, "document_uploaded", job.ownerId, {
+        document: index,
+        fileName: document.fileName,
+        documentId,
+      });
+    });
+  }
+
+  async setDocumentFields(
+    id: string,
+    index: number,
+    fieldSource: SignatureFieldSource,
+    signatureFields: SigningJobSignatureField[],
+  ) {
+    await this.#update(id, (job) => {
+      const document = job.documents[index];
+      if (!document) return;
+      document.fieldSource = fieldSource;
+      document.signatureFields = signatureFields;
+      appendEvent(job, "fields_placed", job.ownerId, {
+        document: index,
+        source: fieldSource,
+        fields: signatureFields.length,
+      });
+    });
+  }
+
+  /**
+   * Stores the combined download for the workflow and, for multi-document
+   * jobs, each signed document at the same index as `job.documents`. Only a
+   * pending job is completed; returns false, leaving the job as it is, when
+   * another run completed it first or it was canceled or expired meanwhile.
+   */
+  async completeJob(
+    id: string,
+    payload: SignedFilePayload,
+    documents: SignedFilePayload[] = [],
+    extracted: ExtractedFile[] = [],
+  ): Promise<boolean> {
+    const key = `${id}-signed`;
+    await this.#blobs.put(key, payload.bytes);
+    const documentKeys: string[] = [];
+    for (const [index, document] of documents.entries()) {
+      const documentKey = `${id}-signed-${index}`;
+      await this.#blobs.put(documentKey, document.bytes);
+      documentKeys.push(documentKey);
+    }
+    const files: SigningJobFile[] = [];
+    for (const [index, file] of extracted.entries()) {
+      const fileKey = `${id}-file-${index}`;
+      await this.#blobs.put(fileKey, file.bytes);
+      files.push({
+        name: file.name,
+        ...describeExtractedFile(file.name),
+        size: file.bytes.byteLength,
+        key: fileKey,
+      });
+    }
+    const completed = await this.#update(id, (job) => {
+      if (job.status !== "pending") return;
+      job.status = "completed";
+      if (files.length > 0) job.files = files;
+      job.signedDocumentKey = key;
+      job.signedFileName =
+        payload.fileName ?? this.#defaultSignedName(job.fileName);
+      job.signedContentType = payload.contentType ?? job.fileType;
+      for (const [index, document] of job.documents.entries()) {
+        const signed = documents[index];
+        if (!signed) continue;
+        document.signedDocumentKey = documentKeys[index];
+        document.signedFileName = this.#defaultSignedName(document.fileName);
+        document.signedContentType = signed.contentType ?? document.fileType;
+      }
+      appendEvent(job, "completed", GOODFLAG_ACTOR, {
+        signedFileName: job.signedFileName,
+        ...(files.length > 0 ? { files: files.map((file) => file.name) } : {}),
+      });
+    });
+    if (!completed) {
+      // The keys are fixed per job: a run that completed it first uses them.
+      const job = await this.#jobs.get(id);
+      if (job?.signedDocumentKey !== key) {
+        const keys = [key, ...documentKeys, ...files.map((file) => file.key)];
+        for (const blobKey of keys) await this.#blobs.delete(blobKey);
+      }
+    }
+    return completed;
+  }
+
+  /** Stores Goodflag's evidence file next to the signed documents. */
+  async storeEvidence(id: string, payload: SignedFilePayload) {
+    const key = `${id}-evidence`;
+    await this.#blobs.put(key, payload.bytes);
+    await this.#update(id, (job) => {
+      job.evidenceKey = key;
+      job.evidenceFileName = payload.fileName ?? `${id}-evidence.pdf`;
+      job.evidenceContentType = payload.contentType ?? "application/pdf";
+      appendEvent(job, "evidence_stored", GOODFLAG_ACTOR, {
+        fileName: job.evidenceFileName,
+        size: payload.bytes.byteLength,
+      });
+    });
+  }
+
+  async setVerification(id: string, verification: SigningJobVerification) {
+    await this.#update(id, (job) => {
+      job.verification = verification;
+      appendEvent(job, "signatures_verified", SYSTEM_ACTOR, {
+        valid: verification.valid,
+        documents: verification.documents.map((document) => ({
+          fileName: document.fileName,
+          valid: document.valid,
+          signatures: document.signatures.length,
+        })),
+      });
+    });
+  }
+
+  async failJob(
+    id: string,
+    errorMessage: string,
+    errorReason: SigningJobErrorReason,
+  ) {
+    await this.#update(id, (job) => {
+      job.status = "error";
+      job.errorMessage = errorMessage;
+      job.errorReason = errorReason;
+      appendEvent(
+        job,
+        "failed",
+        errorReason === "goodflag_error" ? SYSTEM_ACTOR : GOODFLAG_ACTOR,
+        { reason: errorReason, message: errorMessage },
+      );
+    });
+  }
+
+  /**
+   * Marks a job as expired once its workflow was stopped. Like `cancelJob`,
+   * a job failed as `workflow_stopped` in the meantime is still expired.
+   */
+  async expireJob(id: string, errorMessage: string) {
+    await this.#update(id, (job) => {
+      const stoppedByUs = job.status === "error" &&
+        job.errorReason === "workflow_stopped";
+      if (job.status !== "pending" && !stoppedByUs) return;
+      job.status = "expired";
+      if (job.workflowId) job.workflowStatus = "stopped";
+      job.errorMessage = errorMessage;
+      job.errorReason = undefined;
+      job.nextRefreshAt = undefined;
+      appendEvent(job, "expired", SYSTEM_ACTOR, { message: errorMessage });
+    });
+  }
+
+  /**
+   * Marks a job as canceled by `principalId`. A job that was failed as
+   * `workflow_stopped` in the meantime is still canceled: that stop was ours.
+   */
+  async cancelJob(id: string, principalId: string, reason?: string) {
+    await this.#update(id, (job) => {
+      const stoppedByUs = job.status === "error" &&
+        job.errorReason === "workflow_stopped";
+      if (job.status !== "pending" && !stoppedByUs) return;
+      job.status = "canceled";
+      job.workflowStatus = "stopped";
+      job.canceledAt = Date.now();
+      job.canceledBy = principalId;
+      job.cancelReason = reason;
+      job.errorMessage = undefined;
+      job.errorReason = undefined;
+      job.nextRefreshAt = undefined;
+      appendEvent(job, "canceled", principalId, {
+        ...(reason ? { reason } : {}),
+      });
+    });
+  }
+
+  /** Records when the reconciler should look at a job again. */
+  async scheduleRefresh(id: string, nextRefreshAt: number, attempts: number) {
+    await this.#update(
+      id,
+      (job) => {
+        job.nextRefreshAt = nextRefreshAt;
+        job.refreshAttempts = attempts;
+      },
+      { touch: false },
+    );
+  }
+
+  async *listJobsByStatus(status: SigningJobStatus): AsyncIterable<SigningJob> {
+    for await (const job of this.#jobs.list()) {
+      if (job.status === status) yield job;
+    }
+  }
+
+  /** Searches jobs with filters, sorting and keyset pagination. */
+  async queryJobs(query: JobQuery): Promise<JobPage> {
+    return await this.#jobs.query(query);
+  }
+
+  /**
+   * Calls `listener` after every change to the job made through this store.
+   * Notifications are in-process only. Returns an unsubscribe function.
+   */
+  subscribe(id: string, listener: SigningJobListener): () => void {
+    let listeners = this.#listeners.get(id);
+    if (!listeners) {
+      listeners = new Set();
+      this.#listeners.set(id, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.#listeners.delete(id);
+    };
+  }
+
+  /** Like `subscribe`, for changes to any job. */
+  subscribeAll(listener: SigningJobChangeListener): () => void {
+    this.#changeListeners.add(listener);
+    return () => this.#changeListeners.delete(listener);
+  }
+
+  async getJob(id: string): Promise<SigningJob | undefined> {
+    return await this.#jobs.get(id);
+  }
+
+  async findByWorkflowId(workflowId: string): Promise<SigningJob | undefined> {
+    return await this.#jobs.findByWorkflowId(workflowId);
+  }
+
+  async getSignedDocument(job: SigningJob): Promise<Uint8Array | undefined> {
+    if (!job.signedDocumentKey) return undefined;
+    return await this.#blobs.get(job.signedDocumentKey);
+  }
+
+  async getSignedDocumentPart(
+    job: SigningJob,
+    index: number,
+  ): Promise<Uint8Array | undefined> {
+    const key = job.documents[index]?.signedDocumentKey;
+    if (!key) return undefined;
+    return await this.#blobs.get(key);
+  }
+
+  async getFile(
+    job: SigningJob,
+    index: number,
+  ): Promise<Uint8Array | undefined> {
+    const key = job.files?.[index]?.key;
+    if (!key) return undefined;
+    return await this.#blobs.get(key);
+  }
+
+  async getEvidence(job: SigningJob): Promise<Uint8Array | undefined> {
+    if (!job.evidenceKey) return undefined;
+    return await this.#blobs.get(job.evidenceKey);
+  }
+
+  /**
+   * Applies `mutate` to the stored job. When another writer changed the job
+   * in the meantime, the job is read again and `mutate` runs once more, so
+   * it must only depend on the job it is given. Tells whether it wrote a
+   * change.
+   */
+  async #update(
+    id: string,
+    mutate: (job: SigningJob) => void,
+    options: { touch?: boolean } = {},
+  ): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const current = await this.#jobs.getVersioned(id);
+      if (!current) return false;
+      const { job, version } = current;
+      const before = JSON.stringify(job);
+      mutate(job);
+      // Skip no-op writes so updatedAt and notifications reflect real changes.
+      if (JSON.stringify(job) === before) return false;
+      if (options.touch !== false) job.updatedAt = Date.now();
+      if (!await this.#jobs.replace(job, version)) continue;
+      if (options.touch !== false) this.#notify(job, JSON.parse(before));
+      return true;
+    }
+    throw new Error(`Signing job ${id} kept changing while being updated`);
+  }
+
+  #notify(job: SigningJob, previous: SigningJob) {
+    for (const listener of this.#listeners.get(job.id) ?? []) {
+      try {
+        listener(structuredClone(job));
+      } catch (error) {
+        console.error(`Signing job listener failed for ${job.id}`, error);
+      }
+    }
+    for (const listener of this.#changeListeners) {
+      try {
+        listener(structuredClone(job), previous);
+      } catch (error) {
+        console.error(`Signing job listener failed for ${job.id}`, error);
+      }
+    }
   }
 
   #defaultSignedName(original: string) {
@@ -91,14 +762,47 @@ export class SigningStore {
     return `${base}-signed${ext}`;
   }
 
-  #evictExpired() {
+  async #evictExpired() {
     const now = Date.now();
-    for (const [id, job] of this.#jobs.entries()) {
-      if (now - job.updatedAt > this.#ttlMs) {
-        this.#jobs.delete(id);
+    for await (const job of this.#jobs.list()) {
+      // Pending jobs are expired by the reconciler instead.
+      if (job.status === "pending") continue;
+      if (now - job.updatedAt > this.#retentionMs) {
+        const keys = [
+          job.signedDocumentKey,
+          job.evidenceKey,
+          ...job.documents.map((document) => document.signedDocumentKey),
+          ...(job.files ?? []).map((file) => file.key),
+        ];
+        for (const key of keys) {
+          if (key) await this.#blobs.delete(key);
+        }
+        await this.#jobs.delete(job.id);
       }
     }
   }
 }
 
-export const signingStore = new SigningStore();
+async function createJobRepository(): Promise<JobRepository> {
+  switch (config.storage.jobs) {
+    case "kv":
+      return await KvJobRepository.open(config.storage.kvPath);
+    default:
+      return new MemoryJobRepository();
+  }
+}
+
+export function createBlobStore(): BlobStore {
+  switch (config.storage.blobs) {
+    case "fs":
+      return new FsBlobStore(config.storage.blobDirectory);
+    default:
+      return new MemoryBlobStore();
+  }
+}
+
+export const signingStore = new SigningStore({
+  jobs: await createJobRepository(),
+  blobs: createBlobStore(),
+  retentionMs: config.storage.retentionMs,
+});
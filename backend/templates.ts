@@ -0,0 +1,503 @@
+import config from "./config.ts";
+import type {
+  SignatureFieldInput,
+  StepCompletionRule,
+  WorkflowRecipientInput,
+  WorkflowStepInput,
+  WorkflowStepType,
+} from "./goodflag.ts";
+import {
+  MAX_FIELDS,
+  MAX_RECIPIENTS_PER_STEP,
+  MAX_STEPS,
+  optionalText,
+  parseCompletion,
+  parsePlacement,
+  parseRecipient,
+  parseStepType,
+  requireNumber,
+  type SignatureFieldRequest,
+  SignRequestError,
+} from "./sign_request.ts";
+
+/**
+ * A recipient slot of a template, filled with a real recipient by each sign
+ * request. The optional keys are defaults the request may override.
+ */
+export interface TemplateRole {
+  role: string;
+  preferredLocale?: string;
+  consentPageId?: string;
+  comments?: string;
+}
+
+export interface TemplateStep {
+  stepType: WorkflowStepType;
+  completion: StepCompletionRule;
+  roles: TemplateRole[];
+}
+
+/** A signature field placement; `role` names the signer it belongs to. */
+export interface TemplateField
+  extends Omit<SignatureFieldInput, "recipientEmail"> {
+  /** Index of the uploaded file the field belongs to. */
+  document: number;
+  role?: string;
+}
+
+/** What a caller sends to create or replace a template. */
+export interface WorkflowTemplateDefinition {
+  name: string;
+  description?: string;
+  /**
+   * Pattern for the Goodflag workflow name. `{{fileName}}`, `{{template}}`
+   * and `{{<role>.email|firstName|lastName}}` are replaced per request.
+   */
+  workflowName?: string;
+  tenant?: string;
+  profile?: string;
+  /** Default `preferredLocale` of every recipient. */
+  locale?: string;
+  /** Default consent page of every recipient. */
+  consentPageId?: string;
+  steps: TemplateStep[];
+  /** Placed instead of anchors or the default box when set. */
+  fields?: TemplateField[];
+}
+
+export interface WorkflowTemplate extends WorkflowTemplateDefinition {
+  id: string;
+  /** Principal that created the template; only they (or admins) change it. */
+  ownerId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TemplateRepository {
+  get(id: string): Promise<WorkflowTemplate | undefined>;
+  put(template: WorkflowTemplate): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): AsyncIterable<WorkflowTemplate>;
+}
+
+/** Role names of a template, in step order. */
+export function templateRoles(template: WorkflowTemplateDefinition): string[] {
+  return template.steps.flatMap((step) => step.roles.map(({ role }) => role));
+}
+
+const MAX_TEMPLATE_NAME_LENGTH = 200;
+const ROLE_PATTERN = /^[A-Za-z][A-Za-z0-9_-]*$/;
+const ROLE_DEFAULT_KEYS = [
+  "preferredLocale",
+  "consentPageId",
+  "comments",
+] as const;
+/** Matches `{{placeholder}}` in a template's workflow name pattern. */
+const WORKFLOW_NAME_PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+const WORKFLOW_NAME_VARIABLES = ["fileName", "template"];
+const WORKFLOW_NAME_ROLE_KEYS = ["email", "firstName", "lastName"];
+
+function parseTemplateRole(raw: unknown, label: string): TemplateRole {
+  const input = typeof raw === "string"
+    ? { role: raw }
+    : raw as Record<string, unknown> | null;
+  if (!input || typeof input !== "object") {
+    throw new SignRequestError(`${label} must be a role name or an object`);
+  }
+  const role = optionalText(input.role, `${label}.role`);
+  if (!role || !ROLE_PATTERN.test(role)) {
+    throw new SignRequestError(
+      `${label}.role must start with a letter and only contain letters, digits, _ or -`,
+    );
+  }
+  const templateRole: TemplateRole = { role };
+  for (const key of ROLE_DEFAULT_KEYS) {
+    const value = optionalText(input[key], `${label}.${key}`);
+    if (value) templateRole[key] = value;
+  }
+  return templateRole;
+}
+
+function parseTemplateSteps(raw: unknown): TemplateStep[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new SignRequestError("steps must be a non-empty array");
+  }
+  if (raw.length > MAX_STEPS) {
+    throw new SignRequestError(
+      `steps cannot contain more than ${MAX_STEPS} entries`,
+    );
+  }
+  const roles = new Set<string>();
+  const steps = raw.map((entry, index): TemplateStep => {
+    const label = `steps[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      throw new SignRequestError(`${label} must be an object`);
+    }
+    const step = entry as Record<string, unknown>;
+    if (!Array.isArray(step.roles) || step.roles.length === 0) {
+      throw new SignRequestError(`${label}.roles must be a non-empty array`);
+    }
+    if (step.roles.length > MAX_RECIPIENTS_PER_STEP) {
+      throw new SignRequestError(
+        `${label}.roles cannot contain more than ${MAX_RECIPIENTS_PER_STEP} entries`,
+      );
+    }
+    const stepRoles = step.roles.map((role, roleIndex) =>
+      parseTemplateRole(role, `${label}.roles[${roleIndex}]`)
+    );
+    for (const { role } of stepRoles) {
+      if (roles.has(role)) {
+        throw new SignRequestError(`Role ${role} is used more than once`);
+      }
+      roles.add(role);
+    }
+    return {
+      stepType: parseStepType(step.stepType, label),
+      completion: parseCompletion(step.completion, label),
+      roles: stepRoles,
+    };
+  });
+  if (steps.every((step) => step.stepType === "viewer")) {
+    throw new SignRequestError(
+      "steps must include at least one signature or approval step",
+    );
+  }
+  return steps;
+}
+
+function parseTemplateFields(
+  raw: unknown,
+  signerRoles: Set<string>,
+): TemplateField[] | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new SignRequestError("fields must be a non-empty array");
+  }
+  if (raw.length > MAX_FIELDS) {
+    throw new SignRequestError(
+      `fields cannot contain more than ${MAX_FIELDS} entries`,
+    );
+  }
+  return raw.map((entry, index) => {
+    const label = `fields[${index}]`;
+    if (!entry || typeof entry !== "object") {
+      throw new SignRequestError(`${label} must be an object`);
+    }
+    const field = entry as Record<string, unknown>;
+    const document = requireNumber(
+      field.document ?? 0,
+      `${label}.document`,
+      (value) => Number.isInteger(value) && value >= 0,
+      "the index of an uploaded file",
+    );
+    const role = optionalText(field.role, `${label}.role`);
+    if (role && !signerRoles.has(role)) {
+      throw new SignRequestError(
+        `${label}.role must name a role of a signature step`,
+      );
+    }
+    return {
+      document,
+      ...parsePlacement(field, label),
+      ...(role ? { role } : {}),
+    };
+  });
+}
+
+function parseWorkflowNamePattern(
+  raw: unknown,
+  roles: Set<string>,
+): string | undefined {
+  const pattern = optionalText(raw, "workflowName");
+  if (!pattern) return undefined;
+  for (const [, placeholder] of pattern.matchAll(WORKFLOW_NAME_PLACEHOLDER)) {
+    const [role, key] = placeholder.split(".");
+    const known = WORKFLOW_NAME_VARIABLES.includes(placeholder) ||
+      (roles.has(role) && WORKFLOW_NAME_ROLE_KEYS.includes(key));
+    if (!known) {
+      throw new SignRequestError(
+        `workflowName uses an unknown placeholder: {{${placeholder}}}`,
+      );
+    }
+  }
+  return pattern;
+}
+
+/**
+ * Parses the body of `POST /api/templates` and `PUT /api/templates/:id`.
+ * Steps list `roles` instead of recipients; each role is filled by the sign
+ * requests using the template.
+ */
+export function parseTemplateDefinition(
+  body: Record<string, unknown>,
+): WorkflowTemplateDefinition {
+  const name = optionalText(body.name, "name");
+  if (!name) {
+    throw new SignRequestError("name is required");
+  }
+  if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    throw new SignRequestError(
+      `name cannot be longer than ${MAX_TEMPLATE_NAME_LENGTH} characters`,
+    );
+  }
+  const steps = parseTemplateSteps(body.steps);
+  const roles = new Set(
+    steps.flatMap((step) => step.roles.map(({ role }) => role)),
+  );
+  const signerRoles = new Set(
+    steps
+      .filter((step) => step.stepType === "signature")
+      .flatMap((step) => step.roles.map(({ role }) => role)),
+  );
+  const description = optionalText(body.description, "description");
+  const workflowName = parseWorkflowNamePattern(body.workflowName, roles);
+  const tenant = optionalText(body.tenant, "tenant");
+  const profile = optionalText(body.profile, "profile");
+  const locale = optionalText(body.locale, "locale");
+  const consentPageId = optionalText(body.consentPageId, "consentPageId");
+  const fields = parseTemplateFields(body.fields, signerRoles);
+  return {
+    name,
+    steps,
+    ...(description ? { description } : {}),
+    ...(workflowName ? { workflowName } : {}),
+    ...(tenant ? { tenant } : {}),
+    ...(profile ? { profile } : {}),
+    ...(locale ? { locale } : {}),
+    ...(consentPageId ? { consentPageId } : {}),
+    ...(fields ? { fields } : {}),
+  };
+}
+
+/**
+ * Parses the JSON `roles` form field sent with `template_id`: one recipient
+ * per role of the template, e.g. `{ "employee": { "email": "..." } }`.
+ */
+export function parseTemplateRoles(
+  value: string,
+  roles: string[],
+): Record<string, WorkflowRecipientInput> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(value);
+  } catch (_err) {
+    throw new SignRequestError("roles must be valid JSON");
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SignRequestError("roles must be a JSON object keyed by role");
+  }
+  const input = raw as Record<string, unknown>;
+  for (const role of Object.keys(input)) {
+    if (!roles.includes(role)) {
+      throw new SignRequestError(`roles.${role} is not a role of the template`);
+    }
+  }
+  const recipients: Record<string, WorkflowRecipientInput> = {};
+  for (const role of roles) {
+    if (input[role] === undefined) {
+      throw new SignRequestError(`roles.${role} is required`);
+    }
+    recipients[role] = parseRecipient(input[role], `roles.${role}`);
+  }
+  return recipients;
+}
+
+export interface AppliedTemplate {
+  name: string;
+  steps: WorkflowStepInput[];
+  fields?: SignatureFieldRequest[];
+}
+
+/**
+ * Fills a template's roles with the recipients of a sign request and returns
+ * the workflow name, steps and field placements to create the workflow with.
+ * `recipients` must hold one entry per role (see `parseTemplateRoles`).
+ */
+export function applyTemplate(
+  template: WorkflowTemplate,
+  recipients: Record<string, WorkflowRecipientInput>,
+  context: { fileName: string; documentCount: number },
+): AppliedTemplate {
+  const steps = template.steps.map((step): WorkflowStepInput => ({
+    stepType: step.stepType,
+    completion: step.completion,
+    recipients: step.roles.map(({ role, ...defaults }) => {
+      const recipient: WorkflowRecipientInput = {
+        ...defaults,
+        ...recipients[role],
+      };
+      recipient.preferredLocale ??= template.locale;
+      recipient.consentPageId ??= template.consentPageId;
+      return recipient;
+    }),
+  }));
+
+  let fields: SignatureFieldRequest[] | undefined;
+  if (template.fields) {
+    fields = template.fields.map(({ role, ...field }) => {
+      if (field.document >= context.documentCount) {
+        throw new SignRequestError(
+          `Template ${template.id} places fields on file ${field.document}, but only ${context.documentCount} file(s) were uploaded`,
+        );
+      }
+      return {
+        ...field,
+        ...(role ? { recipientEmail: recipients[role].email } : {}),
+      };
+    });
+  }
+
+  const name = (template.workflowName ?? "")
+    .replace(WORKFLOW_NAME_PLACEHOLDER, (_match, placeholder: string) => {
+      if (placeholder === "fileName") return context.fileName;
+      if (placeholder === "template") return template.name;
+      const [role, key] = placeholder.split(".");
+      return recipients[role]?.[key as keyof WorkflowRecipientInput] ?? "";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+  return { name: name || context.fileName, steps, fields };
+}
+
+export class MemoryTemplateRepository implements TemplateRepository {
+  #templates = new Map<string, WorkflowTemplate>();
+
+  get(id: string): Promise<WorkflowTemplate | undefined> {
+    const template = this.#templates.get(id);
+    return Promise.resolve(template ? structuredClone(template) : undefined);
+  }
+
+  put(template: WorkflowTemplate): Promise<void> {
+    this.#templates.set(template.id, structuredClone(template));
+    return Promise.resolve();
+  }
+
+  delete(id: string): Promise<void> {
+    this.#templates.delete(id);
+    return Promise.resolve();
+  }
+
+  async *list(): AsyncIterable<WorkflowTemplate> {
+    for (const template of [...this.#templates.values()]) {
+      yield structuredClone(template);
+    }
+  }
+}
+
+const TEMPLATES_PREFIX = ["workflow_templates"];
+
+/**
+ * Deno KV backed repository; templates live under `["workflow_templates", id]`.
+ */
+export class KvTemplateRepository implements TemplateRepository {
+  #kv: Deno.Kv;
+
+  constructor(kv: Deno.Kv) {
+    this.#kv = kv;
+  }
+
+  static async open(path?: string): Promise<KvTemplateRepository> {
+    return new KvTemplateRepository(await Deno.openKv(path));
+  }
+
+  async get(id: string): Promise<WorkflowTemplate | undefined> {
+    const entry = await this.#kv.get<WorkflowTemplate>([
+      ...TEMPLATES_PREFIX,
+      id,
+    ]);
+    return entry.value ?? undefined;
+  }
+
+  async put(template: WorkflowTemplate): Promise<void> {
+    await this.#kv.set([...TEMPLATES_PREFIX, template.id], template);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.#kv.delete([...TEMPLATES_PREFIX, id]);
+  }
+
+  async *list(): AsyncIterable<WorkflowTemplate> {
+    const entries = this.#kv.list<WorkflowTemplate>({
+      prefix: TEMPLATES_PREFIX,
+    });
+    for await (const entry of entries) {
+      yield entry.value;
+    }
+  }
+}
+
+/**
+ * Creates, replaces and deletes templates on behalf of a principal. Every
+ * caller may read and use a template; only its owner and admins change it.
+ */
+export class TemplateStore {
+  #templates: TemplateRepository;
+
+  constructor(templates: TemplateRepository) {
+    this.#templates = templates;
+  }
+
+  async get(id: string): Promise<WorkflowTemplate | undefined> {
+    return await this.#templates.get(id);
+  }
+
+  /** Every template, sorted by name. */
+  async list(): Promise<WorkflowTemplate[]> {
+    const templates: WorkflowTemplate[] = [];
+    for await (const template of this.#templates.list()) {
+      templates.push(template);
+    }
+    return templates.sort((a, b) =>
+      a.name.localeCompare(b.name) || a.id.localeCompare(b.id)
+    );
+  }
+
+  async create(
+    definition: WorkflowTemplateDefinition,
+    ownerId: string,
+  ): Promise<WorkflowTemplate> {
+    const now = Date.now();
+    const template: WorkflowTemplate = {
+      ...definition,
+      id: crypto.randomUUID(),
+      ownerId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.#templates.put(template);
+    return template;
+  }
+
+  async replace(
+    template: WorkflowTemplate,
+    definition: WorkflowTemplateDefinition,
+  ): Promise<WorkflowTemplate> {
+    const updated: WorkflowTemplate = {
+      ...definition,
+      id: template.id,
+      ownerId: template.ownerId,
+      createdAt: template.createdAt,
+      updatedAt: Date.now(),
+    };
+    await this.#templates.put(updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.#templates.delete(id);
+  }
+}
+
+async function createTemplateRepository(): Promise<TemplateRepository> {
+  // Templates are kept next to the jobs, in the same Deno KV database.
+  switch (config.storage.jobs) {
+    case "kv":
+      return await KvTemplateRepository.open(config.storage.kvPath);
+    default:
+      return new MemoryTemplateRepository();
+  }
+}
+
+export const templateStore = new TemplateStore(
+  await createTemplateRepository(),
+);
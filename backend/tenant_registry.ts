@@ -0,0 +1,275 @@
+import { load } from "@std/dotenv";
+
+/** A Goodflag signature profile of a tenant, e.g. simple vs advanced. */
+export interface TenantProfile {
+  signatureProfileId: string;
+  /** Overrides the tenant's consent page for this profile. */
+  consentPageId?: string;
+}
+
+/** One Goodflag owner account and the defaults used when acting for it. */
+export interface Tenant {
+  id: string;
+  name?: string;
+  /** Defaults to `GOODFLAG_BASE_URL`. */
+  baseUrl?: string;
+  /** Inline API key; `apiKeyEnv` keeps it out of files and storage. */
+  apiKey?: string;
+  /** Environment variable holding the API key, read when the tenant is used. */
+  apiKeyEnv?: string;
+  userId: string;
+  defaultLocale?: string;
+  consentPageId?: string;
+  defaultProfile: string;
+  profiles: Record<string, TenantProfile>;
+  /** Principal IDs allowed to sign as this tenant; everyone when omitted. */
+  allowedPrincipals?: string[];
+}
+
+/** Looks up tenants by ID. Implementations return copies. */
+export interface TenantRegistry {
+  get(id: string): Promise<Tenant | undefined>;
+  list(): AsyncIterable<Tenant>;
+}
+
+const TENANT_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+function requireText(value: unknown, label: string): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new Error(`${label} must be a non-empty string`);
+  }
+  return value.trim();
+}
+
+function optionalText(value: unknown, label: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return requireText(value, label);
+}
+
+/**
+ * Validates one tenant definition. Secrets can be given inline (`apiKey`) or
+ * by naming the environment variable that holds them (`apiKeyEnv`), which
+ * keeps them out of the tenants file and of the KV registry: the variable is
+ * only read by `tenantApiKey`.
+ */
+export function parseTenant(raw: unknown, label = "tenant"): Tenant {
+  if (!raw || typeof raw !== "object") {
+    throw new Error(`${label} must be an object`);
+  }
+  const input = raw as Record<string, unknown>;
+  const id = requireText(input.id, `${label}.id`);
+  if (!TENANT_ID_PATTERN.test(id)) {
+    throw new Error(`${label}.id may only contain letters, digits, . _ -`);
+  }
+
+  const apiKey = optionalText(input.apiKey, `${label}.apiKey`);
+  const apiKeyEnv = optionalText(input.apiKeyEnv, `${label}.apiKeyEnv`);
+  if (!apiKey && !apiKeyEnv) {
+    throw new Error(`${label} needs an apiKey or apiKeyEnv`);
+  }
+
+  if (!input.profiles || typeof input.profiles !== "object") {
+    throw new Error(`${label}.profiles must be an object`);
+  }
+  // Object.fromEntries defines own properties, even for keys such as
+  // `__proto__` that plain assignment would treat specially.
+  const profiles: Record<string, TenantProfile> = Object.fromEntries(
+    Object.entries(input.profiles as Record<string, unknown>).map(
+      ([key, value]) => {
+        const profile = (value ?? {}) as Record<string, unknown>;
+        const profileLabel = `${label}.profiles.${key}`;
+        return [key, {
+          signatureProfileId: requireText(
+            profile.signatureProfileId,
+            `${profileLabel}.signatureProfileId`,
+          ),
+          consentPageId: optionalText(
+            profile.consentPageId,
+            `${profileLabel}.consentPageId`,
+          ),
+        }];
+      },
+    ),
+  );
+  const profileKeys = Object.keys(profiles);
+  if (profileKeys.length === 0) {
+    throw new Error(`${label}.profiles must define at least one profile`);
+  }
+  const defaultProfile =
+    optionalText(input.defaultProfile, `${label}.defaultProfile`) ??
+      profileKeys[0];
+  if (!Object.hasOwn(profiles, defaultProfile)) {
+    throw new Error(`${label}.defaultProfile must name one of its profiles`);
+  }
+
+  let allowedPrincipals: string[] | undefined;
+  if (input.allowedPrincipals !== undefined) {
+    if (!Array.isArray(input.allowedPrincipals)) {
+      throw new Error(`${label}.allowedPrincipals must be an array`);
+    }
+    allowedPrincipals = input.allowedPrincipals.map((principal, index) =>
+      requireText(principal, `${label}.allowedPrincipals[${index}]`)
+    );
+  }
+
+  return {
+    id,
+    name: optionalText(input.name, `${label}.name`),
+    baseUrl: optionalText(input.baseUrl, `${label}.baseUrl`),
+    ...(apiKey ? { apiKey } : { apiKeyEnv }),
+    userId: requireText(input.userId, `${label}.userId`),
+    defaultLocale: optionalText(input.defaultLocale, `${label}.defaultLocale`),
+    consentPageId: optionalText(input.consentPageId, `${label}.consentPageId`),
+    defaultProfile,
+    profiles,
+    ...(allowedPrincipals ? { allowedPrincipals } : {}),
+  };
+}
+
+/** The tenant's API key, inline or read from its `apiKeyEnv` variable. */
+export function tenantApiKey(tenant: Tenant): string {
+  const apiKey = tenant.apiKey ??
+    (tenant.apiKeyEnv ? Deno.env.get(tenant.apiKeyEnv) : undefined);
+  if (!apiKey) {
+    throw new Error(
+      `API key of tenant ${tenant.id} is missing: ${tenant.apiKeyEnv} is not set`,
+    );
+  }
+  return apiKey;
+}
+
+/** Parses a tenants file: an array of tenants or `{ "tenants": [...] }`. */
+export function parseTenantsFile(raw: unknown): Tenant[] {
+  const entries = Array.isArray(raw)
+    ? raw
+    : (raw as { tenants?: unknown } | null)?.tenants;
+  if (!Array.isArray(entries)) {
+    throw new Error("Tenants file must contain an array of tenants");
+  }
+  const tenants = entries.map((entry, index) =>
+    parseTenant(entry, `tenants[${index}]`)
+  );
+  const ids = new Set<string>();
+  for (const tenant of tenants) {
+    if (ids.has(tenant.id)) {
+      throw new Error(`Duplicate tenant id: ${tenant.id}`);
+    }
+    ids.add(tenant.id);
+  }
+  return tenants;
+}
+
+export class StaticTenantRegistry implements TenantRegistry {
+  #tenants = new Map<string, Tenant>();
+
+  constructor(tenants: Tenant[]) {
+    for (const tenant of tenants) {
+      this.#tenants.set(tenant.id, tenant);
+    }
+  }
+
+  static async fromFile(
+    path: string,
+    fallback?: Tenant,
+  ): Promise<StaticTenantRegistry> {
+    const tenants = parseTenantsFile(JSON.parse(await Deno.readTextFile(path)));
+    // Fail at startup rather than on the first request for the tenant.
+    for (const tenant of tenants) tenantApiKey(tenant);
+    if (fallback && !tenants.some((tenant) => tenant.id === fallback.id)) {
+      tenants.push(fallback);
+    }
+    return new StaticTenantRegistry(tenants);
+  }
+
+  get(id: string): Promise<Tenant | undefined> {
+    const tenant = this.#tenants.get(id);
+    return Promise.resolve(tenant ? structuredClone(tenant) : undefined);
+  }
+
+  async *list(): AsyncIterable<Tenant> {
+    for (const tenant of [...this.#tenants.values()]) {
+      yield structuredClone(tenant);
+    }
+  }
+}
+
+const TENANTS_PREFIX = ["tenants"];
+
+/**
+ * Deno KV backed registry; tenants live under `["tenants", id]` so they can be
+ * changed without a redeploy (`deno task tenants import <file>`).
+ */
+export class KvTenantRegistry implements TenantRegistry {
+  #kv: Deno.Kv;
+  #fallback?: Tenant;
+
+  constructor(kv: Deno.Kv, fallback?: Tenant) {
+    this.#kv = kv;
+    this.#fallback = fallback;
+  }
+
+  static async open(
+    path?: string,
+    fallback?: Tenant,
+  ): Promise<KvTenantRegistry> {
+    return new KvTenantRegistry(await Deno.openKv(path), fallback);
+  }
+
+  async get(id: string): Promise<Tenant | undefined> {
+    const entry = await this.#kv.get<Tenant>([...TENANTS_PREFIX, id]);
+    if (entry.value) return entry.value;
+    return id === this.#fallback?.id
+      ? structuredClone(this.#fallback)
+      : undefined;
+  }
+
+  async put(tenant: Tenant): Promise<void> {
+    await this.#kv.set([...TENANTS_PREFIX, tenant.id], tenant);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.#kv.delete([...TENANTS_PREFIX, id]);
+  }
+
+  async *list(): AsyncIterable<Tenant> {
+    const entries = this.#kv.list<Tenant>({ prefix: TENANTS_PREFIX });
+    let fallbackStored = false;
+    for await (const entry of entries) {
+      fallbackStored ||= entry.value.id === this.#fallback?.id;
+      yield entry.value;
+    }
+    if (this.#fallback && !fallbackStored) {
+      yield structuredClone(this.#fallback);
+    }
+  }
+}
+
+if (import.meta.main) {
+  // Usage: deno task tenants import <file> | list
+  const [command, path] = Deno.args;
+  // Only the KV path is needed, so the API's configuration is not required.
+  await load({ export: true });
+  const registry = await KvTenantRegistry.open(
+    Deno.env.get("JOB_STORE_KV_PATH"),
+  );
+  if (command === "import" && path) {
+    const tenants = parseTenantsFile(JSON.parse(await Deno.readTextFile(path)));
+    for (const tenant of tenants) {
+      await registry.put(tenant);
+      console.log(`Imported tenant ${tenant.id}`);
+      if (tenant.apiKey) {
+        console.warn(
+          `Tenant ${tenant.id} has an inline apiKey, now stored in KV; use apiKeyEnv to keep it out`,
+        );
+      }
+    }
+  } else if (command === "list") {
+    for await (const tenant of registry.list()) {
+      const profiles = Object.keys(tenant.profiles).join(",");
+      console.log(`${tenant.id}\t${tenant.userId}\t${profiles}`);
+    }
+  } else {
+    console.error("Usage: deno task tenants import <file> | list");
+    Deno.exit(1);
+  }
+}
@@ -0,0 +1,167 @@
+import config from "./config.ts";
+import type { Principal } from "./auth.ts";
+import { GoodflagClient } from "./goodflag.ts";
+import type { SigningJob } from "./store.ts";
+import {
+  KvTenantRegistry,
+  StaticTenantRegistry,
+  type Tenant,
+  tenantApiKey,
+  type TenantRegistry,
+} from "./tenant_registry.ts";
+
+/**
+ * Thrown when a request names a tenant or profile it cannot use; mapped to a
+ * 400, or to a 403 when the tenant exists but the caller may not use it.
+ */
+export class TenantError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "TenantError";
+    this.status = status;
+  }
+}
+
+export interface ResolvedTenant {
+  tenant: Tenant;
+  profileKey: string;
+  client: GoodflagClient;
+}
+
+/** Used for jobs persisted before tenants existed. */
+export const LEGACY_TENANT_ID = "default";
+
+/**
+ * The tenant described by the `GOODFLAG_*` variables, so single-account
+ * deployments keep working without a tenants file.
+ */
+export function tenantFromEnv(): Tenant | undefined {
+  if (
+    !config.goodflagApiKey ||
+    !config.goodflagUserId ||
+    !config.goodflagSignatureProfileId
+  ) {
+    return undefined;
+  }
+  return {
+    id: LEGACY_TENANT_ID,
+    apiKey: config.goodflagApiKey,
+    userId: config.goodflagUserId,
+    consentPageId: config.goodflagConsentPageId,
+    defaultProfile: "default",
+    profiles: {
+      default: { signatureProfileId: config.goodflagSignatureProfileId },
+    },
+  };
+}
+
+/**
+ * Picks the tenant and signature profile for a request and builds the
+ * Goodflag client acting as that tenant.
+ */
+export class TenantDirectory {
+  #registry: TenantRegistry;
+  #defaultTenantId: string;
+
+  constructor(registry: TenantRegistry, defaultTenantId: string) {
+    this.#registry = registry;
+    this.#defaultTenantId = defaultTenantId;
+  }
+
+  /** Resolves the tenant a new job will run as; throws `TenantError`. */
+  async resolve(
+    principal: Principal,
+    tenantId?: string,
+    profileKey?: string,
+  ): Promise<ResolvedTenant> {
+    const tenant = await this.#registry.get(tenantId ?? this.#defaultTenantId);
+    if (!tenant) {
+      throw new TenantError(
+        tenantId
+          ? `Unknown tenant: ${tenantId}`
+          : "No default tenant is configured",
+      );
+    }
+    if (
+      tenant.allowedPrincipals &&
+      !tenant.allowedPrincipals.includes(principal.id)
+    ) {
+      throw new TenantError(
+        `Tenant ${tenant.id} is not permitted for ${principal.id}`,
+        403,
+      );
+    }
+    const key = profileKey ?? tenant.defaultProfile;
+    if (!hasProfile(tenant, key)) {
+      throw new TenantError(
+        `Unknown signature profile for tenant ${tenant.id}: ${key}`,
+      );
+    }
+    return { tenant, profileKey: key, client: buildClient(tenant, key) };
+  }
+
+  /** Client for an existing job, acting as the tenant that created it. */
+  async clientForJob(job: SigningJob): Promise<GoodflagClient> {
+    const tenantId = job.tenantId ?? LEGACY_TENANT_ID;
+    const tenant = await this.#registry.get(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant ${tenantId} of job ${job.id} no longer exists`);
+    }
+    // A profile removed since the job was created only mattered for uploads.
+    const profileKey = hasProfile(tenant, job.profileKey)
+      ? job.profileKey
+      : tenant.defaultProfile;
+    return buildClient(tenant, profileKey);
+  }
+
+  /** Every tenant and profile with the client acting as it. */
+  async *profiles(): AsyncIterable<ResolvedTenant> {
+    for await (const tenant of this.#registry.list()) {
+      for (const profileKey of Object.keys(tenant.profiles)) {
+        yield { tenant, profileKey, client: buildClient(tenant, profileKey) };
+      }
+    }
+  }
+}
+
+/**
+ * Profile keys come from requests and stored jobs, so inherited properties
+ * such as `constructor` must not count as profiles.
+ */
+function hasProfile(tenant: Tenant, key: string): boolean {
+  return Object.hasOwn(tenant.profiles, key);
+}
+
+function buildClient(tenant: Tenant, profileKey: string): GoodflagClient {
+  const profile = tenant.profiles[profileKey];
+  return new GoodflagClient({
+    baseUrl: tenant.baseUrl ?? config.goodflagBaseUrl,
+    apiKey: tenantApiKey(tenant),
+    userId: tenant.userId,
+    signatureProfileId: profile.signatureProfileId,
+    consentPageId: profile.consentPageId ?? tenant.consentPageId,
+    defaultLocale: tenant.defaultLocale ?? config.defaultLocale,
+    maxInvites: config.goodflagMaxInvites,
+    timeoutMs: config.goodflagTimeoutMs,
+    maxRetries: config.goodflagMaxRetries,
+    retryBaseDelayMs: 500,
+  });
+}
+
+async function createTenantRegistry(): Promise<TenantRegistry> {
+  const fallback = tenantFromEnv();
+  if (config.tenants.store === "kv") {
+    return await KvTenantRegistry.open(config.storage.kvPath, fallback);
+  }
+  if (config.tenants.file) {
+    return await StaticTenantRegistry.fromFile(config.tenants.file, fallback);
+  }
+  return new StaticTenantRegistry(fallback ? [fallback] : []);
+}
+
+export const tenantDirectory = new TenantDirectory(
+  await createTenantRegistry(),
+  config.tenants.defaultTenant,
+);
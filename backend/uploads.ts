@@ -0,0 +1,222 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { SignatureFieldInput } from "./goodflag.ts";
+
+export type UploadErrorCode =
+  | "request_too_large"
+  | "file_too_large"
+  | "not_pdf"
+  | "pdf_encrypted"
+  | "pdf_unreadable"
+  | "signature_page_missing";
+
+const STATUSES: Record<UploadErrorCode, number> = {
+  request_too_large: 413,
+  file_too_large: 413,
+  not_pdf: 415,
+  pdf_encrypted: 422,
+  pdf_unreadable: 422,
+  signature_page_missing: 422,
+};
+
+/**
+ * An upload Goodflag would not accept. `code` tells callers (and the SPA)
+ * what is wrong with the file; `status` is the HTTP status to answer with.
+ */
+export class UploadError extends Error {
+  readonly code: UploadErrorCode;
+  readonly status: number;
+
+  constructor(code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = "UploadError";
+    this.code = code;
+    this.status = STATUSES[code];
+  }
+}
+
+function megabytes(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+/**
+ * An uploaded file, read into memory once. The checks, signature anchor
+ * detection, idempotency fingerprint and Goodflag upload all share `bytes`.
+ */
+export interface UploadedFile {
+  name: string;
+  type: string;
+  bytes: Uint8Array<ArrayBuffer>;
+}
+
+/** A multipart request with its file parts read into `UploadedFile`s. */
+export interface UploadForm {
+  /** The text fields. */
+  fields: FormData;
+  /** The file parts by field name, in the order they were sent. */
+  files: Map<string, UploadedFile[]>;
+}
+
+/**
+ * Reads a multipart body, giving up as soon as it grows past `maxBytes`
+ * rather than after buffering all of it. Each file part is copied out of
+ * the parsed form once; the form itself is dropped afterwards.
+ */
+export async function readUploadForm(
+  req: Request,
+  maxBytes: number,
+): Promise<UploadForm> {
+  const tooLarge = () =>
+    new UploadError(
+      "request_too_large",
+      `Request body exceeds the ${megabytes(maxBytes)} limit`,
+    );
+  const declared = Number(req.headers.get("content-length") ?? 0);
+  if (declared > maxBytes) throw tooLarge();
+  if (!req.body) return await toUploadForm(await req.formData());
+
+  // Content-Length may be missing (chunked uploads) or wrong; count instead.
+  let received = 0;
+  const body = req.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(tooLarge());
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+  let formData: FormData;
+  try {
+    formData = await new Request(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body,
+    }).formData();
+  } catch (error) {
+    if (received > maxBytes) throw tooLarge();
+    throw error;
+  }
+  return await toUploadForm(formData);
+}
+
+async function toUploadForm(formData: FormData): Promise<UploadForm> {
+  const form: UploadForm = { fields: new FormData(), files: new Map() };
+  for (const [name, value] of formData.entries()) {
+    if (typeof value === "string") {
+      form.fields.append(name, value);
+      continue;
+    }
+    const files = form.files.get(name) ?? [];
+    files.push({
+      name: value.name,
+      type: value.type,
+      bytes: new Uint8Array(await value.arrayBuffer()),
+    });
+    form.files.set(name, files);
+  }
+  return form;
+}
+
+// Readers accept the header anywhere in the first kilobyte.
+const PDF_HEADER = new TextEncoder().encode("%PDF-");
+const PDF_HEADER_WINDOW = 1024;
+
+function hasPdfHeader(bytes: Uint8Array): boolean {
+  outer: for (let i = 0; i + PDF_HEADER.length <= bytes.length; i++) {
+    for (let j = 0; j < PDF_HEADER.length; j++) {
+      if (bytes[i + j] !== PDF_HEADER[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+export interface PdfInfo {
+  pageCount: number;
+}
+
+/**
+ * Checks that `file` is a PDF Goodflag can sign: it is not too large, starts
+ * with the `%PDF-` header, parses, and is not encrypted. Returns its page
+ * count. Throws an `UploadError` otherwise.
+ */
+export async function inspectPdf(
+  file: UploadedFile,
+  maxBytes: number,
+): Promise<PdfInfo> {
+  const name = file.name || "document.pdf";
+  if (
+    file.type && file.type !== "application/pdf" &&
+    !name.toLowerCase().endsWith(".pdf")
+  ) {
+    throw new UploadError(
+      "not_pdf",
+      `Only PDF files are supported (${name})`,
+    );
+  }
+  if (file.bytes.byteLength > maxBytes) {
+    throw new UploadError(
+      "file_too_large",
+      `${name} is ${megabytes(file.bytes.byteLength)}, above the ${
+        megabytes(maxBytes)
+      } limit`,
+    );
+  }
+  if (!hasPdfHeader(file.bytes.subarray(0, PDF_HEADER_WINDOW))) {
+    throw new UploadError("not_pdf", `${name} is not a PDF document`);
+  }
+
+  let document;
+  try {
+    document = await getDocument({
+      // pdf.js transfers the buffer to its worker; keep the caller's copy.
+      data: file.bytes.slice(),
+      isEvalSupported: false,
+      disableFontFace: true,
+      verbosity: 0,
+    }).promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === "PasswordException") {
+      throw new UploadError(
+        "pdf_encrypted",
+        `${name} is password protected`,
+      );
+    }
+    throw new UploadError(
+      "pdf_unreadable",
+      `${name} could not be read as a PDF`,
+    );
+  }
+  try {
+    // Documents that open without a password may still be encrypted to
+    // restrict changes, which rules out adding signatures.
+    const { info } = await document.getMetadata();
+    if ((info as { EncryptFilterName?: string | null }).EncryptFilterName) {
+      throw new UploadError("pdf_encrypted", `${name} is encrypted`);
+    }
+    return { pageCount: document.numPages };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Rejects fields placed past the last page of a document. `-1` stands for
+ * the last page, which always exists.
+ */
+export function checkFieldPages(
+  fileName: string,
+  info: PdfInfo,
+  fields: SignatureFieldInput[],
+) {
+  const missing = fields.find((field) => field.page > info.pageCount);
+  if (missing) {
+    throw new UploadError(
+      "signature_page_missing",
+      `${fileName} has ${info.pageCount} page(s); it has no page ${missing.page} for a signature field`,
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { decodeHex } from "@std/encoding/hex";
+
+export interface GoodflagWebhookEvent {
+  id: string;
+  eventType: string;
+  workflowId: string;
+  created?: number;
+}
+
+const encoder = new TextEncoder();
+
+const EVENT_WORKFLOW_STATUS: Record<string, string> = {
+  workflowstarted: "started",
+  workflowfinished: "finished",
+  workflowrefused: "refused",
+  recipientrefused: "refused",
+  workflowstopped: "stopped",
+};
+
+async function importHmacKey(secret: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  );
+}
+
+/**
+ * Checks the `X-Goodflag-Signature` header (hex HMAC-SHA256 of the raw body,
+ * optionally prefixed with `sha256=`) against the configured secret.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  body: Uint8Array<ArrayBuffer>,
+  signatureHeader: string | null,
+): Promise<boolean> {
+  if (!signatureHeader) return false;
+  const hex = signatureHeader.trim().replace(/^sha256=/i, "");
+  if (!/^[0-9a-f]+$/i.test(hex) || hex.length % 2 !== 0) return false;
+
+  const key = await importHmacKey(secret);
+  // crypto.subtle.verify compares in constant time.
+  return await crypto.subtle.verify("HMAC", key, decodeHex(hex), body);
+}
+
+export function parseWebhookEvent(
+  raw: unknown,
+): GoodflagWebhookEvent | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const payload = raw as Record<string, unknown>;
+  const id = payload.id;
+  const eventType = payload.eventType;
+  const workflowId = payload.workflowId;
+  if (
+    typeof id !== "string" ||
+    typeof eventType !== "string" ||
+    typeof workflowId !== "string"
+  ) {
+    return undefined;
+  }
+  const created =
+    typeof payload.created === "number" ? payload.created : undefined;
+  return { id, eventType, workflowId, created };
+}
+
+/** Maps a Goodflag event type onto the workflow status it implies, if any. */
+export function workflowStatusForEvent(eventType: string): string | undefined {
+  return EVENT_WORKFLOW_STATUS[eventType.toLowerCase()];
+}
+
+/**
+ * Remembers recently processed event IDs so retried or replayed deliveries are
+ * ignored, and rejects events whose `created` timestamp is missing or outside
+ * the window.
+ */
+export class WebhookReplayGuard {
+  #seen = new Map<string, number>();
+  #toleranceMs: number;
+
+  constructor(toleranceMs: number) {
+    this.#toleranceMs = toleranceMs;
+  }
+
+  /**
+   * Events without `created` count as stale: the signature only covers the
+   * body, and nothing else would stop such an event from being replayed once
+   * its ID falls out of the window.
+   */
+  isStale(event: GoodflagWebhookEvent, now = Date.now()): boolean {
+    if (event.created === undefined) return true;
+    return Math.abs(now - event.created) > this.#toleranceMs;
+  }
+
+  isDuplicate(event: GoodflagWebhookEvent, now = Date.now()): boolean {
+    this.#evictExpired(now);
+    return this.#seen.has(event.id);
+  }
+
+  /** Call once an event was fully processed so Goodflag retries still land. */
+  remember(event: GoodflagWebhookEvent, now = Date.now()) {
+    this.#seen.set(event.id, now + this.#toleranceMs);
+  }
+
+  #evictExpired(now: number) {
+    for (const [id, expiresAt] of this.#seen.entries()) {
+      if (expiresAt < now) {
+        this.#seen.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { assert, assertEquals } from "@std/assert";
+import { encodeHex } from "@std/encoding/hex";
+import {
+  type GoodflagWebhookEvent,
+  parseWebhookEvent,
+  verifyWebhookSignature,
+  WebhookReplayGuard,
+  workflowStatusForEvent,
+} from "./webhooks.ts";
+
+const SECRET = "webhook-secret";
+const TOLERANCE_MS = 300_000;
+
+async function sign(body: Uint8Array<ArrayBuffer>): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  return encodeHex(new Uint8Array(await crypto.subtle.sign("HMAC", key, body)));
+}
+
+function event(created?: number): GoodflagWebhookEvent {
+  return {
+    id: "evt_1",
+    eventType: "workflowFinished",
+    workflowId: "wfl_1",
+    created,
+  };
+}
+
+Deno.test("treats events without a timestamp as stale", () => {
+  const guard = new WebhookReplayGuard(TOLERANCE_MS);
+  const now = Date.now();
+  assert(guard.isStale(event(), now));
+  assert(guard.isStale(event(now - TOLERANCE_MS - 1), now));
+  assert(!guard.isStale(event(now - 1000), now));
+});
+
+Deno.test("remembers processed events for the tolerance window", () => {
+  const guard = new WebhookReplayGuard(TOLERANCE_MS);
+  const now = Date.now();
+  assert(!guard.isDuplicate(event(now), now));
+  guard.remember(event(now), now);
+  assert(guard.isDuplicate(event(now), now + 1000));
+  assertEquals(guard.isDuplicate(event(now), now + TOLERANCE_MS + 1), false);
+});
+
+Deno.test("verifies the HMAC signature of a webhook body", async () => {
+  const body = new TextEncoder().encode('{"id":"evt_1"}');
+  const signature = await sign(body);
+  assert(await verifyWebhookSignature(SECRET, body, signature));
+  assert(await verifyWebhookSignature(SECRET, body, `sha256=${signature}`));
+  assert(
+    await verifyWebhookSignature(SECRET, body, signature.toUpperCase()),
+  );
+
+  const tampered = new TextEncoder().encode('{"id":"evt_2"}');
+  assertEquals(await verifyWebhookSignature(SECRET, tampered, signature), false);
+  assertEquals(
+    await verifyWebhookSignature("other-secret", body, signature),
+    false,
+  );
+  assertEquals(await verifyWebhookSignature(SECRET, body, null), false);
+  assertEquals(await verifyWebhookSignature(SECRET, body, "not-hex"), false);
+  assertEquals(await verifyWebhookSignature(SECRET, body, "abc"), false);
+});
+
+Deno.test("parses webhook events", () => {
+  assertEquals(
+    parseWebhookEvent({
+      id: "evt_1",
+      eventType: "workflowFinished",
+      workflowId: "wfl_1",
+      created: 1700000000000,
+      extra: true,
+    }),
+    {
+      id: "evt_1",
+      eventType: "workflowFinished",
+      workflowId: "wfl_1",
+      created: 1700000000000,
+    },
+  );
+  assertEquals(
+    parseWebhookEvent({
+      id: "evt_1",
+      eventType: "workflowFinished",
+      workflowId: "wfl_1",
+      created: "yesterday",
+    })?.created,
+    undefined,
+  );
+  assertEquals(parseWebhookEvent({ id: "evt_1", eventType: "x" }), undefined);
+  assertEquals(parseWebhookEvent(null), undefined);
+  assertEquals(parseWebhookEvent("evt_1"), undefined);
+});
+
+Deno.test("maps event types onto workflow statuses", () => {
+  assertEquals(workflowStatusForEvent("workflowStarted"), "started");
+  assertEquals(workflowStatusForEvent("WORKFLOWFINISHED"), "finished");
+  assertEquals(workflowStatusForEvent("recipientRefused"), "refused");
+  assertEquals(workflowStatusForEvent("workflowStopped"), "stopped");
+  assertEquals(workflowStatusForEvent("recipientFinished"), undefined);
+});
@@ -0,0 +1,197 @@
+/**
+ * Minimal ZIP support for Goodflag downloads: reads stored and deflated
+ * entries through the central directory, and writes stored archives for the
+ * simulator. ZIP64 and encrypted archives are not supported.
+ */
+
+export interface ZipEntry {
+  name: string;
+  bytes: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const END_OF_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+/** Thrown for archives this reader cannot extract. */
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** True when `bytes` starts like a ZIP archive (a local file header). */
+export function isZip(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 &&
+    new DataView(bytes.buffer, bytes.byteOffset, 4).getUint32(0, true) ===
+      LOCAL_HEADER_SIGNATURE;
+}
+
+async function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_DIRECTORY_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === END_OF_DIRECTORY_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new ZipError("ZIP archive has no end of central directory record");
+}
+
+/** Extracts every file of a ZIP archive; directories are skipped. */
+export async function readZip(bytes: Uint8Array): Promise<ZipEntry[]> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const end = findEndOfDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new ZipError("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipError("ZIP central directory is corrupt");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const expectedCrc = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & FLAG_ENCRYPTED) {
+      throw new ZipError(`ZIP entry ${name} is encrypted`);
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipError(`ZIP entry ${name} has no local header`);
+    }
+    // Sizes come from the central directory: local headers may defer them to
+    // a data descriptor.
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    if (dataStart + compressedSize > bytes.length) {
+      throw new ZipError(`ZIP entry ${name} is truncated`);
+    }
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    let content: Uint8Array;
+    if (method === METHOD_STORED) {
+      content = data.slice();
+    } else if (method === METHOD_DEFLATED) {
+      content = await inflateRaw(data);
+    } else {
+      throw new ZipError(
+        `ZIP entry ${name} uses unsupported compression method ${method}`,
+      );
+    }
+    if (content.length !== size || crc32(content) !== expectedCrc) {
+      throw new ZipError(`ZIP entry ${name} is corrupt`);
+    }
+    entries.push({ name, bytes: content });
+  }
+  return entries;
+}
+
+/** Builds an uncompressed ZIP archive. */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.bytes);
+
+    const local = new Uint8Array(30 + name.length + entry.bytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, METHOD_STORED, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, entry.bytes.length, true);
+    localView.setUint32(22, entry.bytes.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(entry.bytes, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, METHOD_STORED, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, entry.bytes.length, true);
+    centralView.setUint32(24, entry.bytes.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(END_OF_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_DIRECTORY_SIGNATURE, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const archive = new Uint8Array(offset + directorySize + end.length);
+  let position = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+}
@@ -1,12 +1,44 @@
 import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
 
+interface SigningDocument {
+  index: number;
+  fileName: string;
+  signedFileName?: string | null;
+  downloadUrl?: string | null;
+}
+
+interface SigningFile {
+  index: number;
+  name: string;
+  kind: string;
+  downloadUrl: string;
+}
+
+interface SignatureReport {
+  signer?: string;
+  signingTime?: string;
+}
+
+interface DocumentVerification {
+  fileName: string;
+  signed: boolean;
+  valid: boolean;
+  modifiedAfterSigning: boolean;
+  signatures: SignatureReport[];
+}
+
 interface SigningStatus {
   jobId: string;
   status: string;
   fileName?: string;
   signedFileName?: string | null;
+  documents?: SigningDocument[];
+  files?: SigningFile[];
   downloadUrl?: string | null;
+  verification?: { documents: DocumentVerification[] } | null;
   error?: string | null;
+  errorReason?: string | null;
+  cancelReason?: string | null;
   workflowId?: string | null;
   workflowStatus?: string | null;
   updatedAt?: number;
@@ -15,30 +47,188 @@ interface SigningStatus {
 const apiBase = (import.meta.env.VITE_API_BASE_URL ?? "").replace(/\/$/, "");
 const apiUrl = (path: string) => `${apiBase}${path}`;
 const POLL_INTERVAL_MS = 2500;
+const TOKEN_STORAGE_KEY = "goodflag.accessToken";
+const TERMINAL_STATUSES = ["completed", "error", "expired", "canceled"];
+
+const ERROR_REASON_LABELS: Record<string, string> = {
+  approval_refused: "Approval refused",
+  signature_refused: "Signature refused",
+  workflow_stopped: "Workflow stopped",
+  workflow_failed: "Workflow failed",
+  goodflag_error: "Goodflag error",
+};
+
+// Extra guidance for the upload problems the API reports with a `code`.
+const UPLOAD_ERROR_HINTS: Record<string, string> = {
+  request_too_large: "Send fewer or smaller files at once.",
+  file_too_large: "Compress the document or split it into several files.",
+  not_pdf: "Export the document to PDF and try again.",
+  pdf_encrypted: "Remove its password and editing restrictions, then retry.",
+  pdf_unreadable: "The file may be damaged; export it to PDF again.",
+  signature_page_missing: "Check the signature page settings.",
+};
+
+function describeVerification(document: DocumentVerification) {
+  if (!document.signed) {
+    return { className: "unverified", text: "no signature found" };
+  }
+  if (!document.valid) {
+    return {
+      className: "unverified",
+      text: "signature does not match the document",
+    };
+  }
+  const signers = document.signatures
+    .map(({ signer, signingTime }) =>
+      [
+        signer ?? "unknown signer",
+        signingTime && `on ${new Date(signingTime).toLocaleString()}`,
+      ]
+        .filter(Boolean)
+        .join(" "),
+    )
+    .join("; ");
+  if (document.modifiedAfterSigning) {
+    return {
+      className: "warning",
+      text: `signed by ${signers}, but changed after signing`,
+    };
+  }
+  return { className: "verified", text: `signed by ${signers}` };
+}
+
+function fileNameFromDisposition(disposition: string | null) {
+  const encoded = disposition?.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      // Fall back to the plain file name.
+    }
+  }
+  const match = disposition?.match(/filename="?([^";]+)"?/i);
+  return match?.[1];
+}
 
 export default function App() {
-  const [file, setFile] = useState<File | null>(null);
+  // A bearer JWT from the identity provider, or an API key in development.
+  const [accessToken, setAccessToken] = useState(
+    () =>
+      sessionStorage.getItem(TOKEN_STORAGE_KEY) ??
+      import.meta.env.VITE_API_TOKEN ??
+      "",
+  );
+  const [files, setFiles] = useState<File[]>([]);
   const [workflowName, setWorkflowName] = useState("");
+  const [tenant, setTenant] = useState("");
+  const [profile, setProfile] = useState("");
   const [signerEmail, setSignerEmail] = useState("");
   const [signerFirstName, setSignerFirstName] = useState("");
   const [signerLastName, setSignerLastName] = useState("");
   const [signerPhone, setSignerPhone] = useState("");
   const [status, setStatus] = useState<SigningStatus | null>(null);
+  const [streamFailed, setStreamFailed] = useState(false);
+  const [streamGeneration, setStreamGeneration] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isCanceling, setIsCanceling] = useState(false);
+  // The reason typed while confirming a cancel; null when not confirming.
+  const [cancelReason, setCancelReason] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
 
   const isReady = useMemo(
-    () => Boolean(file) && signerEmail.trim().length > 0,
-    [file, signerEmail],
+    () =>
+      files.length > 0 &&
+      signerEmail.trim().length > 0 &&
+      accessToken.trim().length > 0,
+    [files, signerEmail, accessToken],
+  );
+
+  const authHeaders = useMemo(
+    (): Record<string, string> => ({
+      Authorization: `Bearer ${accessToken.trim()}`,
+    }),
+    [accessToken],
   );
 
   useEffect(() => {
-    if (!status || status.status === "completed" || status.status === "error") {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, accessToken);
+  }, [accessToken]);
+
+  // Prefer the server-sent event stream; fall back to polling if it fails.
+  useEffect(() => {
+    if (
+      !status ||
+      TERMINAL_STATUSES.includes(status.status) ||
+      streamFailed ||
+      typeof EventSource === "undefined"
+    ) {
       return;
     }
-    const interval = window.setInterval(async () => {
+    // EventSource cannot send headers, so it opens the stream with a
+    // short-lived ticket; a dropped stream reconnects with a fresh one.
+    let source: EventSource | undefined;
+    let canceled = false;
+    (async () => {
+      const res = await fetch(
+        apiUrl(`/api/sign/${status.jobId}/events-ticket`),
+        { method: "POST", headers: authHeaders },
+      );
+      if (!res.ok) {
+        throw new Error(`Unable to open the event stream (${res.status})`);
+      }
+      const { ticket } = (await res.json()) as { ticket: string };
+      if (canceled) return;
+      let opened = false;
+      source = new EventSource(
+        apiUrl(
+          `/api/sign/${status.jobId}/events?ticket=${encodeURIComponent(
+            ticket,
+          )}`,
+        ),
+      );
+      source.onopen = () => {
+        opened = true;
+      };
+      source.addEventListener("status", (event) => {
+        setStatus(JSON.parse((event as MessageEvent<string>).data));
+      });
+      source.onerror = () => {
+        source?.close();
+        if (opened) {
+          setStreamGeneration((generation) => generation + 1);
+        } else {
+          setStreamFailed(true);
+        }
+      };
+    })().catch((err) => {
+      console.error(err);
+      if (!canceled) setStreamFailed(true);
+    });
+    return () => {
+      canceled = true;
+      source?.close();
+    };
+  }, [
+    status?.jobId,
+    status?.status,
+    streamFailed,
+    streamGeneration,
+    authHeaders,
+  ]);
+
+  useEffect(() => {
+    if (
+      !status ||
+      TERMINAL_STATUSES.includes(status.status) ||
+      (!streamFailed && typeof EventSource !== "undefined")
+    ) {
+      return;
+    }
+    const interval = setInterval(async () => {
       try {
-        const res = await fetch(apiUrl(`/api/sign/${status.jobId}`));
+        const res = await fetch(apiUrl(`/api/sign/${status.jobId}`), {
+          headers: authHeaders,
+        });
         if (!res.ok) {
           throw new Error(`Unable to fetch status (${res.status})`);
         }
@@ -49,13 +239,13 @@ export default function App() {
       }
     }, POLL_INTERVAL_MS);
 
-    return () => window.clearInterval(interval);
-  }, [status?.jobId, status?.status]);
+    return () => clearInterval(interval);
+  }, [status?.jobId, status?.status, streamFailed, authHeaders]);
 
   const handleSubmit = useCallback(
     async (event: FormEvent<HTMLFormElement>) => {
       event.preventDefault();
-      if (!file || !signerEmail.trim()) {
+      if (files.length === 0 || !signerEmail.trim()) {
         setMessage("Please choose a PDF and provide a signer email.");
         return;
       }
@@ -63,7 +253,9 @@ export default function App() {
       setMessage(null);
       try {
         const formData = new FormData();
-        formData.set("file", file);
+        for (const file of files) {
+          formData.append("file", file);
+        }
         formData.set("signer_email", signerEmail.trim());
         if (signerFirstName) {
           formData.set("signer_first_name", signerFirstName);
@@ -74,21 +266,33 @@ export default function App() {
         if (workflowName) {
           formData.set("workflow_name", workflowName);
         }
+        if (tenant.trim()) {
+          formData.set("tenant", tenant.trim());
+        }
+        if (profile.trim()) {
+          formData.set("profile", profile.trim());
+        }
         const trimmedPhone = signerPhone.trim();
         if (trimmedPhone) {
           formData.set("signer_phone", trimmedPhone);
         }
         const response = await fetch(apiUrl("/api/sign"), {
           method: "POST",
+          headers: authHeaders,
           body: formData,
         });
         if (!response.ok) {
           const error = await response
             .json()
             .catch(() => ({ error: "Upload failed" }));
-          throw new Error(error.error || "Upload failed");
+          const hint = UPLOAD_ERROR_HINTS[error.code];
+          throw new Error(
+            [error.error || "Upload failed", hint].filter(Boolean).join(". "),
+          );
         }
         const payload = (await response.json()) as SigningStatus;
+        setStreamFailed(false);
+        setCancelReason(null);
         setStatus(payload);
         setMessage("Workflow created in Goodflag. Waiting for completion...");
       } catch (err) {
@@ -100,19 +304,70 @@ export default function App() {
       }
     },
     [
-      file,
+      files,
       signerEmail,
       signerFirstName,
       signerLastName,
       signerPhone,
       workflowName,
+      tenant,
+      profile,
+      authHeaders,
     ],
   );
 
-  const downloadHref = useMemo(() => {
-    if (!status?.downloadUrl) return null;
-    return apiUrl(status.downloadUrl);
-  }, [status?.downloadUrl]);
+  const handleCancel = useCallback(async () => {
+    if (!status || cancelReason === null) return;
+    setIsCanceling(true);
+    try {
+      const response = await fetch(
+        apiUrl(`/api/sign/${encodeURIComponent(status.jobId)}/cancel`),
+        {
+          method: "POST",
+          headers: { ...authHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ reason: cancelReason.trim() || undefined }),
+        },
+      );
+      const payload = await response
+        .json()
+        .catch(() => ({ error: "Cancel failed" }));
+      if (!response.ok) {
+        if (payload.job) setStatus(payload.job as SigningStatus);
+        throw new Error(payload.error || "Cancel failed");
+      }
+      setStatus(payload as SigningStatus);
+      setCancelReason(null);
+      setMessage("Signing job canceled.");
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Cancel failed");
+    } finally {
+      setIsCanceling(false);
+    }
+  }, [status, cancelReason, authHeaders]);
+
+  // Downloads need the credential too, so fetch them instead of linking.
+  const handleDownload = useCallback(
+    async (downloadUrl: string, fallbackName: string) => {
+      try {
+        const response = await fetch(apiUrl(downloadUrl), {
+          headers: authHeaders,
+        });
+        if (!response.ok) {
+          throw new Error(`Unable to download file (${response.status})`);
+        }
+        const objectUrl = URL.createObjectURL(await response.blob());
+        const link = document.createElement("a");
+        link.href = objectUrl;
+        const disposition = response.headers.get("content-disposition");
+        link.download = fileNameFromDisposition(disposition) ?? fallbackName;
+        link.click();
+        URL.revokeObjectURL(objectUrl);
+      } catch (err) {
+        setMessage(err instanceof Error ? err.message : "Download failed");
+      }
+    },
+    [authHeaders],
+  );
 
   return (
     <main className="app-shell">
@@ -124,11 +379,25 @@ export default function App() {
         </p>
         <form className="form" onSubmit={handleSubmit}>
           <label className="field">
-            <span>PDF Document</span>
+            <span>Access Token</span>
+            <input
+              type="password"
+              value={accessToken}
+              placeholder="Bearer token or API key"
+              autoComplete="off"
+              onChange={(event) => setAccessToken(event.target.value)}
+              required
+            />
+          </label>
+          <label className="field">
+            <span>PDF Documents</span>
             <input
               type="file"
               accept="application/pdf"
-              onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+              multiple
+              onChange={(event) =>
+                setFiles(Array.from(event.target.files ?? []))
+              }
               required
             />
           </label>
@@ -141,6 +410,24 @@ export default function App() {
               onChange={(event) => setWorkflowName(event.target.value)}
             />
           </label>
+          <label className="field">
+            <span>Tenant (optional)</span>
+            <input
+              type="text"
+              value={tenant}
+              placeholder="legal"
+              onChange={(event) => setTenant(event.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span>Signature Profile (optional)</span>
+            <input
+              type="text"
+              value={profile}
+              placeholder="advanced"
+              onChange={(event) => setProfile(event.target.value)}
+            />
+          </label>
           <label className="field">
             <span>Signer Email</span>
             <input
@@ -219,6 +506,21 @@ export default function App() {
                 <dd>{status.fileName}</dd>
               </div>
             )}
+            {status.errorReason && (
+              <div>
+                <dt>Reason</dt>
+                <dd className="error">
+                  {ERROR_REASON_LABELS[status.errorReason] ??
+                    status.errorReason}
+                </dd>
+              </div>
+            )}
+            {status.cancelReason && (
+              <div>
+                <dt>Cancel Reason</dt>
+                <dd>{status.cancelReason}</dd>
+              </div>
+            )}
             {status.error && (
               <div>
                 <dt>Error</dt>
@@ -233,16 +535,105 @@ export default function App() {
             )}
           </dl>
 
-          {status.status === "completed" && downloadHref && (
-            <a
+          {status.status === "pending" &&
+            status.workflowId &&
+            (cancelReason === null ? (
+              <button
+                className="secondary"
+                type="button"
+                onClick={() => setCancelReason("")}
+              >
+                Cancel Signing
+              </button>
+            ) : (
+              <div className="form">
+                <label className="field">
+                  <span>Reason for Canceling (optional)</span>
+                  <input
+                    type="text"
+                    value={cancelReason}
+                    placeholder="Sent to the wrong signer"
+                    onChange={(event) => setCancelReason(event.target.value)}
+                    autoFocus
+                  />
+                </label>
+                <div>
+                  <button
+                    className="secondary"
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={isCanceling}
+                  >
+                    {isCanceling ? "Canceling..." : "Confirm Cancel"}
+                  </button>
+                  <button
+                    className="secondary"
+                    type="button"
+                    onClick={() => setCancelReason(null)}
+                    disabled={isCanceling}
+                  >
+                    Keep Signing
+                  </button>
+                </div>
+              </div>
+            ))}
+          {status.status === "completed" && status.downloadUrl && (
+            <button
               className="primary"
-              href={downloadHref}
-              target="_blank"
-              rel="noreferrer"
+              type="button"
+              onClick={() =>
+                handleDownload(
+                  status.downloadUrl!,
+                  status.signedFileName ?? status.fileName ?? "signed.pdf",
+                )
+              }
             >
-              Download Signed PDF
-            </a>
+              {status.documents && status.documents.length > 1
+                ? "Download All Signed Documents"
+                : "Download Signed PDF"}
+            </button>
+          )}
+          {status.status === "completed" && status.verification && (
+            <ul className="verification">
+              {status.verification.documents.map((document) => {
+                const { className, text } = describeVerification(document);
+                return (
+                  <li key={document.fileName} className={className}>
+                    {document.fileName}: {text}
+                  </li>
+                );
+              })}
+            </ul>
           )}
+          {status.status === "completed" &&
+            status.documents
+              ?.filter((document) => document.downloadUrl)
+              .map((document) => (
+                <button
+                  key={document.index}
+                  className="secondary"
+                  type="button"
+                  onClick={() =>
+                    handleDownload(
+                      document.downloadUrl!,
+                      document.signedFileName ?? document.fileName,
+                    )
+                  }
+                >
+                  {document.signedFileName ?? document.fileName}
+                </button>
+              ))}
+          {status.status === "completed" &&
+            status.files?.map((file) => (
+              <button
+                key={`file-${file.index}`}
+                className="secondary"
+                type="button"
+                onClick={() => handleDownload(file.downloadUrl, file.name)}
+              >
+                {file.kind === "evidence" ? `Evidence: ${file.name}` : file.name}
+              </button>
+            ))}
         </section>
       )}
     </main>